@@ -6,6 +6,80 @@ import { dirname, resolve } from "path";
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+const plugins = () => [
+  alias({
+    entries: [
+      { find: "@", replacement: resolve(__dirname, "./src") },
+      {
+        find: "@types",
+        replacement: resolve(__dirname, "./src/shared/types/index"),
+      },
+      {
+        find: "@errors",
+        replacement: resolve(__dirname, "./src/shared/errors/index"),
+      },
+      {
+        find: "@constants",
+        replacement: resolve(__dirname, "./src/shared/constants/index"),
+      },
+      {
+        find: "@utils",
+        replacement: resolve(__dirname, "./src/shared/utils/index"),
+      },
+      {
+        find: "@shared",
+        replacement: resolve(__dirname, "./src/shared/index"),
+      },
+      {
+        find: "@validation",
+        replacement: resolve(__dirname, "./src/shared/validation/index"),
+      },
+      {
+        find: "@client",
+        replacement: resolve(__dirname, "./src/client/index"),
+      },
+      {
+        find: "@webhook",
+        replacement: resolve(__dirname, "./src/features/webhook/index"),
+      },
+      {
+        find: "@invoice",
+        replacement: resolve(__dirname, "./src/features/invoice/index"),
+      },
+      {
+        find: "@payment",
+        replacement: resolve(__dirname, "./src/features/payment/index"),
+      },
+      {
+        find: "@token",
+        replacement: resolve(__dirname, "./src/features/token/index"),
+      },
+      {
+        find: "@payout",
+        replacement: resolve(__dirname, "./src/features/payout/index"),
+      },
+      {
+        find: "@settlement",
+        replacement: resolve(__dirname, "./src/features/settlement/index"),
+      },
+    ],
+  }),
+  typescript({
+    tsconfig: "./tsconfig.build.json",
+    clean: true,
+  }),
+];
+
+const external = [
+  "axios",
+  "tiny-typed-emitter",
+  "zod",
+  "node:fs/promises",
+  "node:os",
+  "node:path",
+  "node:readline/promises",
+];
+
 const config = [
   // ES Module build
   {
@@ -15,58 +89,8 @@ const config = [
       format: "es",
       sourcemap: true,
     },
-    plugins: [
-      alias({
-        entries: [
-          { find: "@", replacement: resolve(__dirname, "./src") },
-          {
-            find: "@types",
-            replacement: resolve(__dirname, "./src/shared/types/index"),
-          },
-          {
-            find: "@errors",
-            replacement: resolve(__dirname, "./src/shared/errors/index"),
-          },
-          {
-            find: "@constants",
-            replacement: resolve(__dirname, "./src/shared/constants/index"),
-          },
-          {
-            find: "@utils",
-            replacement: resolve(__dirname, "./src/shared/utils/index"),
-          },
-          {
-            find: "@shared",
-            replacement: resolve(__dirname, "./src/shared/index"),
-          },
-          {
-            find: "@validation",
-            replacement: resolve(__dirname, "./src/shared/validation/index"),
-          },
-          {
-            find: "@client",
-            replacement: resolve(__dirname, "./src/client/index"),
-          },
-          {
-            find: "@webhook",
-            replacement: resolve(__dirname, "./src/features/webhook/index"),
-          },
-          {
-            find: "@invoice",
-            replacement: resolve(__dirname, "./src/features/invoice/index"),
-          },
-          {
-            find: "@payment",
-            replacement: resolve(__dirname, "./src/features/payment/index"),
-          },
-        ],
-      }),
-      typescript({
-        tsconfig: "./tsconfig.build.json",
-        clean: true,
-      }),
-    ],
-    external: ["axios", "tiny-typed-emitter", "zod"],
+    plugins: plugins(),
+    external,
   },
   // CommonJS build
   {
@@ -77,58 +101,19 @@ const config = [
       sourcemap: true,
       exports: "auto",
     },
-    plugins: [
-      alias({
-        entries: [
-          { find: "@", replacement: resolve(__dirname, "./src") },
-          {
-            find: "@types",
-            replacement: resolve(__dirname, "./src/shared/types/index"),
-          },
-          {
-            find: "@errors",
-            replacement: resolve(__dirname, "./src/shared/errors/index"),
-          },
-          {
-            find: "@constants",
-            replacement: resolve(__dirname, "./src/shared/constants/index"),
-          },
-          {
-            find: "@utils",
-            replacement: resolve(__dirname, "./src/shared/utils/index"),
-          },
-          {
-            find: "@shared",
-            replacement: resolve(__dirname, "./src/shared/index"),
-          },
-          {
-            find: "@validation",
-            replacement: resolve(__dirname, "./src/shared/validation/index"),
-          },
-          {
-            find: "@client",
-            replacement: resolve(__dirname, "./src/client/index"),
-          },
-          {
-            find: "@webhook",
-            replacement: resolve(__dirname, "./src/features/webhook/index"),
-          },
-          {
-            find: "@invoice",
-            replacement: resolve(__dirname, "./src/features/invoice/index"),
-          },
-          {
-            find: "@payment",
-            replacement: resolve(__dirname, "./src/features/payment/index"),
-          },
-        ],
-      }),
-      typescript({
-        tsconfig: "./tsconfig.build.json",
-        clean: true,
-      }),
-    ],
-    external: ["axios", "tiny-typed-emitter", "zod"],
+    plugins: plugins(),
+    external,
+  },
+  // `moyasar` command line
+  {
+    input: "src/cli/bin.ts",
+    output: {
+      file: "dist/cli.js",
+      format: "es",
+      banner: "#!/usr/bin/env node",
+    },
+    plugins: plugins(),
+    external,
   },
 ];
 
@@ -0,0 +1,251 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Metadata, MoyasarClientTypes } from "@types";
+import { PaymentService, PaymentSource, PaymentStatus } from "@payment";
+import { InvoiceService } from "@invoice";
+import { WebhookService } from "@webhook";
+import { FakeApiClient } from "@/testing";
+import { runCli, type CliIO, type CliProfile } from "@/cli";
+
+describe("moyasar CLI", () => {
+  let client: ReturnType<CliIO["createClient"]>;
+  let stdout: string[];
+  let stderr: string[];
+  let questions: string[];
+  let answer: boolean;
+  let profiles: CliProfile[];
+  let io: CliIO;
+
+  beforeEach(() => {
+    type Types = MoyasarClientTypes<Metadata>;
+    const fake = new FakeApiClient<Types>();
+    const webhook = new WebhookService<Types>({ apiClient: fake });
+    client = {
+      webhook,
+      payment: new PaymentService<Types>({ apiClient: fake, webhook }),
+      invoice: new InvoiceService<Types>({ apiClient: fake }),
+    };
+    stdout = [];
+    stderr = [];
+    questions = [];
+    answer = true;
+    profiles = [];
+    io = {
+      stdout: text => stdout.push(text),
+      stderr: text => stderr.push(text),
+      confirm: async question => {
+        questions.push(question);
+        return answer;
+      },
+      env: { MOYASAR_API_KEY: "sk_test_env" },
+      createClient: profile => {
+        profiles.push(profile);
+        return client;
+      },
+    };
+  });
+
+  const createPayment = (number = "4000000000000077", manual = false) =>
+    client.payment.create({
+      amount: 5000,
+      currency: "SAR",
+      description: "Order #1",
+      callback_url: "https://example.com/callback",
+      source: {
+        type: PaymentSource.CREDITCARD,
+        name: "Test User",
+        number,
+        month: 12,
+        year: 2035,
+        cvc: "123",
+        manual,
+      },
+    });
+
+  describe("payments", () => {
+    it("should print a payment as a table of fields", async () => {
+      const payment = await createPayment();
+
+      expect(await runCli(["payments", "get", payment.id], io)).toBe(0);
+      expect(stdout[0]).toMatch(/^FIELD\s+VALUE\n-+\s+-+\n/);
+      expect(stdout[0]).toMatch(new RegExp(`\\nid\\s+${payment.id}\\n`));
+      expect(stdout[0]).toMatch(/\namount_format\s+50\.00 SAR\n/);
+      expect(profiles).toEqual([{ api_key: "sk_test_env" }]);
+    });
+
+    it("should print JSON with --output json", async () => {
+      const payment = await createPayment();
+
+      await runCli(["payments", "get", payment.id, "-o", "json"], io);
+
+      expect(JSON.parse(stdout[0]!)).toMatchObject({
+        id: payment.id,
+        status: PaymentStatus.PAID,
+      });
+    });
+
+    it("should list payments with filters and pagination", async () => {
+      const paid = await createPayment();
+      await createPayment("4000000000000002");
+
+      await runCli(["payments", "list", "--status=paid"], io);
+
+      const [header, , ...rows] = stdout[0]!.split("\n");
+      expect(header).toMatch(/^ID\s+STATUS\s+AMOUNT_FORMAT\s+SOURCE\.TYPE/);
+      expect(rows[0]).toContain(paid.id);
+      expect(rows[0]).toContain("4000-00XX-XXXX-0077");
+      expect(rows.at(-1)).toBe("Page 1 of 1 (1 total)");
+    });
+
+    it("should refund in the major unit after confirmation", async () => {
+      const payment = await createPayment();
+
+      expect(
+        await runCli(["payments", "refund", payment.id, "--amount", "10.5"], io)
+      ).toBe(0);
+
+      expect(questions).toEqual([`Refund 10.50 SAR of payment ${payment.id}?`]);
+      expect((await client.payment.retrieve(payment.id)).refunded).toBe(1050);
+    });
+
+    it("should confirm the remaining amount of a full refund", async () => {
+      const payment = await createPayment();
+      await client.payment.refund({
+        paymentId: payment.id,
+        refund: { amount: 1000 },
+      });
+
+      await runCli(["payments", "refund", payment.id], io);
+
+      expect(questions).toEqual([`Refund 40.00 SAR of payment ${payment.id}?`]);
+      expect((await client.payment.retrieve(payment.id)).refunded).toBe(5000);
+    });
+
+    it("should abort destructive commands without confirmation", async () => {
+      const payment = await createPayment();
+      answer = false;
+
+      expect(await runCli(["payments", "void", payment.id], io)).toBe(2);
+
+      expect(stderr[0]).toBe(
+        "Error: Aborted, pass --yes to skip the confirmation"
+      );
+      expect((await client.payment.retrieve(payment.id)).status).toBe(
+        PaymentStatus.PAID
+      );
+    });
+
+    it("should skip the confirmation with --yes", async () => {
+      const payment = await createPayment("4000000000000077", true);
+
+      await runCli(["payments", "capture", payment.id, "--yes"], io);
+
+      expect(questions).toEqual([]);
+      expect((await client.payment.retrieve(payment.id)).status).toBe(
+        PaymentStatus.CAPTURED
+      );
+    });
+  });
+
+  describe("invoices", () => {
+    it("should create, list and cancel invoices", async () => {
+      await runCli(
+        [
+          "invoices",
+          "create",
+          "--amount",
+          "25",
+          "--description",
+          "Plan",
+          "-o",
+          "json",
+        ],
+        io
+      );
+      const invoice = JSON.parse(stdout[0]!);
+      expect(invoice).toMatchObject({ amount: 2500, currency: "SAR" });
+
+      await runCli(["invoices", "list"], io);
+      expect(stdout[1]).toContain(invoice.id);
+
+      await runCli(["invoices", "cancel", invoice.id], io);
+      expect(questions).toEqual([`Cancel invoice ${invoice.id}?`]);
+      expect(stdout[2]).toMatch(/status\s+canceled/);
+    });
+  });
+
+  describe("errors", () => {
+    it("should report invalid usage with exit code 2", async () => {
+      expect(await runCli(["payments", "refund"], io)).toBe(2);
+      expect(await runCli(["invoices", "create", "--amount", "abc"], io)).toBe(
+        2
+      );
+      expect(
+        await runCli(["invoices", "create", "--amount", "10.555"], io)
+      ).toBe(2);
+      expect(await runCli(["charges", "list"], io)).toBe(2);
+
+      expect(stderr).toEqual([
+        "Error: Missing <id>",
+        "Error: --amount must be an amount, e.g. 10.50",
+        "Error: --amount has more than 2 decimals for SAR",
+        'Error: Unknown command "charges list", see moyasar --help',
+      ]);
+    });
+
+    it("should report API errors with exit code 1", async () => {
+      expect(await runCli(["payments", "get", "missing"], io)).toBe(1);
+      expect(stderr[0]).toContain("Error: Failed to retrieve payment");
+    });
+
+    it("should print the help", async () => {
+      expect(await runCli(["--help"], io)).toBe(0);
+      expect(stdout[0]).toContain("webhooks attempts");
+    });
+  });
+
+  describe("profiles", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "moyasar-cli-"));
+      await writeFile(
+        join(dir, "profiles.json"),
+        JSON.stringify({
+          default: { api_key: "sk_test_default" },
+          live: { api_key: "sk_live_123", base_url: "https://example.com" },
+        })
+      );
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should read the key of the selected profile", async () => {
+      const payment = await createPayment();
+      io.env = {
+        MOYASAR_PROFILES: join(dir, "profiles.json"),
+        MOYASAR_API_KEY: "sk_test_env",
+      };
+
+      await runCli(["payments", "get", payment.id, "--profile", "live"], io);
+      io.env = { MOYASAR_PROFILES: join(dir, "profiles.json") };
+      await runCli(["payments", "get", payment.id], io);
+
+      expect(profiles).toEqual([
+        { api_key: "sk_live_123", base_url: "https://example.com" },
+        { api_key: "sk_test_default" },
+      ]);
+    });
+
+    it("should fail without a key", async () => {
+      io.env = { MOYASAR_PROFILES: join(dir, "missing.json") };
+
+      expect(await runCli(["webhooks", "list"], io)).toBe(2);
+      expect(stderr[0]).toContain('add the "default" profile');
+    });
+  });
+});
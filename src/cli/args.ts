@@ -0,0 +1,127 @@
+import { Money } from "../shared/utils/money.utils";
+import type { CurrencyType } from "@types";
+import { CLI_BOOLEAN_FLAGS, CLI_FLAG_ALIASES } from "./constants";
+import { CliError } from "./errors";
+import type { CliArgs } from "./types";
+
+export class CliArgsUtils {
+  /**
+   * Split `argv` into positionals and flags: `--name value`, `--name=value`, `-o value` and boolean flags
+   */
+  static parse(argv: string[]): CliArgs {
+    const args: CliArgs = { positionals: [], flags: {} };
+
+    for (let i = 0; i < argv.length; i++) {
+      const arg = argv[i]!;
+      const match = /^--?([^=]+)(?:=(.*))?$/.exec(arg);
+      if (!match || arg === "-") {
+        args.positionals.push(arg);
+        continue;
+      }
+
+      const name = CLI_FLAG_ALIASES[match[1]!] ?? match[1]!;
+      if (CLI_BOOLEAN_FLAGS.includes(name)) {
+        args.flags[name] = match[2] === undefined || match[2] !== "false";
+      } else if (match[2] !== undefined) {
+        args.flags[name] = match[2];
+      } else if (i + 1 < argv.length) {
+        args.flags[name] = argv[++i]!;
+      } else {
+        throw new CliError(`Missing value for --${name}`);
+      }
+    }
+
+    return args;
+  }
+
+  static positional(args: CliArgs, index: number, name: string): string {
+    const value = args.positionals[index];
+    if (!value) throw new CliError(`Missing <${name}>`);
+    return value;
+  }
+
+  static string(args: CliArgs, name: string): string | undefined {
+    const value = args.flags[name];
+    return typeof value === "string" ? value : undefined;
+  }
+
+  static requiredString(args: CliArgs, name: string): string {
+    const value = CliArgsUtils.string(args, name);
+    if (!value) throw new CliError(`Missing --${name}`);
+    return value;
+  }
+
+  static integer(args: CliArgs, name: string): number | undefined {
+    const value = CliArgsUtils.string(args, name);
+    if (value === undefined) return undefined;
+    if (!/^\d+$/.test(value)) {
+      throw new CliError(`--${name} must be a positive integer`, { value });
+    }
+    return Number(value);
+  }
+
+  static date(args: CliArgs, name: string): Date | undefined {
+    const value = CliArgsUtils.string(args, name);
+    if (value === undefined) return undefined;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new CliError(`--${name} must be a date, e.g. 2025-01-31`, {
+        value,
+      });
+    }
+    return date;
+  }
+
+  static list(args: CliArgs, name: string): string[] | undefined {
+    return CliArgsUtils.string(args, name)
+      ?.split(",")
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+
+  /**
+   * Amounts are given in the major unit, e.g. `--amount 10.50` is 1050 halalas
+   */
+  static amount(
+    args: CliArgs,
+    name: string,
+    currency: CurrencyType
+  ): number | undefined {
+    const value = CliArgsUtils.string(args, name);
+    if (value === undefined) return undefined;
+    if (!/^\d+(\.\d+)?$/.test(value)) {
+      throw new CliError(`--${name} must be an amount, e.g. 10.50`, { value });
+    }
+
+    // Refunds and captures are never rounded
+    const exponent = Money.getExponent(currency);
+    if ((value.split(".")[1]?.length ?? 0) > exponent) {
+      throw new CliError(
+        `--${name} has more than ${exponent} decimals for ${currency}`,
+        { value, currency }
+      );
+    }
+    return Money.fromDecimal(value, currency).amount;
+  }
+
+  /**
+   * `--metadata order_id=1,user_id=2` as metadata filters
+   */
+  static metadata(
+    args: CliArgs,
+    name: string = "metadata"
+  ): Record<string, string> | undefined {
+    const pairs = CliArgsUtils.list(args, name);
+    if (!pairs) return undefined;
+
+    return Object.fromEntries(
+      pairs.map(pair => {
+        const index = pair.indexOf("=");
+        if (index < 1) {
+          throw new CliError(`--${name} must be key=value pairs`, { pair });
+        }
+        return [pair.slice(0, index), pair.slice(index + 1)];
+      })
+    );
+  }
+}
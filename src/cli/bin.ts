@@ -0,0 +1,6 @@
+import { runCli } from "./run";
+
+// Entry point of the `moyasar` binary, the shebang is added by the build
+runCli(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,245 @@
+import type { CurrencyType } from "@types";
+import type { PaymentListOptions, PaymentStatus } from "@payment";
+import type { InvoiceListOptions, InvoiceStatus } from "@invoice";
+import {
+  WebhookHttpMethod,
+  type WebhookAttemptListOptions,
+  type WebhookEvent,
+} from "@webhook";
+import { Money } from "../shared/utils/money.utils";
+import { CliArgsUtils as Args } from "./args";
+import { CliError } from "./errors";
+import type { CliCommand } from "./types";
+
+const PAYMENT_COLUMNS = [
+  "id",
+  "status",
+  "amount_format",
+  "source.type",
+  "source.number",
+  "description",
+  "created_at",
+];
+
+const INVOICE_COLUMNS = [
+  "id",
+  "status",
+  "amount_format",
+  "description",
+  "url",
+  "created_at",
+];
+
+const WEBHOOK_COLUMNS = ["id", "http_method", "url", "events", "created_at"];
+
+/**
+ * Drop the flags that were not given, the request types don't accept `undefined` everywhere
+ */
+const defined = <T extends object>(options: Record<string, unknown>): T =>
+  Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as T;
+
+/**
+ * Commands by name, e.g. `payments get`
+ */
+export const CLI_COMMANDS: Readonly<Record<string, CliCommand>> = {
+  "payments get": {
+    usage: "payments get <id>",
+    description: "Show a payment",
+    run: async ({ client, args }) => ({
+      data: await client.payment.retrieve(Args.positional(args, 0, "id")),
+    }),
+  },
+  "payments list": {
+    usage:
+      "payments list [--status <status>] [--page <page>] [--last-4 <digits>] [--created-after <date>] [--created-before <date>] [--metadata <key=value,...>]",
+    description: "List payments, newest first",
+    columns: PAYMENT_COLUMNS,
+    run: async ({ client, args }) => {
+      const response = await client.payment.list(
+        defined<PaymentListOptions>({
+          status: Args.string(args, "status") as PaymentStatus | undefined,
+          page: Args.integer(args, "page"),
+          last_4: Args.string(args, "last-4"),
+          "created[gt]": Args.date(args, "created-after"),
+          "created[lt]": Args.date(args, "created-before"),
+          metadata: Args.metadata(args),
+        })
+      );
+      return { data: response, rows: response.payments, meta: response.meta };
+    },
+  },
+  "payments refund": {
+    usage: "payments refund <id> [--amount <amount>]",
+    description: "Refund a paid or captured payment, fully by default",
+    run: async ({ client, args, confirm }) => {
+      const payment = await client.payment.retrieve(
+        Args.positional(args, 0, "id")
+      );
+      const amount = Args.amount(args, "amount", payment.currency);
+
+      // A full refund returns what is left after the previous partial refunds
+      const refundable = amount ?? payment.captured - payment.refunded;
+      await confirm(
+        `Refund ${Money.of(refundable, payment.currency).format()} of payment ${payment.id}?`
+      );
+      return {
+        data: await client.payment.refund({
+          paymentId: payment.id,
+          refund: amount === undefined ? {} : { amount },
+        }),
+      };
+    },
+  },
+  "payments capture": {
+    usage: "payments capture <id> [--amount <amount>]",
+    description: "Capture an authorized payment, fully by default",
+    run: async ({ client, args, confirm }) => {
+      const payment = await client.payment.retrieve(
+        Args.positional(args, 0, "id")
+      );
+      const amount = Args.amount(args, "amount", payment.currency);
+
+      await confirm(
+        `Capture ${amount === undefined ? payment.amount_format : Money.of(amount, payment.currency).format()} of payment ${payment.id}?`
+      );
+      return {
+        data: await client.payment.capture({
+          paymentId: payment.id,
+          capture: amount === undefined ? {} : { amount },
+        }),
+      };
+    },
+  },
+  "payments void": {
+    usage: "payments void <id>",
+    description: "Void a paid, authorized or captured payment",
+    run: async ({ client, args, confirm }) => {
+      const payment = await client.payment.retrieve(
+        Args.positional(args, 0, "id")
+      );
+
+      await confirm(`Void payment ${payment.id} (${payment.amount_format})?`);
+      return { data: await client.payment.void(payment.id) };
+    },
+  },
+  "invoices create": {
+    usage:
+      "invoices create --amount <amount> --description <text> [--currency SAR] [--callback-url <url>] [--success-url <url>] [--back-url <url>] [--expired-at <date>]",
+    description: "Create an invoice, the amount is in the major unit",
+    run: async ({ client, args }) => {
+      const currency = (Args.string(args, "currency") ?? "SAR") as CurrencyType;
+      const amount = Args.amount(args, "amount", currency);
+      if (amount === undefined) throw new CliError("Missing --amount");
+
+      return {
+        data: await client.invoice.create(
+          defined({
+            amount,
+            currency,
+            description: Args.requiredString(args, "description"),
+            callback_url: Args.string(args, "callback-url"),
+            success_url: Args.string(args, "success-url"),
+            back_url: Args.string(args, "back-url"),
+            expired_at: Args.date(args, "expired-at"),
+          })
+        ),
+      };
+    },
+  },
+  "invoices list": {
+    usage:
+      "invoices list [--status <status>] [--page <page>] [--metadata <key=value,...>]",
+    description: "List invoices, newest first",
+    columns: INVOICE_COLUMNS,
+    run: async ({ client, args }) => {
+      const response = await client.invoice.list(
+        defined<InvoiceListOptions>({
+          status: Args.string(args, "status") as InvoiceStatus | undefined,
+          page: Args.integer(args, "page"),
+          metadata: Args.metadata(args),
+        })
+      );
+      return { data: response, rows: response.invoices, meta: response.meta };
+    },
+  },
+  "invoices cancel": {
+    usage: "invoices cancel <id>",
+    description: "Cancel an initiated invoice",
+    run: async ({ client, args, confirm }) => {
+      const id = Args.positional(args, 0, "id");
+
+      await confirm(`Cancel invoice ${id}?`);
+      return { data: await client.invoice.cancel(id) };
+    },
+  },
+  "webhooks list": {
+    usage: "webhooks list [--page <page>]",
+    description: "List webhooks",
+    columns: WEBHOOK_COLUMNS,
+    run: async ({ client, args }) => {
+      const response = await client.webhook.list(
+        defined({ page: Args.integer(args, "page") })
+      );
+      return { data: response, rows: response.webhooks, meta: response.meta };
+    },
+  },
+  "webhooks create": {
+    usage:
+      "webhooks create --url <url> --shared-secret <secret> [--method post] [--events <event,...>]",
+    description: "Create a webhook, for every event by default",
+    run: async ({ client, args }) => ({
+      data: await client.webhook.create(
+        defined({
+          url: Args.requiredString(args, "url"),
+          shared_secret: Args.requiredString(args, "shared-secret"),
+          http_method: (Args.string(args, "method") ??
+            WebhookHttpMethod.POST) as WebhookHttpMethod,
+          events: Args.list(args, "events") as WebhookEvent[] | undefined,
+        })
+      ),
+    }),
+  },
+  "webhooks delete": {
+    usage: "webhooks delete <id>",
+    description: "Delete a webhook",
+    run: async ({ client, args, confirm }) => {
+      const webhook = await client.webhook.retrieve(
+        Args.positional(args, 0, "id")
+      );
+
+      await confirm(`Delete webhook ${webhook.id} (${webhook.url})?`);
+      await client.webhook.delete(webhook.id);
+      return { data: { id: webhook.id, deleted: true } };
+    },
+  },
+  "webhooks attempts": {
+    usage:
+      "webhooks attempts [--webhook-id <id>] [--event-type <event>] [--result success|failed] [--page <page>]",
+    description: "List webhook delivery attempts",
+    columns: [
+      "id",
+      "event_type",
+      "result",
+      "response_code",
+      "retry_number",
+      "created_at",
+    ],
+    run: async ({ client, args }) => {
+      const response = await client.webhook.attempts.list(
+        defined<WebhookAttemptListOptions>({
+          webhook_id: Args.string(args, "webhook-id"),
+          event_type: Args.string(args, "event-type"),
+          result: Args.string(args, "result"),
+          page: Args.integer(args, "page"),
+        })
+      );
+      return {
+        data: response,
+        rows: response.webhook_attempts,
+        meta: response.meta,
+      };
+    },
+  },
+};
@@ -0,0 +1,65 @@
+import { CliDefaults } from "./constants";
+import { CliError } from "./errors";
+import type { CliArgs, CliProfile } from "./types";
+
+export class CliConfig {
+  /**
+   * Resolve the API key of the commands:
+   *
+   * 1. the profile given with `--profile`
+   * 2. the `MOYASAR_API_KEY` environment variable
+   * 3. the profile named by `MOYASAR_PROFILE`, `default` otherwise
+   */
+  static async resolveProfile(
+    args: CliArgs,
+    env: Record<string, string | undefined>
+  ): Promise<CliProfile> {
+    const requested = args.flags["profile"];
+    const apiKey = env[CliDefaults.ENV_API_KEY];
+    if (typeof requested !== "string" && apiKey) return { api_key: apiKey };
+
+    const name =
+      typeof requested === "string"
+        ? requested
+        : (env[CliDefaults.ENV_PROFILE] ?? CliDefaults.PROFILE);
+    const path = await CliConfig.profilesPath(env);
+    const profile = (await CliConfig.readProfiles(path))[name];
+
+    if (!profile?.api_key) {
+      throw new CliError(
+        `No API key found, set ${CliDefaults.ENV_API_KEY} or add the "${name}" profile to ${path}`,
+        { profile: name, path }
+      );
+    }
+    return profile;
+  }
+
+  static async profilesPath(
+    env: Record<string, string | undefined>
+  ): Promise<string> {
+    const custom = env[CliDefaults.ENV_PROFILES_PATH];
+    if (custom) return custom;
+
+    const { homedir } = await import("node:os");
+    const { join } = await import("node:path");
+    return join(homedir(), CliDefaults.PROFILES_PATH);
+  }
+
+  /**
+   * Profiles by name, e.g. `{ "default": { "api_key": "sk_test_..." } }`
+   */
+  private static async readProfiles(
+    path: string
+  ): Promise<Record<string, CliProfile>> {
+    const { readFile } = await import("node:fs/promises");
+    try {
+      return JSON.parse(await readFile(path, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw new CliError(`Invalid profiles file ${path}`, {
+        path,
+        reason: String(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,20 @@
+export const CliDefaults = {
+  ENV_API_KEY: "MOYASAR_API_KEY",
+  ENV_PROFILE: "MOYASAR_PROFILE",
+  ENV_PROFILES_PATH: "MOYASAR_PROFILES",
+  PROFILES_PATH: ".moyasar/profiles.json", // Relative to the home directory
+  PROFILE: "default",
+  OUTPUT: "table",
+} as const;
+
+/**
+ * Flags without a value
+ */
+export const CLI_BOOLEAN_FLAGS = ["yes", "help"];
+
+export const CLI_FLAG_ALIASES: Readonly<Record<string, string>> = {
+  o: "output",
+  y: "yes",
+  h: "help",
+  p: "profile",
+};
@@ -0,0 +1,11 @@
+import { MoyasarError } from "@errors";
+
+/**
+ * Invalid usage of the CLI, e.g. a missing argument or an unknown command
+ */
+export class CliError extends MoyasarError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, "CLI_ERROR", 400, details ?? {});
+    this.name = "CliError";
+  }
+}
@@ -0,0 +1,12 @@
+export { runCli } from "./run";
+export { CLI_COMMANDS } from "./commands";
+export { CliDefaults } from "./constants";
+export { CliError } from "./errors";
+export type {
+  CliClient,
+  CliCommand,
+  CliIO,
+  CliOutputFormat,
+  CliProfile,
+  CliResult,
+} from "./types";
@@ -0,0 +1,72 @@
+import type { CliOutputFormat, CliResult } from "./types";
+
+export class CliOutput {
+  static format(
+    result: CliResult,
+    format: CliOutputFormat,
+    columns?: string[]
+  ): string {
+    if (format === "json") return JSON.stringify(result.data, null, 2);
+
+    if (!result.rows) {
+      const fields = Object.entries(result.data ?? {}).map(([key, value]) => [
+        key,
+        CliOutput.cell(value),
+      ]);
+      return CliOutput.table(["field", "value"], fields);
+    }
+
+    if (result.rows.length === 0) return "No results";
+
+    const headers = columns ?? Object.keys(result.rows[0]!);
+    const table = CliOutput.table(
+      headers,
+      result.rows.map(row =>
+        headers.map(column => CliOutput.cell(CliOutput.pick(row, column)))
+      )
+    );
+    const meta = result.meta;
+    return meta
+      ? `${table}\n\nPage ${meta.current_page} of ${meta.total_pages} (${meta.total_count} total)`
+      : table;
+  }
+
+  /**
+   * Read a nested field, e.g. `source.number`
+   */
+  private static pick(row: object, path: string): unknown {
+    return path
+      .split(".")
+      .reduce<unknown>(
+        (value, key) =>
+          value && typeof value === "object"
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        row
+      );
+  }
+
+  private static cell(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === "object") return JSON.stringify(value);
+    return String(value);
+  }
+
+  private static table(headers: string[], rows: string[][]): string {
+    const widths = headers.map((header, i) =>
+      Math.max(header.length, ...rows.map(row => row[i]!.length))
+    );
+    const line = (cells: string[]) =>
+      cells
+        .map((cell, i) => cell.padEnd(widths[i]!))
+        .join("  ")
+        .trimEnd();
+
+    return [
+      line(headers.map(header => header.toUpperCase())),
+      line(widths.map(width => "-".repeat(width))),
+      ...rows.map(line),
+    ].join("\n");
+  }
+}
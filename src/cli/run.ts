@@ -0,0 +1,111 @@
+import { MoyasarError } from "@errors";
+import { MoyasarClient } from "../client/moyasar-client";
+import { CliArgsUtils } from "./args";
+import { CLI_COMMANDS } from "./commands";
+import { CliConfig } from "./config";
+import { CliDefaults } from "./constants";
+import { CliError } from "./errors";
+import { CliOutput } from "./output";
+import type { CliIO, CliOutputFormat } from "./types";
+
+const USAGE = `Usage: moyasar <resource> <action> [arguments] [options]
+
+Options:
+  -o, --output <json|table>  Output format (default: ${CliDefaults.OUTPUT})
+  -p, --profile <name>       Profile of the profiles file
+  -y, --yes                  Skip the confirmation of refunds, captures, voids, cancels and deletes
+  -h, --help                 Show this help
+
+API keys are read from ${CliDefaults.ENV_API_KEY}, or from the profiles file
+~/${CliDefaults.PROFILES_PATH} (or ${CliDefaults.ENV_PROFILES_PATH}):
+  { "default": { "api_key": "sk_test_..." }, "live": { "api_key": "sk_live_..." } }
+
+Amounts are given in the major unit, e.g. --amount 10.50
+
+Commands:
+${Object.values(CLI_COMMANDS)
+  .map(command => `  ${command.usage}\n      ${command.description}`)
+  .join("\n")}`;
+
+const defaultIO = (): CliIO => ({
+  stdout: text => process.stdout.write(`${text}\n`),
+  stderr: text => process.stderr.write(`${text}\n`),
+  confirm: async question => {
+    if (!process.stdin.isTTY) return false;
+
+    const { createInterface } = await import("node:readline/promises");
+    const readline = createInterface({
+      input: process.stdin,
+      output: process.stderr,
+    });
+    try {
+      const answer = await readline.question(`${question} [y/N] `);
+      return /^y(es)?$/i.test(answer.trim());
+    } finally {
+      readline.close();
+    }
+  },
+  env: process.env,
+  createClient: profile =>
+    new MoyasarClient({
+      apiKey: profile.api_key,
+      ...(profile.base_url && { baseUrl: profile.base_url }),
+    }),
+});
+
+/**
+ * Run the `moyasar` command line
+ *
+ * @returns the exit code: `0` on success, `1` when a request fails, `2` on invalid usage
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = defaultIO()
+): Promise<number> {
+  try {
+    const args = CliArgsUtils.parse(argv);
+    const [resource, action, ...positionals] = args.positionals;
+    const command = CLI_COMMANDS[`${resource} ${action}`];
+
+    if (args.flags["help"] || !resource) {
+      io.stdout(USAGE);
+      return 0;
+    }
+    if (!command) {
+      throw new CliError(
+        `Unknown command "${[resource, action].filter(Boolean).join(" ")}", see moyasar --help`
+      );
+    }
+
+    const output = CliArgsUtils.string(args, "output") ?? CliDefaults.OUTPUT;
+    if (output !== "json" && output !== "table") {
+      throw new CliError(`--output must be json or table, got "${output}"`);
+    }
+
+    const profile = await CliConfig.resolveProfile(args, io.env);
+    const result = await command.run({
+      client: io.createClient(profile),
+      args: { ...args, positionals },
+      confirm: async question => {
+        if (args.flags["yes"] || (await io.confirm(question))) return;
+        throw new CliError("Aborted, pass --yes to skip the confirmation");
+      },
+    });
+
+    io.stdout(
+      CliOutput.format(result, output as CliOutputFormat, command.columns)
+    );
+    return 0;
+  } catch (error) {
+    if (error instanceof CliError) {
+      io.stderr(`Error: ${error.message}`);
+      return 2;
+    }
+
+    io.stderr(`Error: ${error instanceof Error ? error.message : error}`);
+    if (error instanceof MoyasarError && Object.keys(error.details).length) {
+      io.stderr(JSON.stringify(error.details, null, 2));
+    }
+    return 1;
+  }
+}
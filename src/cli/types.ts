@@ -0,0 +1,70 @@
+import type { PaginationMeta } from "@types";
+import type { MoyasarClient } from "../client/moyasar-client";
+
+export type CliOutputFormat = "json" | "table";
+
+/**
+ * A profile of the profiles file, see `CliDefaults.PROFILES_PATH`
+ */
+export interface CliProfile {
+  api_key: string;
+  base_url?: string | undefined;
+}
+
+export interface CliArgs {
+  positionals: string[];
+  flags: Record<string, string | boolean>;
+}
+
+/**
+ * Services used by the commands, a `MoyasarClient` outside of tests
+ */
+export type CliClient = Pick<MoyasarClient, "payment" | "invoice" | "webhook">;
+
+/**
+ * Side effects of the CLI, replaced in tests
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  /**
+   * @description Ask a yes/no question, resolves to `false` when nobody can answer it.
+   */
+  confirm: (question: string) => Promise<boolean>;
+  env: Record<string, string | undefined>;
+  createClient: (profile: CliProfile) => CliClient;
+}
+
+export interface CliContext {
+  client: CliClient;
+  args: CliArgs;
+  /**
+   * @description Resolves once the user agreed or `--yes` was passed, throws a `CliError` otherwise.
+   */
+  confirm: (question: string) => Promise<void>;
+}
+
+export interface CliResult {
+  /**
+   * @description Printed as is with `--output json`.
+   */
+  data: unknown;
+  /**
+   * @description Rows of the table, the fields of `data` are listed when missing.
+   */
+  rows?: object[] | undefined;
+  meta?: PaginationMeta | undefined;
+}
+
+export interface CliCommand {
+  /**
+   * @description e.g. `payments refund <id> [--amount <amount>]`
+   */
+  usage: string;
+  description: string;
+  /**
+   * @description Table columns, nested fields use dots, e.g. `source.number`.
+   */
+  columns?: string[] | undefined;
+  run: (context: CliContext) => Promise<CliResult>;
+}
@@ -0,0 +1,224 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  AxiosError,
+  type AxiosAdapter,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { ApiConnectionError, RateLimitError } from "@errors";
+import type { CassetteFile, CassetteOptions } from "@types";
+import { Cassette } from "../cassette";
+import { MoyasarClient } from "../moyasar-client";
+
+const API_KEY = "sk_test_abcdef123456";
+
+const createClient = (
+  cassette: CassetteOptions,
+  responses: Array<{ status: number; data?: any; headers?: any }> = []
+) => {
+  const calls: InternalAxiosRequestConfig[] = [];
+  // Stands in for the HTTP adapter wrapped by the cassette
+  const send: AxiosAdapter = async config => {
+    calls.push(config);
+    const next = responses.shift() ?? { status: 200, data: {} };
+    const response = {
+      data: JSON.stringify(next.data ?? {}),
+      status: next.status,
+      statusText: String(next.status),
+      headers: next.headers ?? { "content-type": "application/json" },
+      config,
+    };
+    if (next.status >= 400) {
+      throw new AxiosError(
+        "Request failed",
+        "ERR_BAD_REQUEST",
+        config,
+        {},
+        response
+      );
+    }
+    return response;
+  };
+
+  const client = new MoyasarClient({ apiKey: API_KEY, retries: 0 });
+  (client as any).axiosInstance.defaults.adapter = new Cassette(
+    cassette,
+    API_KEY
+  ).adapter(send);
+
+  return { client, calls };
+};
+
+const readCassette = async (path: string): Promise<CassetteFile> =>
+  JSON.parse(await readFile(path, "utf8"));
+
+describe("Cassette", () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "moyasar-cassette-"));
+    path = join(dir, "cassettes", "payments.json");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should record requests and responses in auto mode without a cassette", async () => {
+    const { client, calls } = createClient({ path }, [
+      { status: 200, data: { id: "pay_1", status: "paid" } },
+    ]);
+
+    await client.request({ method: "GET", url: "/v1/payments/pay_1" });
+
+    expect(calls).toHaveLength(1);
+    expect(await readCassette(path)).toEqual({
+      version: 1,
+      interactions: [
+        {
+          request: { method: "GET", url: "/v1/payments/pay_1" },
+          response: {
+            status: 200,
+            headers: { "content-type": "application/json" },
+            body: { id: "pay_1", status: "paid" },
+          },
+        },
+      ],
+    });
+  });
+
+  it("should redact card numbers, CVCs, secrets and API keys", async () => {
+    const { client } = createClient({ path, redactKeys: ["mobile"] }, [
+      {
+        status: 201,
+        data: {
+          id: "pay_1",
+          source: { number: "4111-11XX-XXXX-1111" },
+          secret_token: "whsec_123",
+        },
+      },
+    ]);
+
+    await client.request({
+      method: "POST",
+      url: "/v1/payments",
+      data: {
+        description: `Paid with ${API_KEY}`,
+        source: {
+          number: "4111111111111111",
+          cvc: "123",
+          mobile: "0501234567",
+        },
+        card: { number: "4111 1111 1111 1111" },
+        publishable_api_key: "pk_live_xyz789",
+      },
+    });
+
+    const [interaction] = (await readCassette(path)).interactions;
+    expect(interaction?.request.body).toEqual({
+      description: "Paid with sk_test_[REDACTED]",
+      source: {
+        number: "411111XXXXXX1111",
+        cvc: "[REDACTED]",
+        mobile: "[REDACTED]",
+      },
+      card: { number: "411111XXXXXX1111" },
+      publishable_api_key: "pk_live_[REDACTED]",
+    });
+    expect(interaction?.response.body).toEqual({
+      id: "pay_1",
+      source: { number: "4111-11XX-XXXX-1111" },
+      secret_token: "[REDACTED]",
+    });
+    expect(JSON.stringify(interaction)).not.toContain(API_KEY);
+  });
+
+  it("should replay recorded interactions in order without network", async () => {
+    path = join(dir, "replay.json");
+    await writeFile(
+      path,
+      JSON.stringify({
+        version: 1,
+        interactions: [
+          {
+            request: { method: "GET", url: "/v1/payments?page=1" },
+            response: { status: 200, headers: {}, body: { page: 1 } },
+          },
+          {
+            request: { method: "GET", url: "/v1/payments?page=1" },
+            response: { status: 200, headers: {}, body: { page: "again" } },
+          },
+        ],
+      } satisfies CassetteFile)
+    );
+    const { client, calls } = createClient({ path, mode: "replay" });
+
+    const request = {
+      method: "GET",
+      url: "/v1/payments",
+      params: { page: 1 },
+    } as const;
+    expect(await client.request<object>(request)).toEqual({ page: 1 });
+    expect(await client.request<object>(request)).toEqual({ page: "again" });
+    expect(calls).toHaveLength(0);
+
+    const error = await client.request(request).catch(e => e);
+    expect(error).toBeInstanceOf(ApiConnectionError);
+    expect(error.message).toContain("No recorded response for GET");
+    expect(error.details.code).toBe("ERR_CASSETTE_MISS");
+  });
+
+  it("should replay through the client cassette option", async () => {
+    path = join(dir, "replay.json");
+    await writeFile(
+      path,
+      JSON.stringify({
+        version: 1,
+        interactions: [
+          {
+            request: { method: "GET", url: "/v1/payments/pay_1" },
+            response: { status: 200, headers: {}, body: { id: "pay_1" } },
+          },
+        ],
+      } satisfies CassetteFile)
+    );
+    const client = new MoyasarClient({
+      apiKey: API_KEY,
+      cassette: { path, mode: "replay" },
+    });
+
+    expect(
+      await client.request<object>({ method: "GET", url: "/v1/payments/pay_1" })
+    ).toEqual({ id: "pay_1" });
+  });
+
+  it("should replay recorded API errors as typed errors", async () => {
+    const recorder = createClient({ path, mode: "record" }, [
+      {
+        status: 429,
+        data: { type: "rate_limit_error", message: "Too many requests" },
+        headers: { "retry-after": "2", "x-request-id": "req_1" },
+      },
+    ]);
+    const recorded = await recorder.client
+      .request({ method: "GET", url: "/v1/invoices" })
+      .catch(e => e);
+    expect(recorded).toBeInstanceOf(RateLimitError);
+
+    const { client, calls } = createClient({ path });
+    const replayed = await client
+      .request({ method: "GET", url: "/v1/invoices" })
+      .catch(e => e);
+
+    expect(calls).toHaveLength(0);
+    expect(replayed).toBeInstanceOf(RateLimitError);
+    expect(replayed.message).toBe("Too many requests");
+    expect(replayed.details.retryAfter).toBe("2");
+    expect(
+      (await readCassette(path)).interactions[0]?.response.headers
+    ).toEqual({ "retry-after": "2" });
+  });
+});
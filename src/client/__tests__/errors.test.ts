@@ -0,0 +1,155 @@
+import { describe, expect, it } from "bun:test";
+import { AxiosError, type InternalAxiosRequestConfig } from "axios";
+import {
+  AccountInactiveError,
+  ApiConnectionError,
+  AuthenticationError,
+  InvalidRequestError,
+  MoyasarApiError,
+  MoyasarError,
+  RateLimitError,
+} from "@errors";
+import { PaymentError } from "@payment";
+import { MoyasarClient } from "../moyasar-client";
+
+const createClient = (response: {
+  status: number;
+  data?: any;
+  headers?: any;
+}) => {
+  const client = new MoyasarClient({ apiKey: "sk_test_123", retries: 0 });
+
+  // Replace the HTTP adapter so no request leaves the process
+  (client as any).axiosInstance.defaults.adapter = async (
+    config: InternalAxiosRequestConfig
+  ) => {
+    if (response.status === 0) {
+      throw new AxiosError("socket hang up", "ECONNRESET", config);
+    }
+    throw new AxiosError(
+      "Request failed",
+      "ERR_BAD_RESPONSE",
+      config,
+      {},
+      {
+        data: response.data ?? {},
+        status: response.status,
+        statusText: String(response.status),
+        headers: response.headers ?? {},
+        config,
+      }
+    );
+  };
+
+  return client;
+};
+
+const requestError = async (response: {
+  status: number;
+  data?: any;
+  headers?: any;
+}): Promise<unknown> =>
+  createClient(response)
+    .request({ method: "GET", url: "/v1/payments/pay_123" })
+    .catch(error => error);
+
+describe("API errors", () => {
+  it("should map the status codes to error classes", async () => {
+    expect(await requestError({ status: 400 })).toBeInstanceOf(
+      InvalidRequestError
+    );
+    expect(await requestError({ status: 404 })).toBeInstanceOf(
+      InvalidRequestError
+    );
+    expect(await requestError({ status: 401 })).toBeInstanceOf(
+      AuthenticationError
+    );
+    expect(await requestError({ status: 403 })).toBeInstanceOf(
+      AccountInactiveError
+    );
+    expect(await requestError({ status: 429 })).toBeInstanceOf(RateLimitError);
+  });
+
+  it("should prefer the error type of the response", async () => {
+    const error = await requestError({
+      status: 400,
+      data: { type: "authentication_error", message: "Invalid key" },
+    });
+
+    expect(error).toBeInstanceOf(AuthenticationError);
+    expect(error).toMatchObject({
+      type: "authentication_error",
+      statusCode: 400,
+      message: "Invalid key",
+    });
+  });
+
+  it("should keep unknown error types as MoyasarApiError", async () => {
+    const error = await requestError({ status: 500 });
+
+    expect(error).toBeInstanceOf(MoyasarApiError);
+    expect(error).toBeInstanceOf(MoyasarError);
+    expect(error).not.toBeInstanceOf(InvalidRequestError);
+    expect((error as MoyasarApiError).type).toBe("api_error");
+  });
+
+  it("should expose the field errors", async () => {
+    const error = (await requestError({
+      status: 400,
+      data: {
+        type: "invalid_request_error",
+        message: "Validation Failed",
+        errors: { amount: ["must be greater than 100"], "source.cvc": "blank" },
+      },
+    })) as InvalidRequestError;
+
+    expect(error.errors).toEqual({
+      amount: ["must be greater than 100"],
+      "source.cvc": ["blank"],
+    });
+    expect(error.details.errors).toEqual(error.errors);
+  });
+
+  it("should raise ApiConnectionError without a response", async () => {
+    const error = await requestError({ status: 0 });
+
+    expect(error).toBeInstanceOf(ApiConnectionError);
+    expect(error).toMatchObject({
+      type: "api_connection_error",
+      details: { code: "ECONNRESET" },
+      errors: {},
+    });
+  });
+
+  it("should not keep the axios error and its API key", async () => {
+    const error = (await requestError({ status: 401 })) as Error;
+
+    expect(error.cause).toBeUndefined();
+  });
+
+  it("should keep the API error as cause when a service wraps it", async () => {
+    const client = createClient({
+      status: 429,
+      data: { type: "rate_limit_error", message: "Too many requests" },
+    });
+
+    const error = await client.payment.retrieve("pay_123").catch(e => e);
+
+    expect(error).toBeInstanceOf(PaymentError);
+    expect(error.cause).toBeInstanceOf(RateLimitError);
+    expect(error.statusCode).toBe(429);
+  });
+});
+
+describe("MoyasarApiError.normalizeErrors", () => {
+  it("should bring every format to lists of messages", () => {
+    expect(MoyasarApiError.normalizeErrors(["Amount is invalid"])).toEqual({
+      base: ["Amount is invalid"],
+    });
+    expect(MoyasarApiError.normalizeErrors("Amount is invalid")).toEqual({
+      base: ["Amount is invalid"],
+    });
+    expect(MoyasarApiError.normalizeErrors(undefined)).toEqual({});
+    expect(MoyasarApiError.normalizeErrors(null)).toEqual({});
+  });
+});
@@ -0,0 +1,246 @@
+import { describe, expect, it } from "bun:test";
+import {
+  AxiosError,
+  AxiosHeaders,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { MoyasarError } from "@errors";
+import { MoyasarClient } from "../moyasar-client";
+import { RetryUtils } from "../retry";
+
+const createClient = (
+  responses: Array<{ status: number; data?: any; headers?: any }>,
+  options: Partial<ConstructorParameters<typeof MoyasarClient>[0]> = {}
+) => {
+  const client = new MoyasarClient({
+    apiKey: "sk_test_123",
+    retries: 2,
+    retryDelay: 0,
+    ...options,
+  });
+  const calls: InternalAxiosRequestConfig[] = [];
+
+  // Replace the HTTP adapter so no request leaves the process
+  (client as any).axiosInstance.defaults.adapter = async (
+    config: InternalAxiosRequestConfig
+  ) => {
+    calls.push(config);
+    const next = responses.shift() ?? { status: 200, data: {} };
+    const response = {
+      data: next.data ?? {},
+      status: next.status,
+      statusText: String(next.status),
+      headers: next.headers ?? {},
+      config,
+    };
+    if (next.status >= 400) {
+      throw new AxiosError(
+        "Request failed",
+        "ERR_BAD_RESPONSE",
+        config,
+        {},
+        response
+      );
+    }
+    return response;
+  };
+
+  return { client, calls };
+};
+
+describe("RetryUtils", () => {
+  describe("isIdempotentRequest", () => {
+    it("should treat GET requests as idempotent", () => {
+      expect(
+        RetryUtils.isIdempotentRequest({ method: "GET", url: "/v1/payments" })
+      ).toBe(true);
+    });
+
+    it("should treat payment creation with given_id as idempotent", () => {
+      expect(
+        RetryUtils.isIdempotentRequest({
+          method: "POST",
+          url: "/v1/payments",
+          data: { given_id: "0b7c1a4e-9c52-4a55-9a39-5b51f2b0f9d1" },
+        })
+      ).toBe(true);
+    });
+
+    it("should not treat other POST requests as idempotent", () => {
+      expect(
+        RetryUtils.isIdempotentRequest({ method: "POST", url: "/v1/payments" })
+      ).toBe(false);
+      expect(
+        RetryUtils.isIdempotentRequest({
+          method: "POST",
+          url: "/v1/payments/pay_123/refund",
+          data: { given_id: "abc" },
+        })
+      ).toBe(false);
+    });
+  });
+
+  describe("isRetryableError", () => {
+    it("should retry rate limits, server and connection errors", () => {
+      expect(
+        RetryUtils.isRetryableError(
+          new MoyasarError("", "rate_limit_error", 429, {})
+        )
+      ).toBe(true);
+      expect(
+        RetryUtils.isRetryableError(new MoyasarError("", "api_error", 503, {}))
+      ).toBe(true);
+      expect(
+        RetryUtils.isRetryableError(
+          new MoyasarError("", "api_connection_error", 500, {
+            code: "ECONNRESET",
+          })
+        )
+      ).toBe(true);
+    });
+
+    it("should not retry client errors or canceled requests", () => {
+      expect(
+        RetryUtils.isRetryableError(
+          new MoyasarError("", "invalid_request_error", 400, {})
+        )
+      ).toBe(false);
+      expect(
+        RetryUtils.isRetryableError(
+          new MoyasarError("", "api_connection_error", 500, {
+            code: "ERR_CANCELED",
+          })
+        )
+      ).toBe(false);
+      expect(
+        RetryUtils.isRetryableError(
+          new MoyasarError("", "api_connection_error", 500, {
+            code: "ERR_CASSETTE_MISS",
+          })
+        )
+      ).toBe(false);
+      expect(RetryUtils.isRetryableError(new Error("boom"))).toBe(false);
+    });
+  });
+
+  describe("getRetryAfter", () => {
+    it("should parse seconds and HTTP dates", () => {
+      const now = Date.parse("2030-01-01T00:00:00Z");
+      expect(
+        RetryUtils.getRetryAfter(
+          new MoyasarError("", "rate_limit_error", 429, { retryAfter: "3" })
+        )
+      ).toBe(3000);
+      expect(
+        RetryUtils.getRetryAfter(
+          new MoyasarError("", "rate_limit_error", 429, {
+            retryAfter: "Tue, 01 Jan 2030 00:00:05 GMT",
+          }),
+          now
+        )
+      ).toBe(5000);
+      expect(
+        RetryUtils.getRetryAfter(new MoyasarError("", "api_error", 503, {}))
+      ).toBeNull();
+    });
+  });
+
+  describe("computeDelay", () => {
+    const options = { retryDelay: 100, maxRetryDelay: 1000 };
+
+    it("should grow exponentially and be capped", () => {
+      expect(RetryUtils.computeDelay(0, options, null, () => 0.999)).toBe(99);
+      expect(RetryUtils.computeDelay(2, options, null, () => 0.999)).toBe(399);
+      expect(RetryUtils.computeDelay(10, options, null, () => 0.999)).toBe(999);
+    });
+
+    it("should prefer the Retry-After hint", () => {
+      expect(RetryUtils.computeDelay(0, options, 700)).toBe(700);
+      expect(RetryUtils.computeDelay(0, options, 5000)).toBe(1000);
+    });
+  });
+
+  describe("resolveOptions", () => {
+    it("should apply per-request overrides", () => {
+      const defaults = { retries: 3, retryDelay: 10, maxRetryDelay: 100 };
+      expect(
+        RetryUtils.resolveOptions(defaults, { retry: { retries: 1 } })
+      ).toEqual({
+        retries: 1,
+        retryDelay: 10,
+        maxRetryDelay: 100,
+        idempotent: undefined,
+      });
+      expect(
+        RetryUtils.resolveOptions(defaults, { retry: false }).retries
+      ).toBe(0);
+    });
+  });
+});
+
+describe("BaseAxiosApiClient retries", () => {
+  it("should retry GET requests until they succeed", async () => {
+    const { client, calls } = createClient([
+      { status: 503 },
+      { status: 429, headers: new AxiosHeaders({ "retry-after": "0" }) },
+      { status: 200, data: { ok: true } },
+    ]);
+
+    const result = await client.request({ method: "GET", url: "/v1/payments" });
+
+    expect(result).toEqual({ ok: true });
+    expect(calls).toHaveLength(3);
+  });
+
+  it("should give up after the configured number of retries", async () => {
+    const { client, calls } = createClient([
+      { status: 503 },
+      { status: 503 },
+      { status: 503 },
+      { status: 200 },
+    ]);
+
+    const promise = client.request({ method: "GET", url: "/v1/payments" });
+
+    await expect(promise).rejects.toBeInstanceOf(MoyasarError);
+    expect(calls).toHaveLength(3);
+  });
+
+  it("should not retry non-idempotent requests", async () => {
+    const { client, calls } = createClient([{ status: 503 }, { status: 200 }]);
+
+    const promise = client.request({
+      method: "POST",
+      url: "/v1/payments/pay_123/refund",
+    });
+
+    await expect(promise).rejects.toBeInstanceOf(MoyasarError);
+    expect(calls).toHaveLength(1);
+  });
+
+  it("should honor per-request overrides", async () => {
+    const { client, calls } = createClient([{ status: 503 }, { status: 200 }]);
+
+    await expect(
+      client.request({ method: "GET", url: "/v1/payments", retry: false })
+    ).rejects.toBeInstanceOf(MoyasarError);
+    expect(calls).toHaveLength(1);
+
+    const forced = createClient([{ status: 503 }, { status: 200 }]);
+    await forced.client.request({
+      method: "PUT",
+      url: "/v1/invoices/inv_123",
+      retry: { idempotent: true },
+    });
+    expect(forced.calls).toHaveLength(2);
+  });
+
+  it("should not retry client errors", async () => {
+    const { client, calls } = createClient([{ status: 400 }, { status: 200 }]);
+
+    await expect(
+      client.request({ method: "GET", url: "/v1/payments" })
+    ).rejects.toBeInstanceOf(MoyasarError);
+    expect(calls).toHaveLength(1);
+  });
+});
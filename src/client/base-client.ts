@@ -4,14 +4,29 @@ import axios, {
   type AxiosRequestConfig,
   type AxiosResponse,
 } from "axios";
-import { type ApiClientOptions, type RequestConfig } from "@types";
+import {
+  type ApiClientOptions,
+  type ApiError,
+  type RequestConfig,
+  type RetryOptions,
+} from "@types";
 import { DEFAULT_API_CONFIG } from "@constants";
-import { MoyasarError } from "@errors";
+import { MoyasarApiError, ApiConnectionError } from "@errors";
+import { RetryUtils } from "./retry";
+import { Cassette } from "./cassette";
 
 export abstract class BaseAxiosApiClient {
   private axiosInstance: AxiosInstance;
+  private readonly retryOptions: RetryOptions;
 
   constructor(apiKey: string, options: ApiClientOptions = {}) {
+    this.retryOptions = {
+      retries: options.retries ?? DEFAULT_API_CONFIG.RETRIES,
+      retryDelay: options.retryDelay ?? DEFAULT_API_CONFIG.RETRY_DELAY,
+      maxRetryDelay:
+        options.maxRetryDelay ?? DEFAULT_API_CONFIG.MAX_RETRY_DELAY,
+    };
+
     // Create axios instance with base configuration
     this.axiosInstance = axios.create({
       baseURL: options.baseUrl || DEFAULT_API_CONFIG.BASE_URL,
@@ -23,6 +38,14 @@ export abstract class BaseAxiosApiClient {
       },
     });
 
+    // Record or replay the requests instead of always hitting the network
+    if (options.cassette) {
+      this.axiosInstance.defaults.adapter = new Cassette(
+        options.cassette,
+        apiKey
+      ).adapter(axios.getAdapter(this.axiosInstance.defaults.adapter));
+    }
+
     // Setup response interceptor for error handling
     this.setupInterceptors();
   }
@@ -37,33 +60,51 @@ export abstract class BaseAxiosApiClient {
     );
   }
 
+  /**
+   * Send a request, retrying temporary failures of idempotent requests
+   * with exponential backoff (see `ApiClientOptions.retries`)
+   */
   async request<T = any>(config: RequestConfig): Promise<T> {
-    const response = await this.axiosInstance.request<T>(config);
-    return response.data;
+    const options = RetryUtils.resolveOptions(this.retryOptions, config);
+    const idempotent =
+      options.idempotent ?? RetryUtils.isIdempotentRequest(config);
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.axiosInstance.request<T>(config);
+        return response.data;
+      } catch (error) {
+        const canRetry =
+          idempotent &&
+          attempt < options.retries &&
+          RetryUtils.isRetryableError(error);
+        if (!canRetry) throw error;
+
+        await RetryUtils.sleep(
+          RetryUtils.computeDelay(
+            attempt,
+            options,
+            RetryUtils.getRetryAfter(error)
+          )
+        );
+      }
+    }
   }
 
-  private createErrorFromAxiosError(error: AxiosError): MoyasarError {
+  private createErrorFromAxiosError(error: AxiosError): MoyasarApiError {
     const response = error.response;
 
-    let errorData: {
-      type?: string;
-      message?: string;
-      errors?: string[];
-    } = {};
+    let errorData: Partial<Omit<ApiError, "errors">> & { errors?: unknown } =
+      {};
     let message = error.message;
     let statusCode = response?.status ?? 500;
 
     // Handle network errors
     if (!response) {
-      return new MoyasarError(
-        error.message || "Network error occurred",
-        "api_connection_error",
-        statusCode,
-        {
-          code: error.code,
-          originalError: error.message,
-        }
-      );
+      return new ApiConnectionError(error.message || "Network error occurred", {
+        code: error.code,
+        originalError: error.message,
+      });
     }
 
     statusCode = response.status;
@@ -80,15 +121,14 @@ export abstract class BaseAxiosApiClient {
     if (errorData.message) message = errorData.message;
     else message = this.getDefaultErrorMessage(statusCode, errorType);
 
-    const moyasarError = new MoyasarError(message, errorType, statusCode, {
+    // The axios error is not kept as `cause`, its config holds the API key
+    return MoyasarApiError.create(message, errorType, statusCode, {
       url: error.config?.url,
       status: statusCode,
       statusText: response.statusText,
-      errors: errorData.errors, // Detailed validation errors
+      retryAfter: response.headers?.["retry-after"],
       ...errorData,
     });
-
-    return moyasarError;
   }
 
   private getDefaultErrorType(statusCode: number, errorType: string) {
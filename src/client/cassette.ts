@@ -0,0 +1,237 @@
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import type {
+  CassetteFile,
+  CassetteInteraction,
+  CassetteOptions,
+} from "@types";
+
+const REDACTED = "[REDACTED]";
+
+/**
+ * Body keys always redacted, compared case-insensitively
+ */
+const REDACTED_KEYS = ["cvc", "cvv", "shared_secret", "secret_token"];
+
+const API_KEY_REGEX = /\b(sk|pk)_(test|live)_[A-Za-z0-9]+/g;
+const CARD_NUMBER_REGEX = /^\d{12,19}$/;
+
+/**
+ * Response headers kept in the cassette, the others change on every recording
+ */
+const RECORDED_HEADERS = ["content-type", "retry-after"];
+
+/**
+ * Records request and response pairs to a JSON file and replays them offline, see `ApiClientOptions.cassette`.
+ *
+ * Requests are matched by method and URL, in recording order, request bodies are ignored
+ * so random values such as `given_id` don't break the replay.
+ */
+export class Cassette {
+  private readonly redactedKeys: Set<string>;
+  private mode: Promise<"record" | "replay"> | null = null;
+  private interactions: CassetteInteraction[] = [];
+  private readonly replayed = new Set<number>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly options: CassetteOptions,
+    private readonly apiKey: string
+  ) {
+    this.redactedKeys = new Set(
+      [...REDACTED_KEYS, ...(options.redactKeys ?? [])].map(key =>
+        key.toLowerCase()
+      )
+    );
+  }
+
+  /**
+   * Wrap the axios adapter sending the requests while recording
+   */
+  adapter(send: AxiosAdapter): AxiosAdapter {
+    return async config => {
+      const request = this.toRequest(config);
+
+      if ((await this.resolveMode()) === "replay") {
+        return this.replay(request, config);
+      }
+
+      try {
+        const response = await send(config);
+        await this.record(request, response);
+        return response;
+      } catch (error) {
+        if (error instanceof AxiosError && error.response) {
+          await this.record(request, error.response);
+        }
+        throw error;
+      }
+    };
+  }
+
+  private resolveMode(): Promise<"record" | "replay"> {
+    this.mode ??= (async () => {
+      const mode = this.options.mode ?? "auto";
+      if (mode === "record") return "record";
+
+      const { readFile } = await import("node:fs/promises");
+      try {
+        const file = JSON.parse(
+          await readFile(this.options.path, "utf8")
+        ) as CassetteFile;
+        this.interactions = file.interactions;
+        return "replay";
+      } catch (error) {
+        const missing = (error as NodeJS.ErrnoException).code === "ENOENT";
+        if (mode === "auto" && missing) return "record";
+        throw error;
+      }
+    })();
+
+    return this.mode;
+  }
+
+  private replay(
+    request: CassetteInteraction["request"],
+    config: InternalAxiosRequestConfig
+  ): AxiosResponse {
+    const index = this.interactions.findIndex(
+      (interaction, i) =>
+        !this.replayed.has(i) &&
+        interaction.request.method === request.method &&
+        interaction.request.url === request.url
+    );
+    const interaction = this.interactions[index];
+    if (!interaction) {
+      throw new AxiosError(
+        `No recorded response for ${request.method} ${request.url} in ${this.options.path}`,
+        "ERR_CASSETTE_MISS",
+        config
+      );
+    }
+    this.replayed.add(index);
+
+    const { status, headers, body } = interaction.response;
+    const response: AxiosResponse = {
+      data: body,
+      status,
+      statusText: String(status),
+      headers: new AxiosHeaders(headers),
+      config,
+    };
+
+    const validateStatus =
+      config.validateStatus ?? ((code: number) => code >= 200 && code < 300);
+    if (validateStatus(status)) return response;
+
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      null,
+      response
+    );
+  }
+
+  private record(
+    request: CassetteInteraction["request"],
+    response: AxiosResponse
+  ): Promise<void> {
+    const headers: Record<string, string> = {};
+    for (const name of RECORDED_HEADERS) {
+      const value = response.headers?.[name];
+      if (value !== undefined && value !== null) headers[name] = String(value);
+    }
+
+    this.interactions.push({
+      request,
+      response: {
+        status: response.status,
+        headers,
+        body: this.redact(this.parseBody(response.data)),
+      },
+    });
+
+    return this.save();
+  }
+
+  /**
+   * Write the whole cassette after every interaction, one write at a time
+   */
+  private save(): Promise<void> {
+    const result = this.queue.then(async () => {
+      const { mkdir, rename, writeFile } = await import("node:fs/promises");
+      const { dirname } = await import("node:path");
+      const file: CassetteFile = {
+        version: 1,
+        interactions: this.interactions,
+      };
+      const tempPath = `${this.options.path}.tmp`;
+
+      await mkdir(dirname(this.options.path), { recursive: true });
+      await writeFile(tempPath, `${JSON.stringify(file, null, 2)}\n`);
+      await rename(tempPath, this.options.path);
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private toRequest(
+    config: InternalAxiosRequestConfig
+  ): CassetteInteraction["request"] {
+    const url = new URL(axios.getUri(config), "http://localhost");
+    const request: CassetteInteraction["request"] = {
+      method: (config.method ?? "GET").toUpperCase(),
+      url: this.redact(`${url.pathname}${url.search}`) as string,
+    };
+
+    const body = this.parseBody(config.data);
+    if (body !== undefined) request.body = this.redact(body);
+    return request;
+  }
+
+  private parseBody(data: unknown): unknown {
+    if (typeof data !== "string" || data === "") return data ?? undefined;
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+
+  /**
+   * Redact card numbers, CVCs, secrets and API keys anywhere in a body
+   */
+  private redact(value: unknown, key?: string): unknown {
+    if (typeof value === "string") {
+      if (key && this.redactedKeys.has(key.toLowerCase())) return REDACTED;
+      const digits = value.replace(/[\s-]/g, "");
+      if (key === "number" && CARD_NUMBER_REGEX.test(digits)) {
+        return `${digits.slice(0, 6)}${"X".repeat(digits.length - 10)}${digits.slice(-4)}`;
+      }
+      const redacted = value.replace(API_KEY_REGEX, `$1_$2_${REDACTED}`);
+      return this.apiKey
+        ? redacted.replaceAll(this.apiKey, REDACTED)
+        : redacted;
+    }
+
+    if (Array.isArray(value)) return value.map(item => this.redact(item));
+
+    if (typeof value === "object" && value !== null) {
+      return Object.fromEntries(
+        Object.entries(value).map(([name, item]) => [
+          name,
+          this.redact(item, name),
+        ])
+      );
+    }
+
+    if (key && this.redactedKeys.has(key.toLowerCase())) return REDACTED;
+    return value;
+  }
+}
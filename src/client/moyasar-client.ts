@@ -1,5 +1,5 @@
 import { BaseAxiosApiClient } from "./base-client";
-import { WebhookService } from "@webhook";
+import { WebhookService, type WebhookDeduplicationOptions } from "@webhook";
 
 import { InvoiceService } from "@invoice";
 import type {
@@ -10,11 +10,18 @@ import type {
   ApiClient,
 } from "@types";
 import { PaymentService } from "@payment";
+import { TokenService } from "@token";
+import { PayoutService } from "@payout";
+import { SettlementService } from "@settlement";
 
 export interface MoyasarClientOptions<T extends object = Metadata>
   extends ApiClientOptions {
   apiKey: string;
   metadataValidator?: MetadataValidator<T>;
+  /**
+   * @description Skip retried deliveries of already processed webhook events, `{}` uses an in-memory store. Off by default.
+   */
+  webhookDeduplication?: WebhookDeduplicationOptions;
 }
 
 export class MoyasarClient<T extends object = Metadata>
@@ -24,6 +31,9 @@ export class MoyasarClient<T extends object = Metadata>
   public readonly webhook: WebhookService<MoyasarClientTypes<T>>;
   public readonly invoice: InvoiceService<MoyasarClientTypes<T>>;
   public readonly payment: PaymentService<MoyasarClientTypes<T>>;
+  public readonly token: TokenService<MoyasarClientTypes<T>>;
+  public readonly payout: PayoutService<MoyasarClientTypes<T>>;
+  public readonly settlement: SettlementService<MoyasarClientTypes<T>>;
   public readonly metadataValidator: MetadataValidator<T>;
 
   constructor(options: MoyasarClientOptions<T>) {
@@ -34,9 +44,18 @@ export class MoyasarClient<T extends object = Metadata>
     this.metadataValidator = options.metadataValidator ?? this.defaultParser;
 
     // Initialize feature services
-    this.webhook = new WebhookService({ apiClient: this });
+    this.webhook = new WebhookService({
+      apiClient: this,
+      deduplication: options.webhookDeduplication,
+    });
     this.invoice = new InvoiceService({ apiClient: this });
-    this.payment = new PaymentService({ apiClient: this });
+    this.payment = new PaymentService({
+      apiClient: this,
+      webhook: this.webhook,
+    });
+    this.token = new TokenService({ apiClient: this });
+    this.payout = new PayoutService({ apiClient: this });
+    this.settlement = new SettlementService({ apiClient: this });
   }
 
   public readonly defaultParser: MetadataValidator<T> = {
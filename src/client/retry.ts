@@ -0,0 +1,139 @@
+import type { RequestConfig, RetryOptions } from "@types";
+import {
+  API_ENDPOINTS,
+  DEFAULT_API_CONFIG,
+  RETRYABLE_STATUS_CODES,
+} from "@constants";
+import { MoyasarError } from "@errors";
+
+export type ResolvedRetryOptions = Required<RetryOptions> & {
+  idempotent: boolean | undefined;
+};
+
+/**
+ * Retry helpers used by `BaseAxiosApiClient`
+ */
+export class RetryUtils {
+  /**
+   * Merge client level retry options with the per-request overrides
+   */
+  static resolveOptions(
+    defaults: RetryOptions,
+    config: RequestConfig
+  ): ResolvedRetryOptions {
+    const override = config.retry === false ? { retries: 0 } : config.retry;
+
+    return {
+      retries: Math.max(
+        0,
+        override?.retries ?? defaults.retries ?? DEFAULT_API_CONFIG.RETRIES
+      ),
+      retryDelay:
+        override?.retryDelay ??
+        defaults.retryDelay ??
+        DEFAULT_API_CONFIG.RETRY_DELAY,
+      maxRetryDelay:
+        override?.maxRetryDelay ??
+        defaults.maxRetryDelay ??
+        DEFAULT_API_CONFIG.MAX_RETRY_DELAY,
+      idempotent: override?.idempotent,
+    };
+  }
+
+  /**
+   * Check if a request can be sent more than once without side effects.
+   *
+   * `GET` requests are always safe. Payment creation is only safe when a `given_id` is set, since Moyasar uses it as an idempotency key.
+   * @see https://docs.moyasar.com/api/idempotency
+   */
+  static isIdempotentRequest(config: RequestConfig): boolean {
+    const method = (config.method ?? "GET").toUpperCase();
+    if (method === "GET") return true;
+
+    if (method === "POST" && config.url === API_ENDPOINTS.payments) {
+      const data =
+        typeof config.data === "string"
+          ? RetryUtils.safeJsonParse(config.data)
+          : config.data;
+
+      return (
+        typeof data === "object" &&
+        data !== null &&
+        typeof data.given_id === "string" &&
+        data.given_id.length > 0
+      );
+    }
+
+    return false;
+  }
+
+  /**
+   * Check if an error is a temporary failure (rate limit, server or connection error)
+   */
+  static isRetryableError(error: unknown): boolean {
+    if (!(error instanceof MoyasarError)) return false;
+
+    // Requests canceled by the caller must never be retried
+    if (error.details["code"] === "ERR_CANCELED") return false;
+
+    // A request missing from the cassette is missing on every attempt
+    if (error.details["code"] === "ERR_CASSETTE_MISS") return false;
+
+    if (error.type === "api_connection_error") return true;
+
+    return RETRYABLE_STATUS_CODES.includes(error.statusCode);
+  }
+
+  /**
+   * Read the `Retry-After` hint (seconds or HTTP date) from an error, in milliseconds
+   */
+  static getRetryAfter(
+    error: unknown,
+    now: number = Date.now()
+  ): number | null {
+    if (!(error instanceof MoyasarError)) return null;
+
+    const value = error.details["retryAfter"];
+    if (typeof value === "number") return Math.max(0, value * 1000);
+    if (typeof value !== "string" || value.trim() === "") return null;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+
+    return null;
+  }
+
+  /**
+   * Compute the delay before the next attempt using exponential backoff with full jitter.
+   * A `Retry-After` hint takes precedence over the computed backoff.
+   */
+  static computeDelay(
+    attempt: number,
+    options: Pick<ResolvedRetryOptions, "retryDelay" | "maxRetryDelay">,
+    retryAfter: number | null = null,
+    random: () => number = Math.random
+  ): number {
+    if (retryAfter !== null) return Math.min(retryAfter, options.maxRetryDelay);
+
+    const ceiling = Math.min(
+      options.maxRetryDelay,
+      options.retryDelay * 2 ** attempt
+    );
+    return Math.floor(random() * ceiling);
+  }
+
+  static sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+
+  private static safeJsonParse(value: string): any {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -23,12 +23,16 @@ const mockValidation = {
 const validateCreateInvoiceRequest = mock().mockReturnValue(mockValidation);
 const validateBulkCreateRequest = mock().mockReturnValue(mockValidation);
 const buildMetadataQuery = mock().mockReturnValue({});
+const parseResponse = mock((response: unknown) => response);
 
 mock.module("@invoice", () => ({
   InvoiceUtils: class {
     validateCreateInvoiceRequest = validateCreateInvoiceRequest;
     validateBulkCreateRequest = validateBulkCreateRequest;
     buildMetadataQuery = buildMetadataQuery;
+    parseDetailedInvoice = parseResponse;
+    parseListInvoicesResponse = parseResponse;
+    parseBulkCreateInvoicesResponse = parseResponse;
   },
 }));
 
@@ -313,6 +317,37 @@ describe("InvoiceService", () => {
     });
   });
 
+  describe("listAll", () => {
+    it("should fetch every page with the same filters", async () => {
+      const createdAfter = new Date("2030-01-01");
+      (mockApiClient.request as any)
+        .mockResolvedValueOnce(
+          createMockInvoiceListResponse([createMockInvoice({ id: "inv_1" })])
+        )
+        .mockResolvedValueOnce({
+          invoices: [createMockInvoice({ id: "inv_2" })],
+          meta: {
+            total_count: 2,
+            current_page: 2,
+            next_page: null,
+            prev_page: 1,
+            total_pages: 2,
+          },
+        });
+
+      const invoices = await invoiceService.listAll({
+        "created[gt]": createdAfter,
+      });
+
+      expect(invoices.map(invoice => invoice.id)).toEqual(["inv_1", "inv_2"]);
+      expect((mockApiClient.request as any).mock.calls[1][0]).toEqual({
+        method: "GET",
+        url: `${API_ENDPOINTS.invoices}`,
+        params: { "created[gt]": createdAfter.toISOString(), page: 2 },
+      });
+    });
+  });
+
   describe("retrieve", () => {
     const invoiceId = "inv_existing_1";
 
@@ -341,7 +341,20 @@ describe("invoiceUtils", () => {
 
     test("should format KWD amount correctly", () => {
       const formatted = invoiceUtils.formatAmount(1000, "KWD");
-      expect(formatted).toBe("1.00 KWD");
+      expect(formatted).toBe("1.000 KWD");
+    });
+
+    test("should format other three-decimal currencies correctly", () => {
+      expect(invoiceUtils.formatAmount(1050, "BHD")).toBe("1.050 BHD");
+      expect(invoiceUtils.formatAmount(5, "OMR")).toBe("0.005 OMR");
+    });
+
+    test("should format amount for a locale", () => {
+      const formatted = invoiceUtils.formatAmount(105050, "SAR", {
+        locale: "ar-SA",
+      });
+      expect(formatted).toContain("١٬٠٥٠٫٥٠");
+      expect(formatted).toContain("\uFDFC");
     });
 
     test("should format SAR amount correctly", () => {
@@ -694,6 +707,92 @@ describe("invoiceUtils", () => {
     });
   });
 
+  describe("parseDetailedInvoice", () => {
+    const rawInvoice = {
+      ...JSON.parse(JSON.stringify(invoiceTemplate)),
+      logo_url: null,
+      callback_url: null,
+      success_url: null,
+      back_url: null,
+      expired_at: null,
+      metadata: { order_id: "ORD-12345" },
+      payments: [
+        JSON.parse(
+          JSON.stringify({
+            ...paymentTemplate,
+            source: { ...paymentTemplate.source, authorization_code: "123456" },
+          })
+        ),
+      ],
+    };
+
+    test("should convert dates and nulls", () => {
+      const invoice = invoiceUtils.parseDetailedInvoice(rawInvoice);
+
+      expect(invoice.created_at).toBeInstanceOf(Date);
+      expect(invoice.updated_at).toBeInstanceOf(Date);
+      expect(invoice.logo_url).toBeUndefined();
+      expect(invoice.expired_at).toBeUndefined();
+      expect(invoice.payments[0]!.created_at).toBeInstanceOf(Date);
+      expect(invoice.payments[0]!.id).toBe(paymentTemplate.id);
+    });
+
+    test("should run the invoice and payments metadata through the validator", () => {
+      const parse = jest.fn((metadata: object) => ({
+        ...metadata,
+        parsed: true,
+      }));
+      const utils = new InvoiceUtils({ metadataValidator: { parse } });
+
+      const invoice = utils.parseDetailedInvoice(rawInvoice);
+
+      expect(parse).toHaveBeenCalledTimes(2);
+      expect(invoice.metadata).toEqual({ order_id: "ORD-12345", parsed: true });
+      expect(invoice.payments[0]!.metadata).toMatchObject({ parsed: true });
+    });
+
+    test("should reject malformed payments", () => {
+      expect(() =>
+        invoiceUtils.parseDetailedInvoice({
+          ...rawInvoice,
+          payments: [{ id: "pay_1" }],
+        })
+      ).toThrow();
+    });
+  });
+
+  describe("parseListInvoicesResponse", () => {
+    test("should parse every invoice of the page", () => {
+      const response = invoiceUtils.parseListInvoicesResponse({
+        invoices: [JSON.parse(JSON.stringify(invoiceTemplate))],
+        meta: {
+          current_page: 1,
+          next_page: null,
+          prev_page: null,
+          total_pages: 1,
+          total_count: 1,
+        },
+      });
+
+      expect(response.invoices[0]!.created_at).toBeInstanceOf(Date);
+      expect(response.meta.total_count).toBe(1);
+    });
+  });
+
+  describe("parseBulkCreateInvoicesResponse", () => {
+    test("should parse every created invoice", () => {
+      const response = invoiceUtils.parseBulkCreateInvoicesResponse({
+        invoices: [
+          JSON.parse(JSON.stringify(invoiceTemplate)),
+          JSON.parse(JSON.stringify({ ...invoiceTemplate, id: "2" })),
+        ],
+      });
+
+      expect(response.invoices.map(invoice => invoice.id)).toEqual(["1", "2"]);
+      expect(response.invoices[1]!.updated_at).toBeInstanceOf(Date);
+    });
+  });
+
   describe("Edge cases and error handling", () => {
     test("should handle null/undefined inputs gracefully", () => {
       expect(() => {
@@ -1,7 +1,11 @@
 import { MoyasarError } from "@errors";
 export class InvoiceError extends MoyasarError {
-  constructor(message: string, details?: Record<string, any>) {
-    super(message, "INVOICE_ERROR", 500, details ?? {});
+  constructor(
+    message: string,
+    details?: Record<string, any>,
+    options?: ErrorOptions
+  ) {
+    super(message, "INVOICE_ERROR", 500, details ?? {}, options);
     this.name = "InvoiceError";
   }
 }
@@ -1,6 +1,11 @@
-import type { ApiClient, MoyasarClientTypes } from "@types";
+import type {
+  ApiClient,
+  AutoPaginationOptions,
+  MoyasarClientTypes,
+} from "@types";
 import { API_ENDPOINTS } from "@constants";
 import { MoyasarError } from "@errors";
+import { PaginationUtils } from "../../shared/utils/pagination.utils";
 import type {
   CreateInvoiceRequest,
   UpdateInvoiceRequest,
@@ -9,6 +14,7 @@ import type {
   BulkCreateInvoicesResponse,
   InvoiceListOptions,
   DetailedInvoice,
+  Invoice,
 } from "./types";
 import { InvoiceStatus } from "./enums";
 import { InvoiceUtils } from "./utils";
@@ -44,15 +50,13 @@ export class InvoiceService<T extends MoyasarClientTypes> {
     }
 
     try {
-      const invoice = await this.apiClient.request<
-        DetailedInvoice<T["metadata"]>
-      >({
+      const invoice = await this.apiClient.request<unknown>({
         method: "POST",
         url: API_ENDPOINTS.invoices,
         data: params,
       });
 
-      return invoice;
+      return this.invoiceUtils.parseDetailedInvoice(invoice);
     } catch (error) {
       const invoiceError = this.handleError(error, "Failed to create invoice");
       throw invoiceError;
@@ -74,15 +78,13 @@ export class InvoiceService<T extends MoyasarClientTypes> {
     }
 
     try {
-      const response = await this.apiClient.request<
-        BulkCreateInvoicesResponse<T["metadata"]>
-      >({
+      const response = await this.apiClient.request<unknown>({
         method: "POST",
         url: API_ENDPOINTS.bulkInvoices,
         data: params,
       });
 
-      return response;
+      return this.invoiceUtils.parseBulkCreateInvoicesResponse(response);
     } catch (error) {
       const invoiceError = this.handleError(
         error,
@@ -102,17 +104,52 @@ export class InvoiceService<T extends MoyasarClientTypes> {
       // Convert metadata filters to proper query format
       const queryParams = this.parseBody(options);
 
-      return await this.apiClient.request<ListInvoicesResponse<T["metadata"]>>({
+      const response = await this.apiClient.request<unknown>({
         method: "GET",
         url: API_ENDPOINTS.invoices,
         params: queryParams,
       });
+
+      return this.invoiceUtils.parseListInvoicesResponse(response);
     } catch (error) {
       const invoiceError = this.handleError(error, "Failed to list invoices");
       throw invoiceError;
     }
   }
 
+  /**
+   * Iterate over every invoice matching the filters, fetching pages as they are consumed
+   *
+   * @example
+   * ```ts
+   * for await (const invoice of client.invoice.iterate({ status: "paid" })) {
+   *   console.log(invoice.id);
+   * }
+   * ```
+   */
+  iterate(
+    options: InvoiceListOptions<T["metadata"]> & AutoPaginationOptions = {}
+  ): AsyncGenerator<Invoice<T["metadata"]>, void, undefined> {
+    const { maxItems, prefetch, page: startPage, ...filters } = options;
+
+    return PaginationUtils.iterate({
+      fetchPage: page => this.list({ ...filters, page }),
+      getItems: response => response.invoices,
+      startPage,
+      maxItems,
+      prefetch,
+    });
+  }
+
+  /**
+   * List every invoice matching the filters, across all pages
+   */
+  async listAll(
+    options: InvoiceListOptions<T["metadata"]> & AutoPaginationOptions = {}
+  ): Promise<Invoice<T["metadata"]>[]> {
+    return PaginationUtils.collect(this.iterate(options));
+  }
+
   /**
    * Retrieve a specific invoice
    */
@@ -122,10 +159,12 @@ export class InvoiceService<T extends MoyasarClientTypes> {
     }
 
     try {
-      return await this.apiClient.request<DetailedInvoice<T["metadata"]>>({
+      const invoice = await this.apiClient.request<unknown>({
         method: "GET",
         url: `${API_ENDPOINTS.invoices}/${invoiceId}`,
       });
+
+      return this.invoiceUtils.parseDetailedInvoice(invoice);
     } catch (error) {
       const invoiceError = this.handleError(
         error,
@@ -147,15 +186,13 @@ export class InvoiceService<T extends MoyasarClientTypes> {
     }
 
     try {
-      const invoice = await this.apiClient.request<
-        DetailedInvoice<T["metadata"]>
-      >({
+      const invoice = await this.apiClient.request<unknown>({
         method: "PUT",
         url: `${API_ENDPOINTS.invoices}/${invoiceId}`,
         data: params,
       });
 
-      return invoice;
+      return this.invoiceUtils.parseDetailedInvoice(invoice);
     } catch (error) {
       const invoiceError = this.handleError(
         error,
@@ -174,14 +211,12 @@ export class InvoiceService<T extends MoyasarClientTypes> {
     }
 
     try {
-      const invoice = await this.apiClient.request<
-        DetailedInvoice<T["metadata"]>
-      >({
+      const invoice = await this.apiClient.request<unknown>({
         method: "PUT",
         url: `${API_ENDPOINTS.invoices}/${invoiceId}/cancel`,
       });
 
-      return invoice;
+      return this.invoiceUtils.parseDetailedInvoice(invoice);
     } catch (error) {
       const invoiceError = this.handleError(
         error,
@@ -241,15 +276,19 @@ export class InvoiceService<T extends MoyasarClientTypes> {
     }
 
     if (error instanceof MoyasarError) {
-      return new InvoiceError(`${message}: ${error.message}`, {
-        ...error.details,
-      });
+      return new InvoiceError(
+        `${message}: ${error.message}`,
+        { ...error.details },
+        { cause: error }
+      );
     }
 
     const errorMessage = error?.message || error?.toString() || "Unknown error";
-    return new InvoiceError(`${message}: ${errorMessage}`, {
-      cause: errorMessage,
-    });
+    return new InvoiceError(
+      `${message}: ${errorMessage}`,
+      { cause: errorMessage },
+      { cause: error }
+    );
   }
 
   protected parseBody(p: InvoiceListOptions<T["metadata"]>) {
@@ -2,17 +2,30 @@ import type {
   Invoice,
   CreateInvoiceRequest,
   BulkCreateInvoiceRequest,
+  BulkCreateInvoicesResponse,
   DetailedInvoice,
+  ListInvoicesResponse,
 } from "./types";
 import { InvoiceStatus } from "./enums";
 import {
   CreateInvoiceSchema,
   BulkCreateInvoiceSchema,
   invoiceSchema,
+  detailedInvoiceSchema,
+  listInvoicesResponseSchema,
+  bulkCreateInvoicesResponseSchema,
 } from "./validation/schemas";
-import { PaymentStatus } from "@payment";
-import type { ValidationResult, Amount, CurrencyType, Metadata } from "@types";
+import { PaymentStatus, PaymentUtils } from "@payment";
+import type {
+  ValidationResult,
+  Amount,
+  AmountFormatOptions,
+  CurrencyType,
+  Metadata,
+} from "@types";
 import type { MetadataValidator } from "@types";
+import { Money } from "../../shared/utils/money.utils";
+import { AmountFormatter } from "../../shared/utils/amount_format.utils";
 
 type InvoiceUtilsParams<T extends object> = {
   metadataValidator: MetadataValidator<T>;
@@ -20,9 +33,13 @@ type InvoiceUtilsParams<T extends object> = {
 
 export class InvoiceUtils<T extends object> {
   private readonly metadataDeserializer: MetadataValidator<T>;
+  private readonly paymentUtils: PaymentUtils<T>;
 
   constructor(p: InvoiceUtilsParams<T>) {
     this.metadataDeserializer = p.metadataValidator;
+    this.paymentUtils = new PaymentUtils({
+      metadataValidator: p.metadataValidator,
+    });
   }
 
   /**
@@ -96,44 +113,34 @@ export class InvoiceUtils<T extends object> {
   }
 
   /**
-   * Convert amount to display format
+   * Format amount for display, using the currency's ISO 4217 decimals (see `Money`).
+   *
+   * Without options the amount is formatted like Moyasar's `amount_format` (`"10.50 SAR"`),
+   * with options it is formatted for the locale (see `AmountFormatter`), e.g. `{ locale: "ar-SA" }` for `"‏١٠٫٥٠ ﷼‏"`
    */
   formatAmount(
     amount: Amount,
     currency: CurrencyType
-  ): `${number} ${CurrencyType}` {
-    const divisors: Record<string, number> = {
-      KWD: 1000,
-      JPY: 1,
-      SAR: 100,
-      USD: 100,
-      EUR: 100,
-    };
-
-    const divisor = divisors[currency] ?? 100;
-    const formattedAmount = (amount / divisor).toFixed(
-      divisor === 1 ? 0 : 2
-    ) as `${number}`;
-
-    return `${formattedAmount} ${currency}`;
+  ): `${number} ${CurrencyType}`;
+  formatAmount(
+    amount: Amount,
+    currency: CurrencyType,
+    options: AmountFormatOptions
+  ): string;
+  formatAmount(
+    amount: Amount,
+    currency: CurrencyType,
+    options?: AmountFormatOptions
+  ): string {
+    if (options) return AmountFormatter.format(amount, currency, options);
+    return Money.of(amount, currency).format();
   }
 
   /**
    * Parse amount from display format to smallest unit
    */
   parseAmount(formattedAmount: string, currency: CurrencyType): number {
-    const divisors: Record<string, number> = {
-      KWD: 1000,
-      JPY: 1,
-      SAR: 100,
-      USD: 100,
-      EUR: 100,
-    };
-
-    const amount = parseFloat(formattedAmount.replace(/[^\d.]/g, ""));
-    const divisor = divisors[currency.toUpperCase()] || 100;
-
-    return Math.round(amount * divisor);
+    return Money.parse(formattedAmount, currency, "half-up").amount;
   }
 
   /**
@@ -267,4 +274,40 @@ export class InvoiceUtils<T extends object> {
       metadata,
     };
   }
+
+  /**
+   * Parse an invoice along with its payment attempts
+   */
+  parseDetailedInvoice(invoice: unknown): DetailedInvoice<T> {
+    const parsed = detailedInvoiceSchema.parse(invoice);
+    const metadata = parsed.metadata
+      ? this.metadataDeserializer.parse(parsed.metadata)
+      : undefined;
+
+    return {
+      ...parsed,
+      metadata,
+      payments: parsed.payments.map(payment =>
+        this.paymentUtils.parsePayment(payment)
+      ),
+    };
+  }
+
+  parseListInvoicesResponse(response: unknown): ListInvoicesResponse<T> {
+    const parsed = listInvoicesResponseSchema.parse(response);
+    const invoices = parsed.invoices.map(invoice => this.parseInvoice(invoice));
+    return {
+      ...parsed,
+      invoices,
+    };
+  }
+
+  parseBulkCreateInvoicesResponse(
+    response: unknown
+  ): BulkCreateInvoicesResponse<T> {
+    const parsed = bulkCreateInvoicesResponseSchema.parse(response);
+    return {
+      invoices: parsed.invoices.map(invoice => this.parseInvoice(invoice)),
+    };
+  }
 }
@@ -3,11 +3,14 @@ import { type AllKeys, type CurrencyType, Currency } from "@types";
 import { InvoiceStatus } from "../enums";
 import type {
   BulkCreateInvoiceRequest,
+  BulkCreateInvoicesResponse,
   CreateInvoiceRequest,
+  DetailedInvoice,
   Invoice,
+  ListInvoicesResponse,
 } from "../types";
 import { BulkInvoiceLimit } from "../constants";
-import { amountSchema } from "@validation";
+import { amountSchema, paginationMetaSchema } from "@validation";
 
 export const CreateInvoiceSchema = z.object({
   amount: amountSchema,
@@ -49,22 +52,50 @@ export const BulkCreateInvoiceSchema = z.object({
     ),
 } satisfies AllKeys<BulkCreateInvoiceRequest>);
 
+/**
+ * Optional fields are sent as `null` by the API, they are exposed as `undefined`
+ */
+const optionalUrlSchema = (field: string) =>
+  z
+    .url(`${field} must be a valid URL`)
+    .nullish()
+    .transform(val => val ?? undefined);
+
 export const invoiceSchema = z.object({
   id: z.string(),
   status: z.enum(InvoiceStatus),
   amount: amountSchema,
   currency: z.enum(Currency),
   description: z.string(),
-  logo_url: z.url("logo_url must be a valid URL"),
-  callback_url: z.url("callback_url must be a valid URL").optional(),
-  success_url: z.url("success_url must be a valid URL").optional(),
-  back_url: z.url("back_url must be a valid URL").optional(),
-  expired_at: z.coerce.date().optional(),
+  logo_url: optionalUrlSchema("logo_url"),
+  callback_url: optionalUrlSchema("callback_url"),
+  success_url: optionalUrlSchema("success_url"),
+  back_url: optionalUrlSchema("back_url"),
+  expired_at: z.coerce
+    .date()
+    .nullish()
+    .transform(val => val ?? undefined),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date(),
-  metadata: z.record(z.string(), z.string()).optional(),
+  metadata: z.record(z.string(), z.string()).nullish(),
   amount_format: z
     .string()
     .transform(val => val as `${number} ${CurrencyType}`),
   url: z.url("url must be a valid URL"),
 } satisfies AllKeys<Invoice>);
+
+/**
+ * Payments are parsed with `PaymentUtils.parsePayment`
+ */
+export const detailedInvoiceSchema = invoiceSchema.extend({
+  payments: z.array(z.unknown()).default([]),
+} satisfies AllKeys<Pick<DetailedInvoice, "payments">>);
+
+export const listInvoicesResponseSchema = z.object({
+  invoices: z.array(z.unknown()),
+  meta: paginationMetaSchema,
+} satisfies AllKeys<ListInvoicesResponse>);
+
+export const bulkCreateInvoicesResponseSchema = z.object({
+  invoices: z.array(z.unknown()),
+} satisfies AllKeys<BulkCreateInvoicesResponse>);
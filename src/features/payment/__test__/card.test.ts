@@ -0,0 +1,149 @@
+import { describe, it, expect } from "bun:test";
+import { CardScheme, CardUtils, MADA_BINS } from "@payment";
+
+describe("CardUtils", () => {
+  describe("isLuhnValid", () => {
+    it("should accept valid card numbers", () => {
+      expect(CardUtils.isLuhnValid("4111111111111111")).toBe(true);
+      expect(CardUtils.isLuhnValid("5421080101000000")).toBe(true);
+      expect(CardUtils.isLuhnValid("378282246310005")).toBe(true);
+      expect(CardUtils.isLuhnValid("4201320111111010")).toBe(true);
+    });
+
+    it("should reject mistyped card numbers", () => {
+      expect(CardUtils.isLuhnValid("4111111111111112")).toBe(false);
+      expect(CardUtils.isLuhnValid("4111111111111121")).toBe(false);
+    });
+
+    it("should reject non-digit input", () => {
+      expect(CardUtils.isLuhnValid("")).toBe(false);
+      expect(CardUtils.isLuhnValid("4111 1111 1111 1111")).toBe(false);
+    });
+  });
+
+  describe("detectScheme", () => {
+    it("should detect visa, master and amex", () => {
+      expect(CardUtils.detectScheme("4111111111111111")).toBe(CardScheme.VISA);
+      expect(CardUtils.detectScheme("5421080101000000")).toBe(
+        CardScheme.MASTER
+      );
+      expect(CardUtils.detectScheme("2223000048400011")).toBe(
+        CardScheme.MASTER
+      );
+      expect(CardUtils.detectScheme("378282246310005")).toBe(CardScheme.AMEX);
+      expect(CardUtils.detectScheme("341111111111111")).toBe(CardScheme.AMEX);
+    });
+
+    it("should detect mada before the co-branded network", () => {
+      expect(CardUtils.detectScheme("4201320111111010")).toBe(CardScheme.MADA);
+      expect(CardUtils.detectScheme("5297412542005689")).toBe(CardScheme.MADA);
+      expect(CardUtils.detectScheme("9682011234567890")).toBe(CardScheme.MADA);
+    });
+
+    it("should match BINs longer than 6 digits", () => {
+      expect(MADA_BINS).toContain("42689700");
+      expect(CardUtils.isMada("4268970012345678")).toBe(true);
+      expect(CardUtils.isMada("4268971012345678")).toBe(false);
+    });
+
+    it("should return undefined for unsupported schemes", () => {
+      expect(CardUtils.detectScheme("6011111111111117")).toBeUndefined();
+      expect(CardUtils.detectScheme("3530111333300000")).toBeUndefined();
+      expect(CardUtils.detectScheme("not a card")).toBeUndefined();
+    });
+  });
+
+  describe("getCvcLength", () => {
+    it("should require 4 digits for amex only", () => {
+      expect(CardUtils.getCvcLength(CardScheme.AMEX)).toBe(4);
+      expect(CardUtils.getCvcLength(CardScheme.MADA)).toBe(3);
+      expect(CardUtils.getCvcLength(CardScheme.VISA)).toBe(3);
+      expect(CardUtils.getCvcLength()).toBe(3);
+    });
+  });
+
+  describe("isExpired", () => {
+    const now = new Date(2030, 5, 15);
+
+    it("should keep cards valid until the end of their expiry month", () => {
+      expect(CardUtils.isExpired(6, 2030, now)).toBe(false);
+      expect(CardUtils.isExpired(7, 2030, now)).toBe(false);
+      expect(CardUtils.isExpired(1, 2031, now)).toBe(false);
+    });
+
+    it("should reject past months and years", () => {
+      expect(CardUtils.isExpired(5, 2030, now)).toBe(true);
+      expect(CardUtils.isExpired(12, 2029, now)).toBe(true);
+    });
+  });
+
+  describe("validate", () => {
+    const now = new Date(2030, 5, 15);
+
+    it("should accept a valid card", () => {
+      expect(
+        CardUtils.validate(
+          { number: "4201320111111010", month: 6, year: 2030, cvc: "123" },
+          now
+        )
+      ).toEqual([]);
+    });
+
+    it("should report every failed check", () => {
+      expect(
+        CardUtils.validate(
+          { number: "4111111111111112", month: 12, year: 2029, cvc: "12" },
+          now
+        )
+      ).toEqual([
+        { field: "number", message: "Card number is invalid" },
+        { field: "cvc", message: "CVC must be 3 digits for visa" },
+        { field: "year", message: "Card has expired" },
+      ]);
+    });
+
+    it("should enforce the CVC length of the detected scheme", () => {
+      expect(
+        CardUtils.validate(
+          { number: "378282246310005", month: 1, year: 2031, cvc: "123" },
+          now
+        )
+      ).toEqual([{ field: "cvc", message: "CVC must be 4 digits for amex" }]);
+    });
+
+    it("should enforce the number length of the detected scheme", () => {
+      expect(
+        CardUtils.validate(
+          { number: "37828224631003", month: 1, year: 2031 },
+          now
+        )
+      ).toEqual([
+        { field: "number", message: "Card number must be 15 digits for amex" },
+      ]);
+    });
+
+    it("should reject unsupported schemes", () => {
+      expect(
+        CardUtils.validate(
+          { number: "6011111111111117", month: 1, year: 2031 },
+          now
+        )
+      ).toEqual([
+        {
+          field: "number",
+          message:
+            "Card scheme is not supported, expected mada, visa, master or amex",
+        },
+      ]);
+    });
+
+    it("should report a past month of the current year on the month", () => {
+      expect(
+        CardUtils.validate(
+          { number: "4111111111111111", month: 5, year: 2030 },
+          now
+        )
+      ).toEqual([{ field: "month", message: "Card has expired" }]);
+    });
+  });
+});
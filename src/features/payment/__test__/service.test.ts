@@ -1 +1,420 @@
-// TODO: Implement tests for the payment service
+import {
+  PaymentError,
+  PaymentService,
+  PaymentSource,
+  PaymentStatus,
+  StcPayInvalidOtpError,
+  StcPayOtpAlreadySubmittedError,
+  StcPayOtpExpiredError,
+  type Payment,
+  type PaymentWebhookSource,
+} from "@payment";
+import { API_ENDPOINTS } from "@constants";
+import { MoyasarError } from "@errors";
+import type { ApiClient, Metadata } from "@types";
+import { describe, expect, beforeEach, mock, it } from "bun:test";
+
+const createMockPayment = (overrides: Record<string, unknown> = {}) => ({
+  id: "pay_123",
+  status: PaymentStatus.INITIATED,
+  amount: 5000,
+  fee: 100,
+  currency: "SAR",
+  refunded: 0,
+  refunded_at: null,
+  captured: 0,
+  captured_at: null,
+  voided_at: null,
+  description: "Test payment",
+  amount_format: "50.00 SAR",
+  fee_format: "1.00 SAR",
+  refunded_format: "0.00 SAR",
+  captured_format: "0.00 SAR",
+  invoice_id: null,
+  ip: "127.0.0.1",
+  callback_url: "https://example.com/callback",
+  created_at: "2030-01-01T00:00:00.000Z",
+  updated_at: "2030-01-01T00:00:00.000Z",
+  metadata: {},
+  source: {
+    type: "creditcard",
+    company: "visa",
+    name: "Test User",
+    number: "4111-11XX-XXXX-1111",
+    gateway_id: "gateway_123",
+    message: null,
+    reference_number: null,
+    transaction_url: "https://example.com/3ds",
+  },
+  ...overrides,
+});
+
+const stcPaySource = {
+  type: PaymentSource.STCPAY,
+  mobile: "0501234567",
+  transaction_url:
+    "https://api.moyasar.com/v1/stc_pays/stc_123/proceed?otp_token=token_123",
+  message: "Pending OTP",
+};
+
+const createWebhookSource = () => {
+  const listeners = new Set<(payload: { data: Payment }) => void>();
+  const source: PaymentWebhookSource = {
+    onAnyPaymentEvent: listener => listeners.add(listener),
+    offAnyPaymentEvent: listener => listeners.delete(listener),
+  };
+  const emit = (data: Payment) => listeners.forEach(l => l({ data }));
+
+  return { source, listeners, emit };
+};
+
+describe("PaymentService", () => {
+  const mockApiClient: ApiClient<{ metadata: Metadata }> = {
+    request: mock().mockResolvedValue({}),
+    metadataValidator: {
+      parse: payload => payload,
+    },
+  };
+  let webhook = createWebhookSource();
+  let paymentService = new PaymentService({ apiClient: mockApiClient });
+
+  beforeEach(() => {
+    mockApiClient.request = mock().mockResolvedValue(createMockPayment());
+    webhook = createWebhookSource();
+    paymentService = new PaymentService({
+      apiClient: mockApiClient,
+      webhook: webhook.source,
+    });
+  });
+
+  describe("waitForFinal", () => {
+    const options = { interval: 1, maxInterval: 5, timeout: 1000 };
+
+    it("should poll until the payment reaches a final status", async () => {
+      (mockApiClient.request as any)
+        .mockResolvedValueOnce(createMockPayment())
+        .mockResolvedValueOnce(createMockPayment())
+        .mockResolvedValueOnce(
+          createMockPayment({ status: PaymentStatus.PAID })
+        );
+
+      const payment = await paymentService.waitForFinal("pay_123", options);
+
+      expect(payment.status).toBe(PaymentStatus.PAID);
+      expect(mockApiClient.request as any).toHaveBeenCalledTimes(3);
+      expect(webhook.listeners.size).toBe(0);
+    });
+
+    it("should settle on authorized payments", async () => {
+      (mockApiClient.request as any).mockResolvedValue(
+        createMockPayment({ status: PaymentStatus.AUTHORIZED })
+      );
+
+      const payment = await paymentService.waitForFinal("pay_123", options);
+
+      expect(payment.status).toBe(PaymentStatus.AUTHORIZED);
+    });
+
+    it("should resolve early when a webhook of the payment arrives", async () => {
+      const promise = paymentService.waitForFinal("pay_123", {
+        interval: 60000,
+      });
+      await Bun.sleep(1);
+
+      const other = { ...createMockPayment(), id: "pay_other" } as any;
+      webhook.emit({ ...other, status: PaymentStatus.PAID });
+      webhook.emit({
+        ...createMockPayment(),
+        status: PaymentStatus.FAILED,
+      } as any);
+
+      const payment = await promise;
+      expect(payment.status).toBe(PaymentStatus.FAILED);
+      expect(mockApiClient.request as any).toHaveBeenCalledTimes(1);
+      expect(webhook.listeners.size).toBe(0);
+    });
+
+    it("should keep polling through temporary errors", async () => {
+      (mockApiClient.request as any)
+        .mockRejectedValueOnce(
+          new MoyasarError("Service unavailable", "api_error", 503, {})
+        )
+        .mockResolvedValueOnce(
+          createMockPayment({ status: PaymentStatus.PAID })
+        );
+
+      const payment = await paymentService.waitForFinal("pay_123", options);
+
+      expect(payment.status).toBe(PaymentStatus.PAID);
+    });
+
+    it("should fail on other errors", async () => {
+      (mockApiClient.request as any).mockRejectedValue(
+        new MoyasarError("Not found", "invalid_request_error", 404, {})
+      );
+
+      const promise = paymentService.waitForFinal("pay_123", options);
+
+      await expect(promise).rejects.toMatchObject({ statusCode: 404 });
+    });
+
+    it("should reject with a PaymentError once the timeout elapses", async () => {
+      const promise = paymentService.waitForFinal("pay_123", {
+        interval: 5,
+        timeout: 20,
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(PaymentError);
+      await expect(promise).rejects.toMatchObject({
+        statusCode: 408,
+        details: { status: PaymentStatus.INITIATED },
+      });
+      expect(webhook.listeners.size).toBe(0);
+    });
+
+    it("should stop when the signal is aborted", async () => {
+      const controller = new AbortController();
+      const promise = paymentService.waitForFinal("pay_123", {
+        interval: 60000,
+        signal: controller.signal,
+      });
+      await Bun.sleep(1);
+
+      controller.abort(new Error("Customer left"));
+
+      await expect(promise).rejects.toThrow("Customer left");
+      expect(webhook.listeners.size).toBe(0);
+    });
+
+    it("should require a payment ID", async () => {
+      await expect(paymentService.waitForFinal("")).rejects.toThrow(
+        "Payment ID is required"
+      );
+    });
+  });
+
+  describe("verifyCallback", () => {
+    it("should trust the retrieved payment over the query string", async () => {
+      (mockApiClient.request as any).mockResolvedValue(
+        createMockPayment({
+          status: PaymentStatus.FAILED,
+          metadata: { order_id: "ORD-1" },
+        })
+      );
+
+      const result = await paymentService.verifyCallback(
+        "https://shop.example.com/callback?id=pay_123&status=paid&message=APPROVED",
+        { amount: 5000, currency: "SAR", metadata: { order_id: "ORD-1" } }
+      );
+
+      expect(mockApiClient.request as any).toHaveBeenCalledWith({
+        method: "GET",
+        url: `${API_ENDPOINTS.payments}/pay_123`,
+      });
+      expect(result.verified).toBe(false);
+      expect(result.params.status).toBe(PaymentStatus.PAID);
+      expect(result.payment.status).toBe(PaymentStatus.FAILED);
+      expect(result.mismatches).toEqual([
+        {
+          field: "status",
+          expected: [
+            PaymentStatus.PAID,
+            PaymentStatus.AUTHORIZED,
+            PaymentStatus.CAPTURED,
+          ],
+          actual: PaymentStatus.FAILED,
+        },
+      ]);
+    });
+
+    it("should verify a paid payment with the expected amount", async () => {
+      (mockApiClient.request as any).mockResolvedValue(
+        createMockPayment({ status: PaymentStatus.PAID })
+      );
+
+      const result = await paymentService.verifyCallback(
+        { id: "pay_123", status: "paid" },
+        { amount: 5000 }
+      );
+
+      expect(result.verified).toBe(true);
+    });
+
+    it("should reject callbacks without a payment ID", async () => {
+      await expect(
+        paymentService.verifyCallback("/callback?status=paid")
+      ).rejects.toThrow("Invalid callback: id:");
+      expect(mockApiClient.request as any).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("stcpay", () => {
+    const createStcPayPayment = (overrides: Record<string, unknown> = {}) =>
+      createMockPayment({ source: stcPaySource, ...overrides });
+
+    it("should initiate an STC Pay payment", async () => {
+      (mockApiClient.request as any).mockResolvedValue(createStcPayPayment());
+
+      const payment = await paymentService.stcpay.initiate({
+        amount: 5000,
+        currency: "SAR",
+        description: "Test payment",
+        callback_url: "https://example.com/callback",
+        source: { type: PaymentSource.STCPAY, mobile: "0501234567" },
+      });
+
+      expect(payment.source.transaction_url).toBe(stcPaySource.transaction_url);
+    });
+
+    it("should submit the OTP to the transaction URL", async () => {
+      (mockApiClient.request as any)
+        .mockResolvedValueOnce(createStcPayPayment())
+        .mockResolvedValueOnce(
+          createStcPayPayment({
+            status: PaymentStatus.PAID,
+            source: { ...stcPaySource, message: "Paid" },
+          })
+        );
+
+      const result = await paymentService.stcpay.submitOtp(
+        "pay_123",
+        " 123456 "
+      );
+
+      expect(mockApiClient.request as any).toHaveBeenLastCalledWith({
+        method: "POST",
+        url: stcPaySource.transaction_url,
+        data: { otp_value: "123456" },
+      });
+      expect(result.paid).toBe(true);
+      expect(result.message).toBe("Paid");
+      expect(result.payment.source.mobile).toBe("0501234567");
+    });
+
+    it("should map OTP errors of the API to typed errors", async () => {
+      (mockApiClient.request as any).mockResolvedValue(createStcPayPayment());
+      const initiated = await paymentService.retrieve("pay_123");
+
+      (mockApiClient.request as any).mockRejectedValueOnce(
+        new MoyasarError("Invalid OTP", "invalid_request_error", 400, {})
+      );
+      await expect(
+        paymentService.stcpay.submitOtp(initiated, "1234")
+      ).rejects.toBeInstanceOf(StcPayInvalidOtpError);
+
+      (mockApiClient.request as any).mockRejectedValueOnce(
+        new MoyasarError("OTP has expired", "invalid_request_error", 400, {})
+      );
+      await expect(
+        paymentService.stcpay.submitOtp(initiated, "1234")
+      ).rejects.toBeInstanceOf(StcPayOtpExpiredError);
+    });
+
+    it("should not submit an OTP twice", async () => {
+      (mockApiClient.request as any).mockResolvedValue(
+        createStcPayPayment({ status: PaymentStatus.PAID })
+      );
+      const paid = await paymentService.retrieve("pay_123");
+
+      await expect(
+        paymentService.stcpay.submitOtp(paid, "1234")
+      ).rejects.toBeInstanceOf(StcPayOtpAlreadySubmittedError);
+      expect(mockApiClient.request as any).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not send the OTP to another host", async () => {
+      (mockApiClient.request as any).mockResolvedValue(
+        createStcPayPayment({
+          source: {
+            ...stcPaySource,
+            transaction_url: "https://evil.example.com/proceed?otp_token=1",
+          },
+        })
+      );
+      const initiated = await paymentService.retrieve("pay_123");
+
+      await expect(
+        paymentService.stcpay.submitOtp(initiated, "1234")
+      ).rejects.toThrow("is not on https://api.moyasar.com");
+      expect(mockApiClient.request as any).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject malformed OTPs and card payments", async () => {
+      (mockApiClient.request as any).mockResolvedValue(createStcPayPayment());
+      const initiated = await paymentService.retrieve("pay_123");
+
+      await expect(
+        paymentService.stcpay.submitOtp(initiated, "12ab")
+      ).rejects.toBeInstanceOf(StcPayInvalidOtpError);
+
+      (mockApiClient.request as any).mockResolvedValue(createMockPayment());
+      const card = await paymentService.retrieve("pay_123");
+
+      await expect(
+        paymentService.stcpay.submitOtp(card, "1234")
+      ).rejects.toThrow("is not an STC Pay payment");
+    });
+  });
+
+  describe("applePay", () => {
+    const merchantSession = {
+      epochTimestamp: 1893456000000,
+      expiresAt: 1893459600000,
+      merchantSessionIdentifier: "SSH_123",
+      nonce: "nonce_123",
+      merchantIdentifier: "merchant_123",
+      domainName: "shop.example.com",
+      displayName: "My Store",
+      signature: "signature_123",
+      operationalAnalyticsIdentifier: "My Store:merchant_123",
+      retries: 0,
+    };
+    const request = {
+      validationUrl:
+        "https://apple-pay-gateway.apple.com/paymentservices/startSession",
+      displayName: "My Store",
+      domain: "shop.example.com",
+    };
+
+    it("should proxy the merchant validation and keep the session as is", async () => {
+      (mockApiClient.request as any).mockResolvedValue(merchantSession);
+
+      const session = await paymentService.applePay.initiateSession(request);
+
+      expect(session).toEqual(merchantSession);
+      expect(mockApiClient.request as any).toHaveBeenCalledWith({
+        method: "POST",
+        url: API_ENDPOINTS.applePaySessions,
+        data: {
+          validation_url: request.validationUrl,
+          display_name: "My Store",
+          domain_name: "shop.example.com",
+        },
+      });
+    });
+
+    it("should only accept Apple validation URLs", async () => {
+      await expect(
+        paymentService.applePay.initiateSession({
+          ...request,
+          validationUrl: "https://attacker.example.com/apple.com",
+        })
+      ).rejects.toThrow("validationUrl: validationUrl must be an Apple Pay");
+      await expect(
+        paymentService.applePay.initiateSession({
+          ...request,
+          domain: "https://shop.example.com",
+        })
+      ).rejects.toThrow("domain: domain must be a domain name");
+      expect(mockApiClient.request as any).not.toHaveBeenCalled();
+    });
+
+    it("should reject malformed sessions", async () => {
+      (mockApiClient.request as any).mockResolvedValue({ nonce: "nonce_123" });
+
+      await expect(
+        paymentService.applePay.initiateSession(request)
+      ).rejects.toThrow("Failed to initiate Apple Pay session");
+    });
+  });
+});
@@ -3,7 +3,13 @@ import {
   PaymentSource,
   CardScheme,
   PaymentUtils,
+  StcPayInvalidOtpError,
+  StcPayOtpAlreadySubmittedError,
+  StcPayOtpExpiredError,
   PaymentValidation,
+  DeclineCategory,
+  DECLINE_CODES,
+  DECLINE_REASONS,
   type CreatePaymentRequest,
   type UpdatePaymentRequest,
   type RefundPaymentRequest,
@@ -12,6 +18,7 @@ import {
   type CreateCreditCardPaymentSource,
   type CreateApplePayPaymentSource,
 } from "@payment";
+import { MoyasarError } from "@errors";
 
 // Helper function to create mock payment objects
 const createMockPayment = (overrides: Partial<Payment> = {}): Payment => ({
@@ -122,6 +129,68 @@ describe("PaymentUtils", () => {
         true
       );
     });
+
+    const withCard = (
+      card: Partial<CreateCreditCardPaymentSource>
+    ): CreatePaymentRequest => ({
+      ...validCreateRequest,
+      source: {
+        ...(validCreateRequest.source as CreateCreditCardPaymentSource),
+        ...card,
+      },
+    });
+
+    it("should reject card numbers failing the Luhn check", () => {
+      const result = paymentUtils.validateCreatePaymentRequest(
+        withCard({ number: "4111111111111112" })
+      );
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual(["source.number: Card number is invalid"]);
+    });
+
+    it("should enforce the CVC length of the card scheme", () => {
+      const amex = paymentUtils.validateCreatePaymentRequest(
+        withCard({ number: "378282246310005", cvc: "123" })
+      );
+      expect(amex.errors).toEqual([
+        "source.cvc: CVC must be 4 digits for amex",
+      ]);
+
+      const mada = paymentUtils.validateCreatePaymentRequest(
+        withCard({ number: "4201320111111010", cvc: "1234" })
+      );
+      expect(mada.errors).toEqual([
+        "source.cvc: CVC must be 3 digits for mada",
+      ]);
+    });
+
+    it("should reject expired cards", () => {
+      const now = new Date();
+      const result = paymentUtils.validateCreatePaymentRequest(
+        withCard({ month: 12, year: now.getFullYear() - 1 })
+      );
+      expect(result.errors).toEqual(["source.year: Card has expired"]);
+    });
+
+    it("should not repeat format errors", () => {
+      const result = paymentUtils.validateCreatePaymentRequest(
+        withCard({ number: "4111" })
+      );
+      expect(result.errors).toEqual([
+        "source.number: Card number must be 13-19 digits",
+      ]);
+    });
+  });
+
+  describe("detectCardScheme", () => {
+    it("should detect co-branded mada cards as mada", () => {
+      expect(paymentUtils.detectCardScheme("4201320111111010")).toBe(
+        CardScheme.MADA
+      );
+      expect(paymentUtils.detectCardScheme("4111111111111111")).toBe(
+        CardScheme.VISA
+      );
+    });
   });
 
   describe("validateUpdatePaymentRequest", () => {
@@ -228,7 +297,20 @@ describe("PaymentUtils", () => {
 
     it("should format KWD amount correctly", () => {
       const result = paymentUtils.formatAmount(1000, "KWD");
-      expect(result).toBe("1.00 KWD");
+      expect(result).toBe("1.000 KWD");
+    });
+
+    it("should format other three-decimal currencies correctly", () => {
+      expect(paymentUtils.formatAmount(1050, "BHD")).toBe("1.050 BHD");
+      expect(paymentUtils.formatAmount(1250, "JOD")).toBe("1.250 JOD");
+    });
+
+    it("should format amount for a locale", () => {
+      const formatted = paymentUtils.formatAmount(105050, "SAR", {
+        locale: "ar-SA",
+      });
+      expect(formatted).toContain("١٬٠٥٠٫٥٠");
+      expect(formatted).toContain("\uFDFC");
     });
 
     it("should format JPY amount correctly (no decimals)", () => {
@@ -619,4 +701,257 @@ describe("PaymentUtils", () => {
       expect(result.error).toBeDefined();
     });
   });
+
+  describe("validateCallbackParams", () => {
+    test("should read the query string of a callback URL", () => {
+      const result = paymentUtils.validateCallbackParams(
+        "https://shop.example.com/callback?id=pay_123&status=paid&message=APPROVED#top"
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.data).toEqual({
+        id: "pay_123",
+        status: PaymentStatus.PAID,
+        message: "APPROVED",
+      });
+    });
+
+    test("should accept URL, URLSearchParams and query objects", () => {
+      const url = new URL(
+        "https://shop.example.com/callback?id=pay_1&status=failed"
+      );
+
+      expect(paymentUtils.validateCallbackParams(url).data?.id).toBe("pay_1");
+      expect(
+        paymentUtils.validateCallbackParams(url.searchParams).data?.message
+      ).toBeNull();
+      expect(
+        paymentUtils.validateCallbackParams({
+          id: ["pay_2", "pay_3"],
+          status: "initiated",
+          message: undefined,
+        }).data?.id
+      ).toBe("pay_2");
+      expect(
+        paymentUtils.validateCallbackParams("?id=pay_4&status=paid").data?.id
+      ).toBe("pay_4");
+    });
+
+    test("should reject a missing id or unknown status", () => {
+      const result = paymentUtils.validateCallbackParams(
+        "/callback?status=hacked"
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toHaveLength(2);
+    });
+  });
+
+  describe("getCallbackMismatches", () => {
+    test("should accept a payment matching every expectation", () => {
+      const payment = createMockPayment({ metadata: { order_id: "ORD-1" } });
+
+      expect(
+        paymentUtils.getCallbackMismatches(payment, {
+          amount: 5000,
+          currency: "SAR",
+          metadata: { order_id: "ORD-1" },
+        })
+      ).toEqual([]);
+    });
+
+    test("should report each mismatching field", () => {
+      const payment = createMockPayment({
+        status: PaymentStatus.FAILED,
+        metadata: { order_id: "ORD-2" },
+      });
+
+      const mismatches = paymentUtils.getCallbackMismatches(payment, {
+        amount: 100,
+        currency: "USD",
+        metadata: { order_id: "ORD-1" },
+      });
+
+      expect(mismatches.map(m => m.field)).toEqual([
+        "status",
+        "amount",
+        "currency",
+        "metadata.order_id",
+      ]);
+      expect(mismatches[3]).toEqual({
+        field: "metadata.order_id",
+        expected: "ORD-1",
+        actual: "ORD-2",
+      });
+    });
+
+    test("should use the accepted statuses when given", () => {
+      const payment = createMockPayment({ status: PaymentStatus.AUTHORIZED });
+
+      expect(
+        paymentUtils.getCallbackMismatches(payment, {
+          status: PaymentStatus.PAID,
+        })
+      ).toHaveLength(1);
+    });
+  });
+
+  describe("toStcPayOtpError", () => {
+    const apiError = (message: string, statusCode: number = 400) =>
+      new MoyasarError(message, "invalid_request_error", statusCode, {});
+
+    test("should map OTP failures to typed errors", () => {
+      expect(
+        paymentUtils.toStcPayOtpError(apiError("Invalid OTP"))
+      ).toBeInstanceOf(StcPayInvalidOtpError);
+      expect(
+        paymentUtils.toStcPayOtpError(apiError("OTP timed out"))
+      ).toBeInstanceOf(StcPayOtpExpiredError);
+      expect(
+        paymentUtils.toStcPayOtpError(apiError("OTP was already used"))
+      ).toBeInstanceOf(StcPayOtpAlreadySubmittedError);
+      expect(
+        paymentUtils.toStcPayOtpError(apiError("Conflict", 409))
+      ).toBeInstanceOf(StcPayOtpAlreadySubmittedError);
+    });
+
+    test("should ignore errors unrelated to the OTP", () => {
+      expect(
+        paymentUtils.toStcPayOtpError(apiError("Server error", 500))
+      ).toBeNull();
+      expect(
+        paymentUtils.toStcPayOtpError(apiError("Invalid API key", 401))
+      ).toBeNull();
+      expect(
+        paymentUtils.toStcPayOtpError(new Error("Invalid OTP"))
+      ).toBeNull();
+    });
+  });
+
+  describe("isStcPayPayment", () => {
+    test("should check the payment source", () => {
+      expect(paymentUtils.isStcPayPayment(createMockPayment())).toBe(false);
+      expect(
+        paymentUtils.isStcPayPayment(
+          createMockPayment({
+            source: {
+              type: PaymentSource.STCPAY,
+              mobile: "0501234567",
+              transaction_url: null,
+              message: "Paid",
+            },
+          })
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe("explainFailure", () => {
+    const failedCardPayment = (
+      response_code: string | undefined,
+      message: string | null = null
+    ) =>
+      createMockPayment({
+        status: PaymentStatus.FAILED,
+        source: {
+          type: PaymentSource.CREDITCARD,
+          company: CardScheme.MADA,
+          name: "Test User",
+          number: "4201-32XX-XXXX-1010",
+          gateway_id: "gateway_123",
+          message,
+          reference_number: null,
+          transaction_url: null,
+          response_code,
+        },
+      });
+
+    test("should categorize card and mada response codes", () => {
+      expect(
+        paymentUtils.explainFailure(
+          failedCardPayment("51", "INSUFFICIENT FUNDS")
+        )
+      ).toEqual({
+        ...DECLINE_REASONS[DeclineCategory.INSUFFICIENT_FUNDS],
+        code: "51",
+        gatewayMessage: "INSUFFICIENT FUNDS",
+      });
+      expect(
+        paymentUtils.explainFailure(failedCardPayment("116"))?.category
+      ).toBe(DeclineCategory.INSUFFICIENT_FUNDS);
+      expect(
+        paymentUtils.explainFailure(failedCardPayment("05"))
+      ).toMatchObject({
+        category: DeclineCategory.DO_NOT_HONOR,
+        retryable: false,
+      });
+      expect(
+        paymentUtils.explainFailure(failedCardPayment("n7"))
+      ).toMatchObject({
+        category: DeclineCategory.INCORRECT_CVC,
+        retryable: true,
+      });
+    });
+
+    test("should fall back to the gateway message without a known code", () => {
+      expect(
+        paymentUtils.explainFailure(
+          failedCardPayment(undefined, "3-D Secure transaction attempt failed")
+        )
+      ).toMatchObject({
+        category: DeclineCategory.AUTHENTICATION_FAILED,
+        retryable: true,
+        code: null,
+      });
+      expect(
+        paymentUtils.explainFailure(failedCardPayment("XY", "Card expired"))
+          ?.category
+      ).toBe(DeclineCategory.EXPIRED_CARD);
+    });
+
+    test("should explain STC Pay failures from the message", () => {
+      const explanation = paymentUtils.explainFailure(
+        createMockPayment({
+          status: PaymentStatus.FAILED,
+          source: {
+            type: PaymentSource.STCPAY,
+            mobile: "0501234567",
+            transaction_url: null,
+            message: "Payment was canceled by the user",
+          },
+        })
+      );
+
+      expect(explanation).toMatchObject({
+        category: DeclineCategory.CANCELED,
+        code: null,
+        gatewayMessage: "Payment was canceled by the user",
+      });
+    });
+
+    test("should return UNKNOWN for unrecognized failures", () => {
+      expect(
+        paymentUtils.explainFailure(failedCardPayment("ZZ", "Failure"))
+      ).toMatchObject({
+        ...DECLINE_REASONS[DeclineCategory.UNKNOWN],
+        code: "ZZ",
+      });
+    });
+
+    test("should return null unless the payment failed", () => {
+      expect(paymentUtils.explainFailure(createMockPayment())).toBeNull();
+      expect(
+        paymentUtils.explainFailure(
+          createMockPayment({ status: PaymentStatus.INITIATED })
+        )
+      ).toBeNull();
+    });
+
+    test("should have a message in both languages for every code", () => {
+      for (const category of Object.values(DECLINE_CODES)) {
+        expect(DECLINE_REASONS[category].messages.en).not.toBe("");
+        expect(DECLINE_REASONS[category].messages.ar).not.toBe("");
+      }
+    });
+  });
 });
@@ -0,0 +1,145 @@
+import { CardScheme } from "./enums";
+import { MADA_BINS, PaymentValidation } from "./constants";
+import type { CardDetails, CardValidationIssue } from "./types";
+
+/**
+ * Valid card number lengths of every scheme
+ */
+const CARD_NUMBER_LENGTHS: Record<CardScheme, readonly number[]> = {
+  [CardScheme.MADA]: [16],
+  [CardScheme.VISA]: [13, 16, 19],
+  [CardScheme.MASTER]: [16],
+  [CardScheme.AMEX]: [15],
+};
+
+const DIGIT_COUNTS = new Intl.ListFormat("en", { type: "disjunction" });
+
+/**
+ * Card number checks done before a card reaches the API: Luhn checksum, scheme detection, CVC length and expiry
+ *
+ * @example
+ * ```ts
+ * CardUtils.detectScheme("4201320111111010"); // "mada", co-branded with Visa
+ * CardUtils.validate({ number: "4111111111111112", month: 1, year: 2020, cvc: "12" });
+ * // number: Card number is invalid, cvc: CVC must be 3 digits for visa, year: Card has expired
+ * ```
+ */
+export class CardUtils {
+  /**
+   * Check the Luhn checksum of a card number
+   */
+  static isLuhnValid(number: string): boolean {
+    if (!/^\d+$/.test(number)) return false;
+
+    let sum = 0;
+    for (let i = 0; i < number.length; i++) {
+      let digit = Number(number[number.length - 1 - i]);
+      // Double every second digit from the right
+      if (i % 2 === 1) {
+        digit *= 2;
+        if (digit > 9) digit -= 9;
+      }
+      sum += digit;
+    }
+
+    return sum % 10 === 0;
+  }
+
+  /**
+   * Check whether the card belongs to the mada network, including cards co-branded with Visa or Mastercard
+   */
+  static isMada(number: string): boolean {
+    return MADA_BINS.some(bin => number.startsWith(bin));
+  }
+
+  /**
+   * Detect the scheme of a card number from its BIN, `undefined` for schemes Moyasar doesn't support.
+   *
+   * Co-branded mada cards are detected as `mada`, the scheme Moyasar reports for them.
+   */
+  static detectScheme(number: string): CardScheme | undefined {
+    if (!/^\d+$/.test(number)) return undefined;
+    if (CardUtils.isMada(number)) return CardScheme.MADA;
+    if (/^3[47]/.test(number)) return CardScheme.AMEX;
+    if (number.startsWith("4")) return CardScheme.VISA;
+
+    const prefix = Number(number.slice(0, 4));
+    if (
+      (prefix >= 5100 && prefix <= 5599) ||
+      (prefix >= 2221 && prefix <= 2720)
+    ) {
+      return CardScheme.MASTER;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Number of CVC digits of a scheme, 4 for amex and 3 for every other scheme
+   */
+  static getCvcLength(scheme?: CardScheme): number {
+    return scheme === CardScheme.AMEX
+      ? PaymentValidation.AMEX_CVV_LENGTH
+      : PaymentValidation.CVV_LENGTH;
+  }
+
+  /**
+   * Check whether a card expired, cards are valid until the end of their expiry month
+   */
+  static isExpired(
+    month: number,
+    year: number,
+    now: Date = new Date()
+  ): boolean {
+    const currentYear = now.getFullYear();
+    if (year !== currentYear) return year < currentYear;
+    return month < now.getMonth() + 1;
+  }
+
+  /**
+   * Run every card check, an empty list means the card looks valid
+   */
+  static validate(
+    card: CardDetails,
+    now: Date = new Date()
+  ): CardValidationIssue[] {
+    const issues: CardValidationIssue[] = [];
+    const scheme = CardUtils.detectScheme(card.number);
+
+    if (!CardUtils.isLuhnValid(card.number)) {
+      issues.push({ field: "number", message: "Card number is invalid" });
+    } else if (!scheme) {
+      issues.push({
+        field: "number",
+        message:
+          "Card scheme is not supported, expected mada, visa, master or amex",
+      });
+    } else if (!CARD_NUMBER_LENGTHS[scheme].includes(card.number.length)) {
+      issues.push({
+        field: "number",
+        message: `Card number must be ${DIGIT_COUNTS.format(
+          CARD_NUMBER_LENGTHS[scheme].map(String)
+        )} digits for ${scheme}`,
+      });
+    }
+
+    if (card.cvc !== undefined && scheme) {
+      const length = CardUtils.getCvcLength(scheme);
+      if (card.cvc.length !== length) {
+        issues.push({
+          field: "cvc",
+          message: `CVC must be ${length} digits for ${scheme}`,
+        });
+      }
+    }
+
+    if (CardUtils.isExpired(card.month, card.year, now)) {
+      issues.push({
+        field: card.year < now.getFullYear() ? "year" : "month",
+        message: "Card has expired",
+      });
+    }
+
+    return issues;
+  }
+}
@@ -8,7 +8,7 @@ export const PaymentLimits = {
 export const PaymentValidation = {
   DESCRIPTION_MAX_LENGTH: 255,
   STATEMENT_DESCRIPTOR_MAX_LENGTH: 255,
-  CARD_NUMBER_MIN_LENGTH: 16,
+  CARD_NUMBER_MIN_LENGTH: 13,
   CARD_NUMBER_MAX_LENGTH: 19,
   CVV_LENGTH: 3,
   AMEX_CVV_LENGTH: 4,
@@ -16,4 +16,134 @@ export const PaymentValidation = {
   RRN_REGEX: /^\d{12}$/,
   AUTH_CODE_REGEX: /^\d{6}$/,
   CARD_LAST_DIGITS_REGEX: /^\d{4}$/,
+  STCPAY_OTP_REGEX: /^\d{4,10}$/,
+  APPLE_PAY_DISPLAY_NAME_MAX_LENGTH: 64,
+  APPLE_PAY_VALIDATION_HOST_REGEX: /(^|\.)apple\.com$/,
+  DOMAIN_NAME_REGEX:
+    /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/i,
 } as const;
+
+export const PaymentPolling = {
+  DEFAULT_TIMEOUT: 300000, // Give up waiting for a final status after 5 minutes
+  DEFAULT_INTERVAL: 1000, // First delay between two polls
+  MAX_INTERVAL: 15000, // Upper bound of the delay between two polls
+  BACKOFF_FACTOR: 1.5, // Growth of the delay after every poll
+} as const;
+
+/**
+ * Issuer identification numbers of mada, the Saudi debit network.
+ *
+ * Most mada cards are co-branded with Visa (`4…`) or Mastercard (`5…`) and must be matched before those networks
+ * @see https://mada.com.sa
+ */
+export const MADA_BINS: readonly string[] = Object.freeze([
+  // mada / Visa
+  "400861",
+  "401757",
+  "406136",
+  "407197",
+  "407395",
+  "409201",
+  "410621",
+  "410685",
+  "417633",
+  "419593",
+  "420132",
+  "421141",
+  "422817",
+  "422818",
+  "422819",
+  "42689700",
+  "428331",
+  "428671",
+  "428672",
+  "428673",
+  "431361",
+  "432328",
+  "434107",
+  "439954",
+  "440533",
+  "440647",
+  "440795",
+  "445564",
+  "446393",
+  "446404",
+  "446672",
+  "455036",
+  "455708",
+  "457865",
+  "457997",
+  "458456",
+  "462220",
+  "468540",
+  "468541",
+  "468542",
+  "468543",
+  "474491",
+  "483010",
+  "483011",
+  "483012",
+  "484783",
+  "486094",
+  "486095",
+  "486096",
+  "489317",
+  "489318",
+  "489319",
+  "493428",
+  // mada / Mastercard
+  "504300",
+  "506968",
+  "508160",
+  "513213",
+  "520058",
+  "521076",
+  "524130",
+  "524514",
+  "529415",
+  "529741",
+  "530060",
+  "530906",
+  "531095",
+  "531196",
+  "532013",
+  "535825",
+  "535989",
+  "536023",
+  "537767",
+  "539931",
+  "543085",
+  "543357",
+  "549760",
+  "554180",
+  "557606",
+  "558563",
+  "558848",
+  "585265",
+  "588845",
+  "588846",
+  "588847",
+  "588848",
+  "588849",
+  "588850",
+  "588851",
+  "588982",
+  "588983",
+  "589005",
+  "589206",
+  // mada only
+  "604906",
+  "605141",
+  "636120",
+  "968201",
+  "968202",
+  "968203",
+  "968204",
+  "968205",
+  "968206",
+  "968207",
+  "968208",
+  "968209",
+  "968210",
+  "968211",
+]);
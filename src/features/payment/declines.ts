@@ -0,0 +1,243 @@
+import { DeclineCategory } from "./enums";
+import type { DeclineReason } from "./types";
+
+const BANK_DECLINED = {
+  en: "Your bank declined the payment. Please contact your bank or use another card.",
+  ar: "رفض البنك عملية الدفع. يرجى التواصل مع البنك أو استخدام بطاقة أخرى.",
+};
+
+/**
+ * Retry advice and payer-facing messages of every decline category
+ */
+export const DECLINE_REASONS: Readonly<Record<DeclineCategory, DeclineReason>> =
+  Object.freeze({
+    [DeclineCategory.INSUFFICIENT_FUNDS]: {
+      category: DeclineCategory.INSUFFICIENT_FUNDS,
+      retryable: false,
+      messages: {
+        en: "Your card has insufficient funds. Please use another card or contact your bank.",
+        ar: "لا يوجد رصيد كافٍ في بطاقتك. يرجى استخدام بطاقة أخرى أو التواصل مع البنك.",
+      },
+    },
+    [DeclineCategory.DO_NOT_HONOR]: {
+      category: DeclineCategory.DO_NOT_HONOR,
+      retryable: false,
+      messages: BANK_DECLINED,
+    },
+    [DeclineCategory.AUTHENTICATION_FAILED]: {
+      category: DeclineCategory.AUTHENTICATION_FAILED,
+      retryable: true,
+      messages: {
+        en: "We couldn't verify the payment with your bank. Please try again.",
+        ar: "تعذر التحقق من عملية الدفع مع البنك. يرجى المحاولة مرة أخرى.",
+      },
+    },
+    [DeclineCategory.EXPIRED_CARD]: {
+      category: DeclineCategory.EXPIRED_CARD,
+      retryable: false,
+      messages: {
+        en: "Your card has expired. Please use another card.",
+        ar: "انتهت صلاحية بطاقتك. يرجى استخدام بطاقة أخرى.",
+      },
+    },
+    [DeclineCategory.INVALID_CARD]: {
+      category: DeclineCategory.INVALID_CARD,
+      retryable: true,
+      messages: {
+        en: "The card details are incorrect. Please check them and try again.",
+        ar: "بيانات البطاقة غير صحيحة. يرجى التحقق منها والمحاولة مرة أخرى.",
+      },
+    },
+    [DeclineCategory.INCORRECT_CVC]: {
+      category: DeclineCategory.INCORRECT_CVC,
+      retryable: true,
+      messages: {
+        en: "The security code (CVV) is incorrect. Please check it and try again.",
+        ar: "رمز الأمان (CVV) غير صحيح. يرجى التحقق منه والمحاولة مرة أخرى.",
+      },
+    },
+    // Don't tell the payer the card is flagged
+    [DeclineCategory.LOST_OR_STOLEN]: {
+      category: DeclineCategory.LOST_OR_STOLEN,
+      retryable: false,
+      messages: BANK_DECLINED,
+    },
+    [DeclineCategory.FRAUD_SUSPECTED]: {
+      category: DeclineCategory.FRAUD_SUSPECTED,
+      retryable: false,
+      messages: BANK_DECLINED,
+    },
+    [DeclineCategory.RESTRICTED_CARD]: {
+      category: DeclineCategory.RESTRICTED_CARD,
+      retryable: false,
+      messages: {
+        en: "Your card can't be used for this payment. Please use another card or contact your bank.",
+        ar: "لا يمكن استخدام بطاقتك لهذه العملية. يرجى استخدام بطاقة أخرى أو التواصل مع البنك.",
+      },
+    },
+    [DeclineCategory.LIMIT_EXCEEDED]: {
+      category: DeclineCategory.LIMIT_EXCEEDED,
+      retryable: false,
+      messages: {
+        en: "This payment exceeds the limit of your card. Please use another card or contact your bank.",
+        ar: "تتجاوز عملية الدفع الحد المسموح لبطاقتك. يرجى استخدام بطاقة أخرى أو التواصل مع البنك.",
+      },
+    },
+    [DeclineCategory.INVALID_AMOUNT]: {
+      category: DeclineCategory.INVALID_AMOUNT,
+      retryable: false,
+      messages: {
+        en: "Your bank declined the payment amount. Please contact your bank or use another card.",
+        ar: "رفض البنك مبلغ عملية الدفع. يرجى التواصل مع البنك أو استخدام بطاقة أخرى.",
+      },
+    },
+    [DeclineCategory.ISSUER_UNAVAILABLE]: {
+      category: DeclineCategory.ISSUER_UNAVAILABLE,
+      retryable: true,
+      messages: {
+        en: "Your bank is not responding right now. Please try again in a few minutes.",
+        ar: "البنك لا يستجيب حالياً. يرجى المحاولة مرة أخرى بعد بضع دقائق.",
+      },
+    },
+    [DeclineCategory.PROCESSING_ERROR]: {
+      category: DeclineCategory.PROCESSING_ERROR,
+      retryable: true,
+      messages: {
+        en: "Something went wrong while processing the payment. Please try again.",
+        ar: "حدث خطأ أثناء معالجة عملية الدفع. يرجى المحاولة مرة أخرى.",
+      },
+    },
+    [DeclineCategory.MERCHANT_ERROR]: {
+      category: DeclineCategory.MERCHANT_ERROR,
+      retryable: false,
+      messages: {
+        en: "This payment can't be processed right now. Please contact us.",
+        ar: "لا يمكن معالجة عملية الدفع حالياً. يرجى التواصل معنا.",
+      },
+    },
+    [DeclineCategory.CANCELED]: {
+      category: DeclineCategory.CANCELED,
+      retryable: true,
+      messages: {
+        en: "The payment was canceled.",
+        ar: "تم إلغاء عملية الدفع.",
+      },
+    },
+    [DeclineCategory.UNKNOWN]: {
+      category: DeclineCategory.UNKNOWN,
+      retryable: true,
+      messages: {
+        en: "The payment failed. Please try again or use another card.",
+        ar: "فشلت عملية الدفع. يرجى المحاولة مرة أخرى أو استخدام بطاقة أخرى.",
+      },
+    },
+  });
+
+/**
+ * `source.response_code` of card and wallet payments, wallets return the code of the underlying card.
+ *
+ * Visa, Mastercard and Amex return 2 character ISO 8583 codes, mada returns 3 digit codes.
+ */
+export const DECLINE_CODES: Readonly<Record<string, DeclineCategory>> =
+  Object.freeze({
+    // Visa, Mastercard and Amex
+    "01": DeclineCategory.DO_NOT_HONOR, // Refer to card issuer
+    "02": DeclineCategory.DO_NOT_HONOR, // Refer to card issuer, special condition
+    "03": DeclineCategory.MERCHANT_ERROR, // Invalid merchant
+    "04": DeclineCategory.LOST_OR_STOLEN, // Pick up card
+    "05": DeclineCategory.DO_NOT_HONOR,
+    "06": DeclineCategory.PROCESSING_ERROR,
+    "07": DeclineCategory.LOST_OR_STOLEN, // Pick up card, special condition
+    "12": DeclineCategory.RESTRICTED_CARD, // Invalid transaction
+    "13": DeclineCategory.INVALID_AMOUNT,
+    "14": DeclineCategory.INVALID_CARD, // Invalid card number
+    "15": DeclineCategory.INVALID_CARD, // No such issuer
+    "19": DeclineCategory.PROCESSING_ERROR, // Re-enter transaction
+    "1A": DeclineCategory.AUTHENTICATION_FAILED, // Strong customer authentication required
+    "30": DeclineCategory.PROCESSING_ERROR, // Format error
+    "33": DeclineCategory.EXPIRED_CARD,
+    "34": DeclineCategory.FRAUD_SUSPECTED,
+    "41": DeclineCategory.LOST_OR_STOLEN, // Lost card
+    "43": DeclineCategory.LOST_OR_STOLEN, // Stolen card
+    "51": DeclineCategory.INSUFFICIENT_FUNDS,
+    "54": DeclineCategory.EXPIRED_CARD,
+    "55": DeclineCategory.AUTHENTICATION_FAILED, // Incorrect PIN
+    "57": DeclineCategory.RESTRICTED_CARD, // Not permitted to cardholder
+    "58": DeclineCategory.MERCHANT_ERROR, // Not permitted to terminal
+    "59": DeclineCategory.FRAUD_SUSPECTED,
+    "61": DeclineCategory.LIMIT_EXCEEDED, // Exceeds amount limit
+    "62": DeclineCategory.RESTRICTED_CARD,
+    "63": DeclineCategory.FRAUD_SUSPECTED, // Security violation
+    "65": DeclineCategory.LIMIT_EXCEEDED, // Exceeds frequency limit
+    "75": DeclineCategory.AUTHENTICATION_FAILED, // PIN tries exceeded
+    "78": DeclineCategory.RESTRICTED_CARD, // Card blocked or not activated
+    "82": DeclineCategory.INCORRECT_CVC,
+    "91": DeclineCategory.ISSUER_UNAVAILABLE,
+    "92": DeclineCategory.ISSUER_UNAVAILABLE, // Issuer not found for routing
+    "93": DeclineCategory.RESTRICTED_CARD, // Violation of law
+    "94": DeclineCategory.PROCESSING_ERROR, // Duplicate transaction
+    "96": DeclineCategory.PROCESSING_ERROR, // System malfunction
+    N7: DeclineCategory.INCORRECT_CVC,
+    R0: DeclineCategory.RESTRICTED_CARD, // Stop payment order
+    R1: DeclineCategory.RESTRICTED_CARD, // Revocation of authorization
+    // mada
+    "100": DeclineCategory.DO_NOT_HONOR,
+    "101": DeclineCategory.EXPIRED_CARD,
+    "102": DeclineCategory.FRAUD_SUSPECTED,
+    "103": DeclineCategory.MERCHANT_ERROR, // Card acceptor contact acquirer
+    "104": DeclineCategory.RESTRICTED_CARD,
+    "106": DeclineCategory.AUTHENTICATION_FAILED, // PIN tries exceeded
+    "107": DeclineCategory.DO_NOT_HONOR, // Refer to card issuer
+    "109": DeclineCategory.MERCHANT_ERROR, // Invalid merchant
+    "110": DeclineCategory.INVALID_AMOUNT,
+    "111": DeclineCategory.INVALID_CARD, // Invalid card number
+    "116": DeclineCategory.INSUFFICIENT_FUNDS,
+    "117": DeclineCategory.AUTHENTICATION_FAILED, // Incorrect PIN
+    "118": DeclineCategory.INVALID_CARD, // No card record
+    "119": DeclineCategory.RESTRICTED_CARD, // Not permitted to cardholder
+    "120": DeclineCategory.MERCHANT_ERROR, // Not permitted to terminal
+    "121": DeclineCategory.LIMIT_EXCEEDED, // Exceeds withdrawal amount limit
+    "123": DeclineCategory.LIMIT_EXCEEDED, // Exceeds withdrawal frequency limit
+    "125": DeclineCategory.RESTRICTED_CARD, // Card not effective
+    "129": DeclineCategory.FRAUD_SUSPECTED, // Suspected counterfeit card
+    "200": DeclineCategory.LOST_OR_STOLEN, // Do not honor, pick up card
+    "201": DeclineCategory.EXPIRED_CARD,
+    "202": DeclineCategory.FRAUD_SUSPECTED,
+    "208": DeclineCategory.LOST_OR_STOLEN, // Lost card
+    "209": DeclineCategory.LOST_OR_STOLEN, // Stolen card
+    "902": DeclineCategory.PROCESSING_ERROR, // Invalid transaction
+    "903": DeclineCategory.PROCESSING_ERROR, // Re-enter transaction
+    "907": DeclineCategory.ISSUER_UNAVAILABLE, // Issuer inoperative
+    "909": DeclineCategory.PROCESSING_ERROR, // System malfunction
+    "910": DeclineCategory.ISSUER_UNAVAILABLE, // Issuer signed off
+    "911": DeclineCategory.ISSUER_UNAVAILABLE, // Issuer timed out
+    "912": DeclineCategory.ISSUER_UNAVAILABLE, // Issuer unavailable
+    "913": DeclineCategory.PROCESSING_ERROR, // Duplicate transmission
+  });
+
+/**
+ * Categories of `source.message` for failures without a response code, e.g. 3DS failures and STC Pay, first match wins
+ */
+export const DECLINE_MESSAGE_PATTERNS: readonly (readonly [
+  RegExp,
+  DeclineCategory,
+])[] = Object.freeze([
+  [/3-?d ?secure|3ds|authenticat|otp/i, DeclineCategory.AUTHENTICATION_FAILED],
+  [
+    /insufficient|not enough (funds|balance)/i,
+    DeclineCategory.INSUFFICIENT_FUNDS,
+  ],
+  [/expired/i, DeclineCategory.EXPIRED_CARD],
+  [/\b(cvv|cvc|cvv2|security code)\b/i, DeclineCategory.INCORRECT_CVC],
+  [
+    /cancel|abandon|rejected by (the )?(user|customer|payer)/i,
+    DeclineCategory.CANCELED,
+  ],
+  [
+    /time(d)? ?out|unavailable|not responding/i,
+    DeclineCategory.ISSUER_UNAVAILABLE,
+  ],
+  [/limit/i, DeclineCategory.LIMIT_EXCEEDED],
+  [/fraud|risk/i, DeclineCategory.FRAUD_SUSPECTED],
+  [/do not honou?r|declined/i, DeclineCategory.DO_NOT_HONOR],
+]);
@@ -89,3 +89,28 @@ export const CardType = {
 } as const;
 
 export type CardType = (typeof CardType)[keyof typeof CardType];
+
+/**
+ * Reason of a failed payment, see `PaymentUtils.explainFailure`
+ */
+export const DeclineCategory = {
+  INSUFFICIENT_FUNDS: "insufficient_funds",
+  DO_NOT_HONOR: "do_not_honor",
+  AUTHENTICATION_FAILED: "authentication_failed", // 3DS, OTP or PIN verification failed
+  EXPIRED_CARD: "expired_card",
+  INVALID_CARD: "invalid_card",
+  INCORRECT_CVC: "incorrect_cvc",
+  LOST_OR_STOLEN: "lost_or_stolen",
+  FRAUD_SUSPECTED: "fraud_suspected",
+  RESTRICTED_CARD: "restricted_card", // Card not allowed for online, foreign or this merchant's payments
+  LIMIT_EXCEEDED: "limit_exceeded",
+  INVALID_AMOUNT: "invalid_amount",
+  ISSUER_UNAVAILABLE: "issuer_unavailable",
+  PROCESSING_ERROR: "processing_error",
+  MERCHANT_ERROR: "merchant_error", // Merchant account or terminal not allowed to process the payment
+  CANCELED: "canceled",
+  UNKNOWN: "unknown",
+} as const;
+
+export type DeclineCategory =
+  (typeof DeclineCategory)[keyof typeof DeclineCategory];
@@ -4,9 +4,63 @@ export class PaymentError extends MoyasarError {
   constructor(
     message: string,
     statusCode: number,
-    details?: Record<string, any>
+    details?: Record<string, any>,
+    options?: ErrorOptions
   ) {
-    super(message, "PAYMENT_ERROR", statusCode, details ?? {});
+    super(message, "PAYMENT_ERROR", statusCode, details ?? {}, options);
     this.name = "PaymentError";
   }
 }
+
+/**
+ * Thrown when an STC Pay OTP can't complete the payment, see the subclasses for the reason
+ */
+export class StcPayOtpError extends PaymentError {
+  constructor(
+    message: string,
+    statusCode: number,
+    details?: Record<string, any>
+  ) {
+    super(message, statusCode, details);
+    this.name = "StcPayOtpError";
+  }
+}
+
+/**
+ * The OTP is not the one sent to the payer, ask them to type it again
+ */
+export class StcPayInvalidOtpError extends StcPayOtpError {
+  constructor(
+    message: string = "Invalid STC Pay OTP",
+    details?: Record<string, any>
+  ) {
+    super(message, 400, details);
+    this.name = "StcPayInvalidOtpError";
+  }
+}
+
+/**
+ * The OTP timed out, a new payment has to be created to send another one
+ */
+export class StcPayOtpExpiredError extends StcPayOtpError {
+  constructor(
+    message: string = "STC Pay OTP expired",
+    details?: Record<string, any>
+  ) {
+    super(message, 410, details);
+    this.name = "StcPayOtpExpiredError";
+  }
+}
+
+/**
+ * An OTP was already submitted for this payment, retrieve it to get its final status
+ */
+export class StcPayOtpAlreadySubmittedError extends StcPayOtpError {
+  constructor(
+    message: string = "STC Pay OTP was already submitted",
+    details?: Record<string, any>
+  ) {
+    super(message, 409, details);
+    this.name = "StcPayOtpAlreadySubmittedError";
+  }
+}
@@ -1,6 +1,19 @@
-export { PaymentStatus, CardScheme, CardType, PaymentSource } from "./enums";
+export {
+  PaymentStatus,
+  CardScheme,
+  CardType,
+  PaymentSource,
+  DeclineCategory,
+} from "./enums";
 export * from "./types";
 export * from "./errors";
-export { PaymentLimits, PaymentValidation } from "./constants";
+export {
+  PaymentLimits,
+  PaymentValidation,
+  PaymentPolling,
+  MADA_BINS,
+} from "./constants";
 export { PaymentService } from "./service";
 export { PaymentUtils } from "./utils";
+export { CardUtils } from "./card";
+export { DECLINE_CODES, DECLINE_REASONS } from "./declines";
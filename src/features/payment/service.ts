@@ -1,5 +1,15 @@
-import type { ApiClient, Metadata, MoyasarClientTypes } from "@types";
-import { API_ENDPOINTS } from "@constants";
+import type {
+  ApiClient,
+  AutoPaginationOptions,
+  Metadata,
+  MoyasarClientTypes,
+} from "@types";
+import {
+  API_ENDPOINTS,
+  DEFAULT_API_CONFIG,
+  RETRYABLE_STATUS_CODES,
+} from "@constants";
+import { PaginationUtils } from "../../shared/utils/pagination.utils";
 import type {
   ListPaymentsResponse,
   PaymentListOptions,
@@ -8,22 +18,43 @@ import type {
   UpdatePaymentRequest,
   RefundPaymentRequest,
   CapturePaymentRequest,
+  PaymentWebhookSource,
+  WaitForPaymentOptions,
+  PaymentCallbackInput,
+  PaymentCallbackExpectations,
+  VerifiedPaymentCallback,
+  CreateStcPayPaymentSource,
+  StcPayPayment,
+  SubmitStcPayOtpResult,
+  InitiateApplePaySessionRequest,
+  ApplePayMerchantSession,
 } from "./types";
 import { PaymentStatus } from "./enums";
+import { PaymentPolling, PaymentValidation } from "./constants";
 import { PaymentUtils } from "./utils";
-import { PaymentError } from "./errors";
+import {
+  PaymentError,
+  StcPayInvalidOtpError,
+  StcPayOtpAlreadySubmittedError,
+} from "./errors";
 import { MoyasarError } from "../../shared/errors";
 
 type PaymentServiceParams<T extends MoyasarClientTypes> = {
   apiClient: ApiClient<T>;
+  /**
+   * @description Lets `waitForFinal` resolve as soon as a webhook of the payment is processed.
+   */
+  webhook?: PaymentWebhookSource<T["metadata"]> | undefined;
 };
 
 export class PaymentService<T extends MoyasarClientTypes> {
   private apiClient: ApiClient<T>;
   private readonly paymentUtils: PaymentUtils<T["metadata"]>;
+  private readonly webhook: PaymentWebhookSource<T["metadata"]> | undefined;
 
   constructor(p: PaymentServiceParams<T>) {
     this.apiClient = p.apiClient;
+    this.webhook = p.webhook;
     this.paymentUtils = new PaymentUtils({
       metadataValidator: p.apiClient.metadataValidator,
     });
@@ -81,6 +112,39 @@ export class PaymentService<T extends MoyasarClientTypes> {
     }
   }
 
+  /**
+   * Iterate over every payment matching the filters, fetching pages as they are consumed
+   *
+   * @example
+   * ```ts
+   * for await (const payment of client.payment.iterate({ status: "paid" })) {
+   *   console.log(payment.id);
+   * }
+   * ```
+   */
+  iterate(
+    options: PaymentListOptions & AutoPaginationOptions = {}
+  ): AsyncGenerator<Payment<T["metadata"]>, void, undefined> {
+    const { maxItems, prefetch, page: startPage, ...filters } = options;
+
+    return PaginationUtils.iterate({
+      fetchPage: page => this.list({ ...filters, page }),
+      getItems: response => response.payments,
+      startPage,
+      maxItems,
+      prefetch,
+    });
+  }
+
+  /**
+   * List every payment matching the filters, across all pages
+   */
+  async listAll(
+    options: PaymentListOptions & AutoPaginationOptions = {}
+  ): Promise<Payment<T["metadata"]>[]> {
+    return PaginationUtils.collect(this.iterate(options));
+  }
+
   /**
    * Retrieve a specific payment
    */
@@ -105,6 +169,90 @@ export class PaymentService<T extends MoyasarClientTypes> {
     }
   }
 
+  /**
+   * Wait until a payment is paid, failed, authorized or in any other final status, e.g. after a 3DS or STC Pay redirect.
+   *
+   * Polls the payment with a growing delay and resolves early when a webhook of the payment is processed by `WebhookService`.
+   * Rejects with a `PaymentError` (408) once `timeout` elapses, or with `signal.reason` when aborted.
+   *
+   * @example
+   * ```ts
+   * const payment = await moyasar.payment.waitForFinal(paymentId, { timeout: 60_000 });
+   * ```
+   */
+  async waitForFinal(
+    paymentId: string,
+    options: WaitForPaymentOptions = {}
+  ): Promise<Payment<T["metadata"]>> {
+    if (!paymentId) throw new PaymentError("Payment ID is required", 400);
+    options.signal?.throwIfAborted();
+
+    // Stops polling once the promise settles, whatever settled it
+    const stop = new AbortController();
+    const onAbort = () => stop.abort(options.signal?.reason);
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    let onWebhook:
+      | ((payload: { data: Payment<T["metadata"]> }) => void)
+      | undefined;
+    const fromWebhook = new Promise<Payment<T["metadata"]>>(resolve => {
+      onWebhook = ({ data }) => {
+        if (data.id === paymentId && this.isSettled(data.status)) resolve(data);
+      };
+      this.webhook?.onAnyPaymentEvent(onWebhook);
+    });
+
+    const fromPolling = this.pollUntilSettled(paymentId, options, stop.signal);
+    // Polling is aborted when the webhook wins the race
+    fromPolling.catch(() => undefined);
+
+    try {
+      return await Promise.race([fromPolling, fromWebhook]);
+    } finally {
+      stop.abort();
+      options.signal?.removeEventListener("abort", onAbort);
+      if (onWebhook) this.webhook?.offAnyPaymentEvent(onWebhook);
+    }
+  }
+
+  /**
+   * Verify the redirect back to `callback_url` by re-fetching the payment instead of trusting its query string.
+   *
+   * @example
+   * ```ts
+   * const { verified, payment } = await moyasar.payment.verifyCallback(req.url, {
+   *   amount: order.total,
+   *   currency: "SAR",
+   *   metadata: { order_id: order.id },
+   * });
+   * ```
+   */
+  async verifyCallback(
+    callback: PaymentCallbackInput,
+    expected: PaymentCallbackExpectations<T["metadata"]> = {}
+  ): Promise<VerifiedPaymentCallback<T["metadata"]>> {
+    const validation = this.paymentUtils.validateCallbackParams(callback);
+    if (!validation.success || !validation.data) {
+      throw new PaymentError(
+        `Invalid callback: ${validation.errors.join(", ")}`,
+        400
+      );
+    }
+
+    const payment = await this.retrieve(validation.data.id);
+    const mismatches = this.paymentUtils.getCallbackMismatches(
+      payment,
+      expected
+    );
+
+    return {
+      verified: mismatches.length === 0,
+      payment,
+      params: validation.data,
+      mismatches,
+    };
+  }
+
   /**
    * Update a payment
    */
@@ -251,6 +399,178 @@ export class PaymentService<T extends MoyasarClientTypes> {
     }
   }
 
+  /**
+   * STC Pay payments, completed with the OTP sent to the payer's mobile
+   *
+   * @example
+   * ```ts
+   * const payment = await moyasar.payment.stcpay.initiate({
+   *   amount: 1000,
+   *   currency: "SAR",
+   *   description: "Order #1",
+   *   callback_url: "https://example.com/callback",
+   *   source: { type: "stcpay", mobile: "0501234567" },
+   * });
+   *
+   * // Later, with the OTP typed by the payer
+   * const { paid, message } = await moyasar.payment.stcpay.submitOtp(payment, otp);
+   * ```
+   */
+  get stcpay() {
+    return {
+      /**
+       * Create an STC Pay payment, STC Pay sends an OTP to the mobile number
+       */
+      initiate: async (
+        params: Omit<CreatePaymentRequest<T["metadata"]>, "source"> & {
+          source: CreateStcPayPaymentSource;
+        }
+      ): Promise<StcPayPayment<T["metadata"]>> => {
+        const payment = await this.create(params);
+        if (!this.paymentUtils.isStcPayPayment(payment)) {
+          throw new PaymentError(
+            `Payment ${payment.id} is not an STC Pay payment`,
+            500
+          );
+        }
+
+        return payment;
+      },
+
+      /**
+       * Submit the OTP of an initiated STC Pay payment, by payment or payment ID.
+       *
+       * Resolves with the updated payment, which is `failed` when STC Pay declined it.
+       * Rejects with `StcPayInvalidOtpError`, `StcPayOtpExpiredError` or `StcPayOtpAlreadySubmittedError` when the OTP can't be processed.
+       */
+      submitOtp: async (
+        payment: Payment<T["metadata"]> | string,
+        otp: string
+      ): Promise<SubmitStcPayOtpResult<T["metadata"]>> => {
+        const current =
+          typeof payment === "string" ? await this.retrieve(payment) : payment;
+
+        if (!this.paymentUtils.isStcPayPayment(current)) {
+          throw new PaymentError(
+            `Payment ${current.id} is not an STC Pay payment`,
+            400
+          );
+        }
+        if (current.status !== PaymentStatus.INITIATED) {
+          throw new StcPayOtpAlreadySubmittedError(
+            `STC Pay OTP was already submitted for payment ${current.id}`,
+            { status: current.status }
+          );
+        }
+        if (!current.source.transaction_url) {
+          throw new PaymentError(
+            `Payment ${current.id} has no pending STC Pay OTP`,
+            400
+          );
+        }
+
+        // The request carries the API key, never send it to another host
+        const baseUrl = this.apiClient.baseUrl || DEFAULT_API_CONFIG.BASE_URL;
+        const transactionUrl = new URL(current.source.transaction_url, baseUrl);
+        if (transactionUrl.origin !== new URL(baseUrl).origin) {
+          throw new PaymentError(
+            `STC Pay transaction URL of payment ${current.id} is not on ${new URL(baseUrl).origin}`,
+            400,
+            { transaction_url: current.source.transaction_url }
+          );
+        }
+
+        const otpValue = otp.trim();
+        if (!PaymentValidation.STCPAY_OTP_REGEX.test(otpValue)) {
+          throw new StcPayInvalidOtpError("STC Pay OTP must be 4 to 10 digits");
+        }
+
+        try {
+          const response = await this.apiClient.request<unknown>({
+            method: "POST",
+            url: current.source.transaction_url,
+            data: { otp_value: otpValue },
+          });
+
+          const updated = this.paymentUtils.parsePayment(response);
+          if (!this.paymentUtils.isStcPayPayment(updated)) {
+            throw new PaymentError(
+              `Payment ${updated.id} is not an STC Pay payment`,
+              500
+            );
+          }
+
+          return {
+            payment: updated,
+            paid: updated.status === PaymentStatus.PAID,
+            message: updated.source.message,
+          };
+        } catch (error) {
+          throw (
+            this.paymentUtils.toStcPayOtpError(error) ??
+            this.handleError(
+              error,
+              `Failed to submit STC Pay OTP for payment ${current.id}`
+            )
+          );
+        }
+      },
+    };
+  }
+
+  /**
+   * Apple Pay on the web
+   *
+   * @example
+   * ```ts
+   * // Called by the `onvalidatemerchant` handler of the browser `ApplePaySession`
+   * app.post("/apple-pay/session", async c => {
+   *   const { validationUrl } = await c.req.json();
+   *   const session = await moyasar.payment.applePay.initiateSession({
+   *     validationUrl,
+   *     displayName: "My Store",
+   *     domain: "shop.example.com",
+   *   });
+   *   return c.json(session);
+   * });
+   * ```
+   */
+  get applePay() {
+    return {
+      /**
+       * Validate the merchant through Moyasar and get the session for `ApplePaySession.completeMerchantValidation`
+       */
+      initiateSession: async (
+        params: InitiateApplePaySessionRequest
+      ): Promise<ApplePayMerchantSession> => {
+        const validation =
+          this.paymentUtils.validateApplePaySessionRequest(params);
+        if (!validation.success || !validation.data) {
+          throw new PaymentError(
+            `Validation failed: ${validation.errors.join(", ")}`,
+            400
+          );
+        }
+
+        try {
+          const response = await this.apiClient.request<unknown>({
+            method: "POST",
+            url: API_ENDPOINTS.applePaySessions,
+            data: {
+              validation_url: validation.data.validationUrl,
+              display_name: validation.data.displayName,
+              domain_name: validation.data.domain,
+            },
+          });
+
+          return this.paymentUtils.parseApplePayMerchantSession(response);
+        } catch (error) {
+          throw this.handleError(error, "Failed to initiate Apple Pay session");
+        }
+      },
+    };
+  }
+
   /**
    * Search payments by metadata
    */
@@ -379,6 +699,77 @@ export class PaymentService<T extends MoyasarClientTypes> {
     };
   }
 
+  private async pollUntilSettled(
+    paymentId: string,
+    options: WaitForPaymentOptions,
+    signal: AbortSignal
+  ): Promise<Payment<T["metadata"]>> {
+    const interval = options.interval ?? PaymentPolling.DEFAULT_INTERVAL;
+    const maxInterval = options.maxInterval ?? PaymentPolling.MAX_INTERVAL;
+    const deadline =
+      Date.now() + (options.timeout ?? PaymentPolling.DEFAULT_TIMEOUT);
+
+    for (let attempt = 0; ; attempt++) {
+      let status: PaymentStatus | undefined;
+      try {
+        const payment = await this.retrieve(paymentId);
+        if (this.isSettled(payment.status)) return payment;
+        status = payment.status;
+      } catch (error) {
+        // Keep polling through rate limits and temporary server errors
+        if (
+          !(error instanceof PaymentError) ||
+          !RETRYABLE_STATUS_CODES.includes(error.statusCode)
+        ) {
+          throw error;
+        }
+      }
+      signal.throwIfAborted();
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new PaymentError(
+          `Timed out waiting for payment ${paymentId} to reach a final status`,
+          408,
+          { status }
+        );
+      }
+
+      await PaymentService.sleep(
+        Math.min(
+          interval * PaymentPolling.BACKOFF_FACTOR ** attempt,
+          maxInterval,
+          remaining
+        ),
+        signal
+      );
+    }
+  }
+
+  /**
+   * Authorized payments wait for a capture, but nothing changes until then
+   */
+  private isSettled(status: PaymentStatus): boolean {
+    return (
+      this.paymentUtils.isPaymentFinal(status) ||
+      status === PaymentStatus.AUTHORIZED
+    );
+  }
+
+  private static sleep(ms: number, signal: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        signal.removeEventListener("abort", onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
   private handleError(error: any, message: string): PaymentError {
     if (error instanceof PaymentError) return error;
 
@@ -386,14 +777,18 @@ export class PaymentService<T extends MoyasarClientTypes> {
       return new PaymentError(
         `${message}: ${error.message}`,
         error.statusCode,
-        { ...error.details }
+        { ...error.details },
+        { cause: error }
       );
     }
 
     const errorMessage = error?.message || error?.toString() || "Unknown error";
-    return new PaymentError(`${message}: ${errorMessage}`, 500, {
-      cause: errorMessage,
-    });
+    return new PaymentError(
+      `${message}: ${errorMessage}`,
+      500,
+      { cause: errorMessage },
+      { cause: error }
+    );
   }
 
   protected parseBody(p: object): Record<string, string> {
@@ -10,6 +10,7 @@ import type {
 import type {
   CardScheme,
   CardType,
+  DeclineCategory,
   PaymentSource,
   PaymentStatus,
 } from "@payment";
@@ -150,3 +151,165 @@ export interface ListPaymentsResponse<
 > extends ListResponse<Payment<T>> {
   payments: Payment<T>[];
 }
+
+export interface WaitForPaymentOptions {
+  /**
+   * @description Maximum time to wait in milliseconds.
+   * @default PaymentPolling.DEFAULT_TIMEOUT
+   */
+  timeout?: number | undefined;
+  /**
+   * @description Delay before the second poll in milliseconds, growing by `PaymentPolling.BACKOFF_FACTOR` after every poll.
+   * @default PaymentPolling.DEFAULT_INTERVAL
+   */
+  interval?: number | undefined;
+  /**
+   * @description Upper bound of the delay between two polls in milliseconds.
+   * @default PaymentPolling.MAX_INTERVAL
+   */
+  maxInterval?: number | undefined;
+  /**
+   * @description Stop waiting, the promise rejects with `signal.reason`.
+   */
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * Source of payment webhooks used by `PaymentService.waitForFinal`, implemented by `WebhookService`
+ */
+export interface PaymentWebhookSource<T extends object = Metadata> {
+  onAnyPaymentEvent(listener: (payload: { data: Payment<T> }) => void): unknown;
+  offAnyPaymentEvent(
+    listener: (payload: { data: Payment<T> }) => void
+  ): unknown;
+}
+
+/**
+ * Query parameters Moyasar appends to `callback_url` when it redirects the payer back.
+ *
+ * @note They can be tampered with, use `PaymentService.verifyCallback` instead of trusting them.
+ */
+export interface PaymentCallbackParams {
+  id: string;
+  status: PaymentStatus;
+  message: string | null;
+}
+
+/**
+ * Callback URL (absolute, path with query string or bare query string), `URL`, `URLSearchParams`
+ * or an already parsed query object such as `req.query`
+ */
+export type PaymentCallbackInput =
+  | string
+  | URL
+  | URLSearchParams
+  | Record<string, string | string[] | undefined>;
+
+export interface PaymentCallbackExpectations<T extends object = Metadata> {
+  amount?: number | undefined;
+  currency?: CurrencyType | undefined;
+  /**
+   * @description Only the given keys are compared, e.g. `{ order_id: "ORD-1" }`.
+   */
+  metadata?: Partial<T> | undefined;
+  /**
+   * @description Accepted payment statuses.
+   * @default [PaymentStatus.PAID, PaymentStatus.AUTHORIZED, PaymentStatus.CAPTURED]
+   */
+  status?: PaymentStatus | PaymentStatus[] | undefined;
+}
+
+export interface PaymentCallbackMismatch {
+  /**
+   * @description `amount`, `currency`, `status` or `metadata.<key>`
+   */
+  field: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface VerifiedPaymentCallback<T extends object = Metadata> {
+  /**
+   * @description `true` when the payment meets every expectation.
+   */
+  verified: boolean;
+  /**
+   * @description The payment as returned by the API, the source of truth for its status.
+   */
+  payment: Payment<T>;
+  params: PaymentCallbackParams;
+  mismatches: PaymentCallbackMismatch[];
+}
+
+export interface StcPayPayment<T extends object = Metadata> extends Payment<T> {
+  source: StcPaySource;
+}
+
+export interface SubmitStcPayOtpResult<T extends object = Metadata> {
+  payment: StcPayPayment<T>;
+  /**
+   * @description `true` when the OTP completed the payment, otherwise `payment.status` is `failed`.
+   */
+  paid: boolean;
+  /**
+   * @description Message of STC Pay, e.g. why the payment failed.
+   */
+  message: string;
+}
+
+/**
+ * Opaque merchant session created by Apple, pass it as is to `ApplePaySession.completeMerchantValidation`
+ */
+export interface ApplePayMerchantSession {
+  epochTimestamp: number;
+  expiresAt: number;
+  merchantSessionIdentifier: string;
+  nonce: string;
+  merchantIdentifier: string;
+  domainName: string;
+  displayName: string;
+  signature: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Card fields checked by `CardUtils.validate`
+ */
+export interface CardDetails {
+  number: string;
+  month: number;
+  year: number;
+  cvc?: string | undefined;
+}
+
+export interface CardValidationIssue {
+  field: keyof CardDetails;
+  message: string;
+}
+
+export interface DeclineReason {
+  category: DeclineCategory;
+  /**
+   * @description `true` when trying again with the same payment method may succeed, e.g. after a 3DS failure or a timeout.
+   * Otherwise the payer should use another payment method or contact their bank.
+   */
+  retryable: boolean;
+  /**
+   * @description Messages safe to show to the payer. Lost, stolen and fraud declines use the generic bank decline message.
+   */
+  messages: {
+    en: string;
+    ar: string;
+  };
+}
+
+export interface PaymentFailureExplanation extends DeclineReason {
+  /**
+   * @description `source.response_code` of the payment, `null` when the source didn't return one, e.g. STC Pay or a 3DS failure.
+   */
+  code: string | null;
+  /**
+   * @description `source.message` of the payment, not meant for the payer.
+   */
+  gatewayMessage: string | null;
+}
@@ -132,3 +132,22 @@ export interface CapturePaymentRequest {
    */
   amount?: number; // Optional partial capture amount | undefined
 }
+
+/**
+ * Merchant validation of an Apple Pay on the web session
+ * @see https://developer.apple.com/documentation/apple_pay_on_the_web/applepaysession/1778021-onvalidatemerchant
+ */
+export interface InitiateApplePaySessionRequest {
+  /**
+   * @description `validationURL` of the `onvalidatemerchant` event, an `apple.com` URL.
+   */
+  validationUrl: string;
+  /**
+   * @description Store name shown in the payment sheet, up to 64 characters.
+   */
+  displayName: string;
+  /**
+   * @description Domain showing the Apple Pay button, e.g. `shop.example.com`. It must be verified with Apple through the Moyasar Dashboard.
+   */
+  domain: string;
+}
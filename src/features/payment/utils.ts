@@ -1,4 +1,15 @@
-import type { ListPaymentsResponse, Payment } from "./types";
+import type {
+  ListPaymentsResponse,
+  Payment,
+  PaymentCallbackExpectations,
+  PaymentCallbackInput,
+  PaymentCallbackMismatch,
+  PaymentCallbackParams,
+  StcPayPayment,
+  InitiateApplePaySessionRequest,
+  ApplePayMerchantSession,
+  PaymentFailureExplanation,
+} from "./types";
 import type {
   CreatePaymentRequest,
   UpdatePaymentRequest,
@@ -6,8 +17,23 @@ import type {
   CapturePaymentRequest,
 } from "./types";
 import { PaymentValidation } from "./constants";
-import { PaymentStatus, PaymentSource, CardScheme } from "./enums";
-import { type Amount, type CurrencyType } from "@types";
+import { CardUtils } from "./card";
+import {
+  PaymentStatus,
+  PaymentSource,
+  CardScheme,
+  DeclineCategory,
+} from "./enums";
+import {
+  DECLINE_CODES,
+  DECLINE_MESSAGE_PATTERNS,
+  DECLINE_REASONS,
+} from "./declines";
+import {
+  type Amount,
+  type AmountFormatOptions,
+  type CurrencyType,
+} from "@types";
 import {
   CreatePaymentSchema,
   UpdatePaymentSchema,
@@ -15,8 +41,20 @@ import {
   CapturePaymentSchema,
   PaymentSchema,
   listPaymentResponseSchema,
+  paymentCallbackParamsSchema,
+  InitiateApplePaySessionSchema,
+  applePayMerchantSessionSchema,
 } from "./validation/schemas";
 import type { MetadataValidator, ValidationResult } from "@types";
+import { MoyasarError } from "@errors";
+import {
+  StcPayInvalidOtpError,
+  StcPayOtpAlreadySubmittedError,
+  StcPayOtpError,
+  StcPayOtpExpiredError,
+} from "./errors";
+import { Money } from "../../shared/utils/money.utils";
+import { AmountFormatter } from "../../shared/utils/amount_format.utils";
 
 type PaymentUtilsParams<T extends object> = {
   metadataValidator: MetadataValidator<T>;
@@ -149,44 +187,65 @@ export class PaymentUtils<T extends object> {
   }
 
   /**
-   * Format amount for display
+   * Validate Apple Pay merchant validation request using Zod
    */
-  formatAmount(
-    amount: Amount,
-    currency: CurrencyType
-  ): `${number} ${CurrencyType}` {
-    const divisors: Record<string, number> = {
-      KWD: 1000,
-      JPY: 1,
-      SAR: 100,
-      USD: 100,
-      EUR: 100,
+  validateApplePaySessionRequest(
+    request: InitiateApplePaySessionRequest
+  ): ValidationResult<InitiateApplePaySessionRequest> {
+    const result = InitiateApplePaySessionSchema.safeParse(request);
+
+    if (result.success) {
+      return {
+        success: true,
+        data: result.data,
+        errors: [],
+      };
+    }
+
+    const errors = result.error.issues.map(err => {
+      const path = err.path.length > 0 ? `${err.path.join(".")}: ` : "";
+      return `${path}${err.message}`;
+    });
+
+    return {
+      success: false,
+      errors,
     };
+  }
 
-    const divisor = divisors[currency] ?? 100;
-    const formattedAmount = (amount / divisor).toFixed(
-      divisor === 1 ? 0 : 2
-    ) as `${number}`;
+  parseApplePayMerchantSession(session: unknown): ApplePayMerchantSession {
+    return applePayMerchantSessionSchema.parse(session);
+  }
 
-    return `${formattedAmount} ${currency}`;
+  /**
+   * Format amount for display, using the currency's ISO 4217 decimals (see `Money`).
+   *
+   * Without options the amount is formatted like Moyasar's `amount_format` (`"10.50 SAR"`),
+   * with options it is formatted for the locale (see `AmountFormatter`), e.g. `{ locale: "ar-SA" }` for `"‏١٠٫٥٠ ﷼‏"`
+   */
+  formatAmount(
+    amount: Amount,
+    currency: CurrencyType
+  ): `${number} ${CurrencyType}`;
+  formatAmount(
+    amount: Amount,
+    currency: CurrencyType,
+    options: AmountFormatOptions
+  ): string;
+  formatAmount(
+    amount: Amount,
+    currency: CurrencyType,
+    options?: AmountFormatOptions
+  ): string {
+    if (options) return AmountFormatter.format(amount, currency, options);
+    return Money.of(amount, currency).format();
   }
 
   /**
    * Parse amount from display format to smallest unit
    */
   parseAmount(formattedAmount: string, currency: CurrencyType): number {
-    const divisors: Record<string, number> = {
-      KWD: 1000,
-      JPY: 1,
-      SAR: 100,
-      USD: 100,
-      EUR: 100,
-    };
-
-    const amount = parseFloat(formattedAmount.replace(/[^\d.]/g, ""));
-    const divisor = divisors[currency.toUpperCase()] || 100;
-
-    return Math.round(amount * divisor);
+    return Money.parse(formattedAmount, currency, "half-up").amount;
   }
 
   /**
@@ -258,10 +317,14 @@ export class PaymentUtils<T extends object> {
    * Check if card scheme matches expected CVV length
    */
   validateCvcLength(cvc: string, scheme?: CardScheme): boolean {
-    if (scheme === CardScheme.AMEX) {
-      return cvc.length === PaymentValidation.AMEX_CVV_LENGTH;
-    }
-    return cvc.length === PaymentValidation.CVV_LENGTH;
+    return cvc.length === CardUtils.getCvcLength(scheme);
+  }
+
+  /**
+   * Detect the scheme of a card number, co-branded mada cards are detected as `mada`
+   */
+  detectCardScheme(cardNumber: string): CardScheme | undefined {
+    return CardUtils.detectScheme(cardNumber);
   }
 
   /**
@@ -382,6 +445,177 @@ export class PaymentUtils<T extends object> {
       };
     }
   }
+
+  /**
+   * Check if a payment was made with STC Pay
+   */
+  isStcPayPayment(payment: Payment<T>): payment is StcPayPayment<T> {
+    return payment.source.type === PaymentSource.STCPAY;
+  }
+
+  /**
+   * Map an API error of an STC Pay OTP submission to a typed `StcPayOtpError`,
+   * returns `null` for errors unrelated to the OTP (authentication, network, server errors, ...)
+   */
+  toStcPayOtpError(error: unknown): StcPayOtpError | null {
+    if (!(error instanceof MoyasarError) || error.statusCode >= 500) {
+      return null;
+    }
+
+    const details = { ...error.details };
+    if (/expired|timed? ?out/i.test(error.message)) {
+      return new StcPayOtpExpiredError(error.message, details);
+    }
+    if (
+      error.statusCode === 409 ||
+      /already|processed|used/i.test(error.message)
+    ) {
+      return new StcPayOtpAlreadySubmittedError(error.message, details);
+    }
+    if (error.statusCode === 400 || error.statusCode === 422) {
+      return new StcPayInvalidOtpError(error.message, details);
+    }
+
+    return null;
+  }
+
+  /**
+   * Explain why a payment failed: decline category, whether retrying with the same payment method makes sense,
+   * and messages to show to the payer in English and Arabic. Returns `null` unless the payment failed.
+   *
+   * The category comes from `source.response_code` of card and wallet payments, or from `source.message`
+   * when there is no code (STC Pay, 3DS failures).
+   *
+   * @example
+   * ```ts
+   * const explanation = paymentUtils.explainFailure(payment);
+   * // { category: "insufficient_funds", retryable: false, code: "51", messages: { en: "...", ar: "..." }, ... }
+   * ```
+   */
+  explainFailure(payment: Payment<T>): PaymentFailureExplanation | null {
+    if (payment.status !== PaymentStatus.FAILED) return null;
+
+    const code =
+      "response_code" in payment.source && payment.source.response_code
+        ? payment.source.response_code.trim()
+        : null;
+    const gatewayMessage = payment.source.message || null;
+
+    let category: DeclineCategory | undefined =
+      code !== null ? DECLINE_CODES[code.toUpperCase()] : undefined;
+    if (!category && gatewayMessage) {
+      category = DECLINE_MESSAGE_PATTERNS.find(([pattern]) =>
+        pattern.test(gatewayMessage)
+      )?.[1];
+    }
+
+    return {
+      ...DECLINE_REASONS[category ?? DeclineCategory.UNKNOWN],
+      code,
+      gatewayMessage,
+    };
+  }
+
+  /**
+   * Validate the `id`, `status` and `message` query parameters of a callback redirect
+   */
+  validateCallbackParams(
+    callback: PaymentCallbackInput
+  ): ValidationResult<PaymentCallbackParams> {
+    const query = Object.fromEntries(this.toSearchParams(callback));
+    const result = paymentCallbackParamsSchema.safeParse(query);
+
+    if (result.success) {
+      return {
+        success: true,
+        data: result.data,
+        errors: [],
+      };
+    }
+
+    const errors = result.error.issues.map(err => {
+      const path = err.path.length > 0 ? `${err.path.join(".")}: ` : "";
+      return `${path}${err.message}`;
+    });
+
+    return {
+      success: false,
+      errors,
+    };
+  }
+
+  /**
+   * Compare a retrieved payment against what the checkout expects
+   */
+  getCallbackMismatches(
+    payment: Payment<T>,
+    expected: PaymentCallbackExpectations<T>
+  ): PaymentCallbackMismatch[] {
+    const mismatches: PaymentCallbackMismatch[] = [];
+    const statuses = [
+      expected.status ?? [
+        PaymentStatus.PAID,
+        PaymentStatus.AUTHORIZED,
+        PaymentStatus.CAPTURED,
+      ],
+    ].flat();
+
+    if (!statuses.includes(payment.status)) {
+      mismatches.push({
+        field: "status",
+        expected: statuses,
+        actual: payment.status,
+      });
+    }
+
+    if (expected.amount !== undefined && payment.amount !== expected.amount) {
+      mismatches.push({
+        field: "amount",
+        expected: expected.amount,
+        actual: payment.amount,
+      });
+    }
+
+    if (
+      expected.currency !== undefined &&
+      payment.currency !== expected.currency.toUpperCase()
+    ) {
+      mismatches.push({
+        field: "currency",
+        expected: expected.currency,
+        actual: payment.currency,
+      });
+    }
+
+    Object.entries(expected.metadata ?? {}).forEach(([key, value]) => {
+      const actual = (
+        payment.metadata as Record<string, unknown> | undefined
+      )?.[key];
+      if (actual !== value) {
+        mismatches.push({ field: `metadata.${key}`, expected: value, actual });
+      }
+    });
+
+    return mismatches;
+  }
+
+  private toSearchParams(callback: PaymentCallbackInput): URLSearchParams {
+    if (callback instanceof URLSearchParams) return callback;
+    if (callback instanceof URL) return callback.searchParams;
+
+    if (typeof callback === "string") {
+      const query = callback.split("#")[0] ?? "";
+      return new URLSearchParams(query.slice(query.indexOf("?") + 1));
+    }
+
+    const params = new URLSearchParams();
+    Object.entries(callback).forEach(([key, value]) => {
+      // Repeated parameters, keep the first value like URLSearchParams.get
+      const first = Array.isArray(value) ? value[0] : value;
+      if (first !== undefined) params.set(key, first);
+    });
+    return params;
+  }
 }
 
 export * as PaymentSchemas from "./validation/schemas";
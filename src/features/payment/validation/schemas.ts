@@ -1,6 +1,7 @@
 import { z } from "zod";
 import { type CurrencyType } from "@types";
 import { PaymentSource, CardScheme, CardType, PaymentStatus } from "../enums";
+import { CardUtils } from "../card";
 import {
   type CapturePaymentRequest,
   type CreateGooglePayPaymentSource,
@@ -18,6 +19,9 @@ import {
   type BasePaymentSource,
   type CreditCardSource,
   type ListPaymentsResponse,
+  type PaymentCallbackParams,
+  type InitiateApplePaySessionRequest,
+  type ApplePayMerchantSession,
 } from "../types";
 import type { AllKeys } from "@types";
 
@@ -127,16 +131,13 @@ const CreditCardSourceSchema = z.object({
       message: "Card holder name must be at least two words",
     })
     .transform(val => val.trim()),
-  number: z.string().regex(/^\d{16,19}$/, "Card number must be 16-19 digits"),
+  number: z.string().regex(/^\d{13,19}$/, "Card number must be 13-19 digits"),
   month: z
     .number()
     .int("Month must be an integer")
     .min(1, "Month must be between 1 and 12")
     .max(12, "Month must be between 1 and 12"),
-  year: z
-    .number()
-    .int("Year must be an integer")
-    .min(new Date().getFullYear(), "Year cannot be in the past"),
+  year: z.number().int("Year must be an integer"),
   cvc: z.string().regex(/^\d{3,4}$/, "CVC must be 3-4 digits"),
   statement_descriptor: z
     .string()
@@ -147,6 +148,23 @@ const CreditCardSourceSchema = z.object({
   save_card: z.boolean().optional(),
 } satisfies AllKeys<CreateCreditCardPaymentSource>);
 
+// Luhn, scheme, CVC length and expiry checks, the expiry is checked against the current date on every parse
+const ValidCreditCardSourceSchema = CreditCardSourceSchema.superRefine(
+  (source, ctx) => {
+    // Skip the fields that already failed their format check
+    const invalidFields = new Set(ctx.issues.map(issue => issue.path?.[0]));
+
+    for (const issue of CardUtils.validate(source)) {
+      if (invalidFields.has(issue.field)) continue;
+      ctx.addIssue({
+        code: "custom",
+        path: [issue.field],
+        message: issue.message,
+      });
+    }
+  }
+);
+
 const TokenSourceSchema = z.object({
   type: z.literal(PaymentSource.TOKEN),
   token: z.string().regex(/^token_/, "Token must start with 'token_'"),
@@ -208,7 +226,7 @@ const StcPaySourceSchema = z.object({
 } satisfies AllKeys<CreateStcPayPaymentSource>);
 
 const CreatePaymentSourceSchema = z.discriminatedUnion("type", [
-  CreditCardSourceSchema,
+  ValidCreditCardSourceSchema,
   TokenSourceSchema,
   GooglePaySourceSchema,
   ApplePaySourceSchema,
@@ -258,3 +276,46 @@ export const listPaymentResponseSchema = z.object({
   payments: z.array(z.unknown()),
   meta: paginationMetaSchema,
 } satisfies AllKeys<ListPaymentsResponse>);
+
+export const paymentCallbackParamsSchema = z.object({
+  id: z.string().min(1, "id is required"),
+  status: z.enum(PaymentStatus),
+  message: z
+    .string()
+    .nullish()
+    .transform(val => val ?? null),
+} satisfies AllKeys<PaymentCallbackParams>);
+
+export const InitiateApplePaySessionSchema = z.object({
+  validationUrl: z.url({
+    protocol: /^https$/,
+    hostname: PaymentValidation.APPLE_PAY_VALIDATION_HOST_REGEX,
+    error: "validationUrl must be an Apple Pay validation URL",
+  }),
+  displayName: z
+    .string()
+    .trim()
+    .min(1, "displayName is required")
+    .max(
+      PaymentValidation.APPLE_PAY_DISPLAY_NAME_MAX_LENGTH,
+      `displayName must be at most ${PaymentValidation.APPLE_PAY_DISPLAY_NAME_MAX_LENGTH} characters`
+    ),
+  domain: z
+    .string()
+    .regex(
+      PaymentValidation.DOMAIN_NAME_REGEX,
+      "domain must be a domain name without protocol or path"
+    ),
+} satisfies AllKeys<InitiateApplePaySessionRequest>);
+
+// Unknown keys are kept, Apple rejects a session that was altered
+export const applePayMerchantSessionSchema = z.looseObject({
+  epochTimestamp: z.number(),
+  expiresAt: z.number(),
+  merchantSessionIdentifier: z.string(),
+  nonce: z.string(),
+  merchantIdentifier: z.string(),
+  domainName: z.string(),
+  displayName: z.string(),
+  signature: z.string(),
+} satisfies AllKeys<ApplePayMerchantSession>);
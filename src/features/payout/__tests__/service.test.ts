@@ -0,0 +1,223 @@
+import {
+  PayoutError,
+  PayoutService,
+  PayoutStatus,
+  PayoutDestinationType,
+  PayoutPurpose,
+  PayoutAccountType,
+  type CreatePayoutRequest,
+} from "@payout";
+import { API_ENDPOINTS } from "@constants";
+import { MoyasarError } from "@errors";
+import type { ApiClient, Metadata } from "@types";
+import { describe, expect, beforeEach, mock, it } from "bun:test";
+
+const createMockPayout = (overrides: Record<string, unknown> = {}) => ({
+  id: "4c5b8f59-6c4d-4b8f-8a4c-31c8b9b1c1a1",
+  source_id: "acc_123",
+  sequence_number: "PO-0001",
+  channel: "ips",
+  status: PayoutStatus.QUEUED,
+  amount: 10000,
+  currency: "SAR",
+  purpose: PayoutPurpose.PAYROLL_BENEFITS,
+  comment: null,
+  destination: {
+    type: PayoutDestinationType.BANK,
+    iban: "SA8430400108057386290038",
+    name: "Mohammed Ali",
+    country: "SA",
+    city: "Riyadh",
+  },
+  message: null,
+  failure_reason: null,
+  metadata: null,
+  created_at: "2030-01-01T00:00:00.000Z",
+  updated_at: "2030-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+const createMockAccount = () => ({
+  id: "acc_123",
+  account_type: PayoutAccountType.BANK,
+  currency: "SAR",
+  properties: { iban: "SA0380000000608010167519" },
+  created_at: "2030-01-01T00:00:00.000Z",
+  updated_at: "2030-01-01T00:00:00.000Z",
+});
+
+const meta = {
+  current_page: 1,
+  next_page: null,
+  prev_page: null,
+  total_pages: 1,
+  total_count: 1,
+};
+
+describe("PayoutService", () => {
+  const mockApiClient: ApiClient<{ metadata: Metadata }> = {
+    request: mock().mockResolvedValue({}),
+    metadataValidator: {
+      parse: payload => payload,
+    },
+  };
+  let payoutService = new PayoutService({ apiClient: mockApiClient });
+
+  beforeEach(() => {
+    mockApiClient.request = mock().mockResolvedValue({});
+    payoutService = new PayoutService({ apiClient: mockApiClient });
+  });
+
+  const validCreateRequest: CreatePayoutRequest = {
+    source_id: "acc_123",
+    sequence_number: "PO-0001",
+    amount: 10000,
+    purpose: PayoutPurpose.PAYROLL_BENEFITS,
+    destination: {
+      type: PayoutDestinationType.BANK,
+      iban: "SA8430400108057386290038",
+      name: "Mohammed Ali",
+      country: "SA",
+      city: "Riyadh",
+    },
+  };
+
+  describe("create", () => {
+    it("should create a payout and parse the response", async () => {
+      (mockApiClient.request as any).mockResolvedValue(createMockPayout());
+
+      const payout = await payoutService.create(validCreateRequest);
+
+      expect(payout.status).toBe(PayoutStatus.QUEUED);
+      expect(payout.created_at).toBeInstanceOf(Date);
+      expect(mockApiClient.request as any).toHaveBeenCalledWith({
+        method: "POST",
+        url: API_ENDPOINTS.payouts,
+        data: validCreateRequest,
+      });
+    });
+
+    it("should validate the destination", async () => {
+      const promise = payoutService.create({
+        ...validCreateRequest,
+        destination: {
+          ...validCreateRequest.destination,
+          iban: "123",
+        } as CreatePayoutRequest["destination"],
+      });
+
+      await expect(promise).rejects.toThrow("destination.iban: Invalid IBAN");
+      expect(mockApiClient.request as any).not.toHaveBeenCalled();
+    });
+
+    it("should wrap API errors and keep the status code", async () => {
+      (mockApiClient.request as any).mockRejectedValue(
+        new MoyasarError(
+          "Insufficient balance",
+          "invalid_request_error",
+          400,
+          {}
+        )
+      );
+
+      const promise = payoutService.create(validCreateRequest);
+
+      await expect(promise).rejects.toBeInstanceOf(PayoutError);
+      await expect(promise).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe("createBulk", () => {
+    it("should create payouts in bulk", async () => {
+      (mockApiClient.request as any).mockResolvedValue({
+        payouts: [createMockPayout(), createMockPayout({ id: "po_2" })],
+      });
+      const { source_id, ...payout } = validCreateRequest;
+
+      const response = await payoutService.createBulk({
+        source_id,
+        payouts: [payout, { ...payout, sequence_number: "PO-0002" }],
+      });
+
+      expect(response.payouts).toHaveLength(2);
+      expect((mockApiClient.request as any).mock.calls[0][0].url).toBe(
+        API_ENDPOINTS.bulkPayouts
+      );
+    });
+
+    it("should report the index of invalid payouts", async () => {
+      const { source_id, ...payout } = validCreateRequest;
+
+      await expect(
+        payoutService.createBulk({
+          source_id,
+          payouts: [payout, { ...payout, amount: -1 }],
+        })
+      ).rejects.toThrow("Payout 2: amount:");
+    });
+  });
+
+  describe("list", () => {
+    it("should convert filters to query parameters", async () => {
+      (mockApiClient.request as any).mockResolvedValue({
+        payouts: [createMockPayout({ status: PayoutStatus.FAILED })],
+        meta,
+      });
+
+      const response = await payoutService.getFailed({
+        "created[gt]": new Date("2030-01-01T00:00:00.000Z"),
+        metadata: { batch: "2030-01" },
+      });
+
+      expect(response.payouts[0]!.status).toBe(PayoutStatus.FAILED);
+      expect(mockApiClient.request as any).toHaveBeenCalledWith({
+        method: "GET",
+        url: API_ENDPOINTS.payouts,
+        params: {
+          status: PayoutStatus.FAILED,
+          "created[gt]": "2030-01-01T00:00:00.000Z",
+          "metadata[batch]": "2030-01",
+        },
+      });
+    });
+  });
+
+  describe("retrieve", () => {
+    it("should require a payout ID", async () => {
+      await expect(payoutService.retrieve("")).rejects.toThrow(
+        "Payout ID is required"
+      );
+    });
+  });
+
+  describe("accounts", () => {
+    it("should create a payout account", async () => {
+      (mockApiClient.request as any).mockResolvedValue(createMockAccount());
+
+      const account = await payoutService.accounts.create({
+        account_type: PayoutAccountType.BANK,
+        properties: { iban: "SA0380000000608010167519" },
+        credentials: { client_id: "id", client_secret: "secret" },
+      });
+
+      expect(account.id).toBe("acc_123");
+      expect(account.created_at).toBeInstanceOf(Date);
+    });
+
+    it("should list and retrieve payout accounts", async () => {
+      (mockApiClient.request as any).mockResolvedValue({
+        payout_accounts: [createMockAccount()],
+        meta,
+      });
+      const list = await payoutService.accounts.list();
+      expect(list.payout_accounts).toHaveLength(1);
+
+      (mockApiClient.request as any).mockResolvedValue(createMockAccount());
+      await payoutService.accounts.retrieve("acc_123");
+      expect(mockApiClient.request as any).toHaveBeenLastCalledWith({
+        method: "GET",
+        url: `${API_ENDPOINTS.payoutAccounts}/acc_123`,
+      });
+    });
+  });
+});
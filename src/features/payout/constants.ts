@@ -0,0 +1,8 @@
+export const PayoutLimits = {
+  MAX_BULK_PAYOUTS: 100, // Maximum payouts per bulk request
+  COMMENT_MAX_LENGTH: 255,
+} as const;
+
+export const PayoutValidation = {
+  SAUDI_IBAN_REGEX: /^SA\d{22}$/,
+} as const;
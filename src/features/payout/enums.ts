@@ -0,0 +1,88 @@
+/**
+ * @description Indicates the payout status.
+ * @values `queued`, `initiated`, `paid`, `failed`, `canceled`, `returned`
+ * @see https://docs.moyasar.com/category/payouts-api
+ */
+export const PayoutStatus = {
+  /**
+   * ## Queued
+   * The payout has been accepted and is waiting to be sent to the bank.
+   */
+  QUEUED: "queued",
+  /**
+   * ## Initiated
+   * The payout has been sent to the bank and is being processed.
+   * @see WebhookEvent.PAYOUT_INITIATED
+   */
+  INITIATED: "initiated",
+  /**
+   * ## Paid
+   * The amount has been credited to the destination account.
+   * @see WebhookEvent.PAYOUT_PAID
+   */
+  PAID: "paid",
+  /**
+   * ## Failed
+   * The payout could not be processed, the reason is attached to the `failure_reason` attribute.
+   * @see WebhookEvent.PAYOUT_FAILED
+   */
+  FAILED: "failed",
+  /**
+   * ## Canceled
+   * The payout has been canceled before being sent.
+   * @see WebhookEvent.PAYOUT_CANCELED
+   */
+  CANCELED: "canceled",
+  /**
+   * ## Returned
+   * The payout has been paid but the destination bank returned the amount.
+   * @see WebhookEvent.PAYOUT_RETURNED
+   */
+  RETURNED: "returned",
+} as const;
+
+export type PayoutStatus = (typeof PayoutStatus)[keyof typeof PayoutStatus];
+
+export const PayoutAccountType = {
+  BANK: "bank",
+} as const;
+
+export type PayoutAccountType =
+  (typeof PayoutAccountType)[keyof typeof PayoutAccountType];
+
+export const PayoutDestinationType = {
+  BANK: "bank",
+  WALLET: "wallet",
+} as const;
+
+export type PayoutDestinationType =
+  (typeof PayoutDestinationType)[keyof typeof PayoutDestinationType];
+
+/**
+ * @description Purpose of the transfer, required by the Saudi Central Bank for every payout.
+ * @see https://docs.moyasar.com/api/payouts/01-create-payout#request
+ */
+export const PayoutPurpose = {
+  BILLS_OR_RENT: "bills_or_rent",
+  EXPENSES_SERVICES: "expenses_services",
+  PURCHASE_ASSETS: "purchase_assets",
+  SAVING_INVESTMENT: "saving_investment",
+  GOVERNMENT_DUES: "government_dues",
+  MONEY_EXCHANGE: "money_exchange",
+  CREDIT_CARD_LOAN: "credit_card_loan",
+  GIFT_OR_REWARD: "gift_or_reward",
+  PERSONAL_LOAN: "personal_loan",
+  INVESTMENT_TRANSACTION: "investment_transaction",
+  FAMILY_ASSISTANCE: "family_assistance",
+  DONATION: "donation",
+  PAYROLL_BENEFITS: "payroll_benefits",
+  ONLINE_PURCHASE: "online_purchase",
+  HAJJ_AND_UMRA: "hajj_and_umra",
+  DIVIDEND_PAYMENT: "dividend_payment",
+  GOVERNMENT_PAYMENT: "government_payment",
+  INVESTMENT_HOUSE: "investment_house",
+  PAYMENT_TO_MERCHANT: "payment_to_merchant",
+  OWN_ACCOUNT_TRANSFER: "own_account_transfer",
+} as const;
+
+export type PayoutPurpose = (typeof PayoutPurpose)[keyof typeof PayoutPurpose];
@@ -0,0 +1,13 @@
+import { MoyasarError } from "@errors";
+
+export class PayoutError extends MoyasarError {
+  constructor(
+    message: string,
+    statusCode: number,
+    details?: Record<string, any>,
+    options?: ErrorOptions
+  ) {
+    super(message, "PAYOUT_ERROR", statusCode, details ?? {}, options);
+    this.name = "PayoutError";
+  }
+}
@@ -0,0 +1,25 @@
+export {
+  PayoutStatus,
+  PayoutAccountType,
+  PayoutDestinationType,
+  PayoutPurpose,
+} from "./enums";
+export type {
+  Payout,
+  PayoutAccount,
+  PayoutDestination,
+  BankPayoutDestination,
+  WalletPayoutDestination,
+  CreatePayoutRequest,
+  CreatePayoutAccountRequest,
+  BulkCreatePayoutRequest,
+  BulkCreatePayoutsResponse,
+  PayoutListOptions,
+  PayoutAccountListOptions,
+  ListPayoutsResponse,
+  ListPayoutAccountsResponse,
+} from "./types";
+export * from "./errors";
+export { PayoutLimits, PayoutValidation } from "./constants";
+export { PayoutUtils } from "./utils";
+export { PayoutService } from "./service";
@@ -0,0 +1,353 @@
+import type {
+  ApiClient,
+  AutoPaginationOptions,
+  MoyasarClientTypes,
+} from "@types";
+import { API_ENDPOINTS } from "@constants";
+import { MoyasarError } from "@errors";
+import { PaginationUtils } from "../../shared/utils/pagination.utils";
+import type {
+  BulkCreatePayoutRequest,
+  BulkCreatePayoutsResponse,
+  CreatePayoutAccountRequest,
+  CreatePayoutRequest,
+  ListPayoutAccountsResponse,
+  ListPayoutsResponse,
+  Payout,
+  PayoutAccount,
+  PayoutAccountListOptions,
+  PayoutListOptions,
+} from "./types";
+import { PayoutStatus } from "./enums";
+import { PayoutUtils } from "./utils";
+import { PayoutError } from "./errors";
+
+type PayoutServiceParams<T extends MoyasarClientTypes> = {
+  apiClient: ApiClient<T>;
+};
+
+export class PayoutService<T extends MoyasarClientTypes> {
+  private readonly apiClient: ApiClient<T>;
+  private readonly payoutUtils: PayoutUtils<T["metadata"]>;
+
+  constructor(p: PayoutServiceParams<T>) {
+    this.apiClient = p.apiClient;
+    this.payoutUtils = new PayoutUtils({
+      metadataValidator: p.apiClient.metadataValidator,
+    });
+  }
+
+  /**
+   * Create a new payout
+   */
+  async create(
+    params: CreatePayoutRequest<T["metadata"]>
+  ): Promise<Payout<T["metadata"]>> {
+    // Validate input
+    const validation = this.payoutUtils.validateCreatePayoutRequest(params);
+    if (!validation.success) {
+      throw new PayoutError(
+        `Validation failed: ${validation.errors.join(", ")}`,
+        400
+      );
+    }
+
+    try {
+      const response = await this.apiClient.request<unknown>({
+        method: "POST",
+        url: API_ENDPOINTS.payouts,
+        data: params,
+      });
+
+      return this.payoutUtils.parsePayout(response);
+    } catch (error) {
+      const payoutError = this.handleError(error, "Failed to create payout");
+      throw payoutError;
+    }
+  }
+
+  /**
+   * Create multiple payouts from the same payout account in bulk
+   */
+  async createBulk(
+    params: BulkCreatePayoutRequest<T["metadata"]>
+  ): Promise<BulkCreatePayoutsResponse<T["metadata"]>> {
+    // Validate input
+    const validation = this.payoutUtils.validateBulkCreatePayoutRequest(params);
+    if (!validation.success) {
+      throw new PayoutError(
+        `Validation failed: ${validation.errors.join(", ")}`,
+        400
+      );
+    }
+
+    try {
+      const response = await this.apiClient.request<unknown>({
+        method: "POST",
+        url: API_ENDPOINTS.bulkPayouts,
+        data: params,
+      });
+
+      return this.payoutUtils.parseBulkCreatePayoutsResponse(response);
+    } catch (error) {
+      const payoutError = this.handleError(
+        error,
+        "Failed to create bulk payouts"
+      );
+      throw payoutError;
+    }
+  }
+
+  /**
+   * List payouts with optional filtering
+   */
+  async list(
+    options: PayoutListOptions<T["metadata"]> = {}
+  ): Promise<ListPayoutsResponse<T["metadata"]>> {
+    try {
+      // Convert metadata filters to proper query format
+      const queryParams = this.parseBody(options);
+      const response = await this.apiClient.request<unknown>({
+        method: "GET",
+        url: API_ENDPOINTS.payouts,
+        params: queryParams,
+      });
+
+      return this.payoutUtils.parseListPayoutsResponse(response);
+    } catch (error) {
+      const payoutError = this.handleError(error, "Failed to list payouts");
+      throw payoutError;
+    }
+  }
+
+  /**
+   * Iterate over every payout matching the filters, fetching pages as they are consumed
+   *
+   * @example
+   * ```ts
+   * for await (const payout of client.payout.iterate({ status: "failed" })) {
+   *   console.log(payout.id);
+   * }
+   * ```
+   */
+  iterate(
+    options: PayoutListOptions<T["metadata"]> & AutoPaginationOptions = {}
+  ): AsyncGenerator<Payout<T["metadata"]>, void, undefined> {
+    const { maxItems, prefetch, page: startPage, ...filters } = options;
+
+    return PaginationUtils.iterate({
+      fetchPage: page => this.list({ ...filters, page }),
+      getItems: response => response.payouts,
+      startPage,
+      maxItems,
+      prefetch,
+    });
+  }
+
+  /**
+   * List every payout matching the filters, across all pages
+   */
+  async listAll(
+    options: PayoutListOptions<T["metadata"]> & AutoPaginationOptions = {}
+  ): Promise<Payout<T["metadata"]>[]> {
+    return PaginationUtils.collect(this.iterate(options));
+  }
+
+  /**
+   * Retrieve a specific payout
+   */
+  async retrieve(payoutId: string): Promise<Payout<T["metadata"]>> {
+    if (!payoutId) throw new PayoutError("Payout ID is required", 400);
+
+    try {
+      const response = await this.apiClient.request<unknown>({
+        method: "GET",
+        url: `${API_ENDPOINTS.payouts}/${payoutId}`,
+      });
+
+      // Parse and validate the response
+      return this.payoutUtils.parsePayout(response);
+    } catch (error) {
+      const payoutError = this.handleError(
+        error,
+        `Failed to retrieve payout ${payoutId}`
+      );
+      throw payoutError;
+    }
+  }
+
+  /**
+   * Get payouts by status
+   */
+  async getByStatus(
+    status: PayoutStatus,
+    options: Omit<PayoutListOptions<T["metadata"]>, "status"> = {}
+  ): Promise<ListPayoutsResponse<T["metadata"]>> {
+    return this.list({
+      ...options,
+      status,
+    });
+  }
+
+  /**
+   * Get failed payouts
+   */
+  async getFailed(
+    options: Omit<PayoutListOptions<T["metadata"]>, "status"> = {}
+  ): Promise<ListPayoutsResponse<T["metadata"]>> {
+    return this.getByStatus(PayoutStatus.FAILED, options);
+  }
+
+  /**
+   * Payout Accounts Sub-service
+   */
+  get accounts() {
+    return {
+      /**
+       * Create a new payout account
+       */
+      create: async (
+        params: CreatePayoutAccountRequest
+      ): Promise<PayoutAccount> => {
+        const validation =
+          this.payoutUtils.validateCreatePayoutAccountRequest(params);
+        if (!validation.success) {
+          throw new PayoutError(
+            `Validation failed: ${validation.errors.join(", ")}`,
+            400
+          );
+        }
+
+        try {
+          const response = await this.apiClient.request<unknown>({
+            method: "POST",
+            url: API_ENDPOINTS.payoutAccounts,
+            data: params,
+          });
+
+          return this.payoutUtils.parsePayoutAccount(response);
+        } catch (error) {
+          const payoutError = this.handleError(
+            error,
+            "Failed to create payout account"
+          );
+          throw payoutError;
+        }
+      },
+
+      /**
+       * List all payout accounts
+       */
+      list: async (
+        options: PayoutAccountListOptions = {}
+      ): Promise<ListPayoutAccountsResponse> => {
+        try {
+          const response = await this.apiClient.request<unknown>({
+            method: "GET",
+            url: API_ENDPOINTS.payoutAccounts,
+            params: options,
+          });
+
+          return this.payoutUtils.parseListPayoutAccountsResponse(response);
+        } catch (error) {
+          const payoutError = this.handleError(
+            error,
+            "Failed to list payout accounts"
+          );
+          throw payoutError;
+        }
+      },
+
+      /**
+       * Iterate over every payout account matching the filters, fetching pages as they are consumed
+       */
+      iterate: (
+        options: PayoutAccountListOptions & AutoPaginationOptions = {}
+      ): AsyncGenerator<PayoutAccount, void, undefined> => {
+        const { maxItems, prefetch, page: startPage, ...filters } = options;
+
+        return PaginationUtils.iterate({
+          fetchPage: page => this.accounts.list({ ...filters, page }),
+          getItems: response => response.payout_accounts,
+          startPage,
+          maxItems,
+          prefetch,
+        });
+      },
+
+      /**
+       * List every payout account matching the filters, across all pages
+       */
+      listAll: async (
+        options: PayoutAccountListOptions & AutoPaginationOptions = {}
+      ): Promise<PayoutAccount[]> => {
+        return PaginationUtils.collect(this.accounts.iterate(options));
+      },
+
+      /**
+       * Retrieve a specific payout account
+       */
+      retrieve: async (accountId: string): Promise<PayoutAccount> => {
+        if (!accountId) {
+          throw new PayoutError("Payout account ID is required", 400);
+        }
+
+        try {
+          const response = await this.apiClient.request<unknown>({
+            method: "GET",
+            url: `${API_ENDPOINTS.payoutAccounts}/${accountId}`,
+          });
+
+          return this.payoutUtils.parsePayoutAccount(response);
+        } catch (error) {
+          const payoutError = this.handleError(
+            error,
+            `Failed to retrieve payout account ${accountId}`
+          );
+          throw payoutError;
+        }
+      },
+    };
+  }
+
+  private handleError(error: any, message: string): PayoutError {
+    if (error instanceof PayoutError) return error;
+
+    if (error instanceof MoyasarError) {
+      return new PayoutError(
+        `${message}: ${error.message}`,
+        error.statusCode,
+        { ...error.details },
+        { cause: error }
+      );
+    }
+
+    const errorMessage = error?.message || error?.toString() || "Unknown error";
+    return new PayoutError(
+      `${message}: ${errorMessage}`,
+      500,
+      { cause: errorMessage },
+      { cause: error }
+    );
+  }
+
+  protected parseBody(p: PayoutListOptions<T["metadata"]>) {
+    const copied = {
+      ...p,
+      ...this.payoutUtils.buildMetadataQuery(p.metadata ?? {}),
+    };
+
+    delete copied.metadata;
+
+    Object.entries(copied).forEach(([key, value]) => {
+      if (typeof value === "object") {
+        if (value instanceof Date) {
+          // @ts-expect-error
+          copied[key] = value.toISOString();
+        }
+      }
+    });
+
+    return copied;
+  }
+}
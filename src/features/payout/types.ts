@@ -0,0 +1,142 @@
+import type {
+  BaseListOptions,
+  CurrencyType,
+  HasAmount,
+  HasMetadata,
+  ListResponse,
+  Metadata,
+} from "@types";
+import type {
+  PayoutAccountType,
+  PayoutDestinationType,
+  PayoutPurpose,
+  PayoutStatus,
+} from "./enums";
+
+/**
+ * # Payout Account
+ * The merchant account that funds payouts.
+ * @see https://docs.moyasar.com/category/payouts-api
+ */
+export interface PayoutAccount {
+  id: string;
+  account_type: PayoutAccountType;
+  currency: CurrencyType;
+  /**
+   * @description Public account properties, e.g. the account `iban`.
+   */
+  properties: Record<string, string>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreatePayoutAccountRequest {
+  account_type: PayoutAccountType;
+  properties: {
+    /**
+     * @description Saudi IBAN of the funding account, e.g. `SA0380000000608010167519`.
+     */
+    iban: string;
+  };
+  /**
+   * @description Credentials issued by the bank to Moyasar for this account. They are never returned by the API.
+   */
+  credentials: Record<string, string>;
+}
+
+export interface BankPayoutDestination {
+  type: typeof PayoutDestinationType.BANK;
+  iban: string;
+  name: string;
+  mobile?: string | undefined;
+  country: string;
+  city: string;
+}
+
+export interface WalletPayoutDestination {
+  type: typeof PayoutDestinationType.WALLET;
+  mobile: string;
+  name: string;
+  country?: string | undefined;
+  city?: string | undefined;
+}
+
+export type PayoutDestination = BankPayoutDestination | WalletPayoutDestination;
+
+/**
+ * # Payout
+ * A transfer from a payout account to a beneficiary.
+ * @see https://docs.moyasar.com/category/payouts-api
+ */
+export interface Payout<T extends object = Metadata>
+  extends HasAmount,
+    HasMetadata<T> {
+  id: string;
+  /**
+   * @description ID of the payout account funding this payout.
+   */
+  source_id: string;
+  /**
+   * @description A unique reference generated by the merchant, used to prevent duplicate payouts.
+   */
+  sequence_number: string;
+  /**
+   * @description Bank network used for the transfer, e.g. `internal`, `sarie` or `ips`.
+   */
+  channel: string | null;
+  status: PayoutStatus;
+  currency: CurrencyType;
+  purpose: PayoutPurpose;
+  comment: string | null;
+  destination: PayoutDestination;
+  message: string | null;
+  /**
+   * @description Reason of the failure, only set when the payout is `failed` or `returned`.
+   */
+  failure_reason: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreatePayoutRequest<T extends object = Metadata>
+  extends HasAmount,
+    HasMetadata<T> {
+  source_id: string;
+  sequence_number?: string | undefined;
+  purpose: PayoutPurpose;
+  comment?: string | undefined;
+  destination: PayoutDestination;
+}
+
+export interface BulkCreatePayoutRequest<T extends object = Metadata> {
+  source_id: string;
+  /**
+   * @description Max length is `PayoutLimits.MAX_BULK_PAYOUTS`
+   */
+  payouts: Omit<CreatePayoutRequest<T>, "source_id">[];
+}
+
+export interface BulkCreatePayoutsResponse<T extends object = Metadata> {
+  payouts: Payout<T>[];
+}
+
+export interface PayoutListOptions<T extends object = Metadata>
+  extends BaseListOptions,
+    HasMetadata<Partial<T>> {
+  source_id?: string | undefined;
+  status?: PayoutStatus | undefined;
+  "created[gt]"?: Date | undefined;
+  "created[lt]"?: Date | undefined;
+}
+
+export interface ListPayoutsResponse<T extends object = Metadata>
+  extends ListResponse<Payout<T>> {
+  payouts: Payout<T>[];
+}
+
+export interface PayoutAccountListOptions extends BaseListOptions {}
+
+export interface ListPayoutAccountsResponse
+  extends ListResponse<PayoutAccount> {
+  payout_accounts: PayoutAccount[];
+}
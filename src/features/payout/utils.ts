@@ -0,0 +1,200 @@
+import type { MetadataValidator, ValidationResult } from "@types";
+import type { z } from "zod";
+import type {
+  BulkCreatePayoutRequest,
+  BulkCreatePayoutsResponse,
+  CreatePayoutAccountRequest,
+  CreatePayoutRequest,
+  ListPayoutAccountsResponse,
+  ListPayoutsResponse,
+  Payout,
+  PayoutAccount,
+} from "./types";
+import { PayoutStatus } from "./enums";
+import {
+  BulkCreatePayoutSchema,
+  CreatePayoutAccountSchema,
+  CreatePayoutSchema,
+  PayoutAccountSchema,
+  PayoutSchema,
+  bulkCreatePayoutsResponseSchema,
+  listPayoutAccountsResponseSchema,
+  listPayoutsResponseSchema,
+} from "./validation/schemas";
+
+type PayoutUtilsParams<T extends object> = {
+  metadataValidator: MetadataValidator<T>;
+};
+
+export class PayoutUtils<T extends object> {
+  private readonly metadataValidator: MetadataValidator<T>;
+
+  constructor(p: PayoutUtilsParams<T>) {
+    this.metadataValidator = p.metadataValidator;
+  }
+
+  /**
+   * Validate payout creation request using Zod
+   */
+  validateCreatePayoutRequest(
+    request: CreatePayoutRequest<T>
+  ): ValidationResult<CreatePayoutRequest<T>> {
+    const result = CreatePayoutSchema.safeParse(request);
+
+    if (result.success) {
+      return {
+        success: true,
+        data: request,
+        errors: [],
+      };
+    }
+
+    return {
+      success: false,
+      errors: this.formatIssues(result.error),
+    };
+  }
+
+  /**
+   * Validate bulk payout creation request using Zod
+   */
+  validateBulkCreatePayoutRequest(
+    request: BulkCreatePayoutRequest<T>
+  ): ValidationResult<BulkCreatePayoutRequest<T>> {
+    const result = BulkCreatePayoutSchema.safeParse(request);
+
+    if (result.success) {
+      return {
+        success: true,
+        data: request,
+        errors: [],
+      };
+    }
+
+    const errors = result.error.issues.map(err => {
+      // Format array index errors more clearly
+      if (
+        err.path.length >= 2 &&
+        err.path[0] === "payouts" &&
+        typeof err.path[1] === "number"
+      ) {
+        const fieldPath = err.path.slice(2).join(".");
+        const fieldPrefix = fieldPath ? `${fieldPath}: ` : "";
+        return `Payout ${err.path[1] + 1}: ${fieldPrefix}${err.message}`;
+      }
+
+      const path = err.path.length > 0 ? `${err.path.join(".")}: ` : "";
+      return `${path}${err.message}`;
+    });
+
+    return {
+      success: false,
+      errors,
+    };
+  }
+
+  /**
+   * Validate payout account creation request using Zod
+   */
+  validateCreatePayoutAccountRequest(
+    request: CreatePayoutAccountRequest
+  ): ValidationResult<CreatePayoutAccountRequest> {
+    const result = CreatePayoutAccountSchema.safeParse(request);
+
+    if (result.success) {
+      return {
+        success: true,
+        data: result.data,
+        errors: [],
+      };
+    }
+
+    return {
+      success: false,
+      errors: this.formatIssues(result.error),
+    };
+  }
+
+  /**
+   * Check if payout is in a final state
+   */
+  isPayoutFinal(status: PayoutStatus): boolean {
+    const finalStatuses: PayoutStatus[] = [
+      PayoutStatus.PAID,
+      PayoutStatus.FAILED,
+      PayoutStatus.CANCELED,
+      PayoutStatus.RETURNED,
+    ];
+    return finalStatuses.includes(status);
+  }
+
+  /**
+   * Build metadata query parameters for filtering
+   */
+  buildMetadataQuery(
+    metadata: Partial<T>
+  ): Record<`metadata[${string}]`, string> {
+    const query: Record<`metadata[${string}]`, string> = {};
+
+    Object.entries(metadata).forEach(([key, value]) => {
+      if (value !== undefined) query[`metadata[${key}]`] = String(value);
+    });
+
+    return query;
+  }
+
+  /**
+   * Parse and validate a Payout response, ensuring all data types are correct
+   */
+  parsePayout(payout: unknown): Payout<T> {
+    const parsed = PayoutSchema.parse(payout);
+    const metadata = parsed.metadata
+      ? this.metadataValidator.parse(parsed.metadata)
+      : undefined;
+
+    return {
+      ...parsed,
+      metadata,
+    };
+  }
+
+  parseListPayoutsResponse(response: unknown): ListPayoutsResponse<T> {
+    const parsed = listPayoutsResponseSchema.parse(response);
+    const payouts = parsed.payouts.map(payout => this.parsePayout(payout));
+    return {
+      ...parsed,
+      payouts,
+    };
+  }
+
+  parseBulkCreatePayoutsResponse(
+    response: unknown
+  ): BulkCreatePayoutsResponse<T> {
+    const parsed = bulkCreatePayoutsResponseSchema.parse(response);
+    return {
+      payouts: parsed.payouts.map(payout => this.parsePayout(payout)),
+    };
+  }
+
+  /**
+   * Parse and validate a PayoutAccount response
+   */
+  parsePayoutAccount(account: unknown): PayoutAccount {
+    return PayoutAccountSchema.parse(account);
+  }
+
+  parseListPayoutAccountsResponse(
+    response: unknown
+  ): ListPayoutAccountsResponse {
+    return listPayoutAccountsResponseSchema.parse(response);
+  }
+
+  private formatIssues(error: z.ZodError): string[] {
+    return error.issues.map(err => {
+      const path = err.path.length > 0 ? `${err.path.join(".")}: ` : "";
+      return `${path}${err.message}`;
+    });
+  }
+}
+
+export * as PayoutSchemas from "./validation/schemas";
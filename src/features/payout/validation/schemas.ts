@@ -0,0 +1,139 @@
+import { z } from "zod";
+import type { AllKeys } from "@types";
+import {
+  amountSchema,
+  currencySchema,
+  paginationMetaSchema,
+} from "@validation";
+import { PaymentValidation } from "@payment";
+import {
+  PayoutAccountType,
+  PayoutDestinationType,
+  PayoutPurpose,
+  PayoutStatus,
+} from "../enums";
+import { PayoutLimits, PayoutValidation } from "../constants";
+import type {
+  BankPayoutDestination,
+  BulkCreatePayoutRequest,
+  CreatePayoutAccountRequest,
+  CreatePayoutRequest,
+  ListPayoutAccountsResponse,
+  ListPayoutsResponse,
+  Payout,
+  PayoutAccount,
+  WalletPayoutDestination,
+} from "../types";
+
+const BankPayoutDestinationSchema = z.object({
+  type: z.literal(PayoutDestinationType.BANK),
+  iban: z.string().regex(PayoutValidation.SAUDI_IBAN_REGEX, "Invalid IBAN"),
+  name: z.string().min(1, "Beneficiary name is required"),
+  mobile: z
+    .string()
+    .regex(
+      PaymentValidation.SAUDI_MOBILE_REGEX,
+      "Invalid Saudi mobile number format"
+    )
+    .optional(),
+  country: z.string().min(1, "Country is required"),
+  city: z.string().min(1, "City is required"),
+} satisfies AllKeys<BankPayoutDestination>);
+
+const WalletPayoutDestinationSchema = z.object({
+  type: z.literal(PayoutDestinationType.WALLET),
+  mobile: z
+    .string()
+    .regex(
+      PaymentValidation.SAUDI_MOBILE_REGEX,
+      "Invalid Saudi mobile number format"
+    ),
+  name: z.string().min(1, "Beneficiary name is required"),
+  country: z.string().optional(),
+  city: z.string().optional(),
+} satisfies AllKeys<WalletPayoutDestination>);
+
+const PayoutDestinationSchema = z.discriminatedUnion("type", [
+  BankPayoutDestinationSchema,
+  WalletPayoutDestinationSchema,
+]);
+
+export const PayoutAccountSchema = z.object({
+  id: z.string(),
+  account_type: z.enum(PayoutAccountType),
+  currency: currencySchema,
+  properties: z.record(z.string(), z.string()),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+} satisfies AllKeys<PayoutAccount>);
+
+export const CreatePayoutAccountSchema = z.object({
+  account_type: z.enum(PayoutAccountType),
+  properties: z.object({
+    iban: z.string().regex(PayoutValidation.SAUDI_IBAN_REGEX, "Invalid IBAN"),
+  }),
+  credentials: z.record(z.string(), z.string()),
+} satisfies AllKeys<CreatePayoutAccountRequest>);
+
+export const PayoutSchema = z.object({
+  id: z.string(),
+  source_id: z.string(),
+  sequence_number: z.string(),
+  channel: z.string().nullable(),
+  status: z.enum(PayoutStatus),
+  amount: amountSchema,
+  currency: currencySchema,
+  purpose: z.enum(PayoutPurpose),
+  comment: z.string().nullable(),
+  destination: PayoutDestinationSchema,
+  message: z.string().nullable(),
+  failure_reason: z.string().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+  metadata: z.record(z.string(), z.string()).nullable(),
+} satisfies AllKeys<Payout>);
+
+const BulkPayoutItemSchema = z.object({
+  sequence_number: z.string().min(1).optional(),
+  amount: amountSchema,
+  purpose: z.enum(PayoutPurpose),
+  comment: z
+    .string()
+    .max(
+      PayoutLimits.COMMENT_MAX_LENGTH,
+      `Comment must be less than ${PayoutLimits.COMMENT_MAX_LENGTH} characters`
+    )
+    .optional(),
+  destination: PayoutDestinationSchema,
+  metadata: z.record(z.string(), z.string()).optional(),
+});
+
+export const CreatePayoutSchema = z.object({
+  ...BulkPayoutItemSchema.shape,
+  source_id: z.string().min(1, "Source ID is required"),
+} satisfies AllKeys<CreatePayoutRequest>);
+
+export const BulkCreatePayoutSchema = z.object({
+  source_id: z.string().min(1, "Source ID is required"),
+  payouts: z
+    .array(BulkPayoutItemSchema)
+    .min(1, "At least one payout is required")
+    .max(
+      PayoutLimits.MAX_BULK_PAYOUTS,
+      `Maximum of ${PayoutLimits.MAX_BULK_PAYOUTS} payouts allowed per bulk request`
+    ),
+} satisfies AllKeys<BulkCreatePayoutRequest>);
+
+export const listPayoutsResponseSchema = z.object({
+  payouts: z.array(z.unknown()),
+  meta: paginationMetaSchema,
+} satisfies AllKeys<ListPayoutsResponse>);
+
+export const listPayoutAccountsResponseSchema = z.object({
+  payout_accounts: z.array(PayoutAccountSchema),
+  meta: paginationMetaSchema,
+} satisfies AllKeys<ListPayoutAccountsResponse>);
+
+export const bulkCreatePayoutsResponseSchema = z.object({
+  payouts: z.array(z.unknown()),
+});
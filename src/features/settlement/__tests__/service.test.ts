@@ -0,0 +1,202 @@
+import {
+  SettlementError,
+  SettlementLineType,
+  SettlementService,
+  SettlementUtils,
+  type SettlementLine,
+} from "@settlement";
+import {
+  CardScheme,
+  PaymentSource,
+  PaymentStatus,
+  type Payment,
+} from "@payment";
+import { API_ENDPOINTS } from "@constants";
+import type { ApiClient, Metadata } from "@types";
+import { describe, expect, beforeEach, mock, it } from "bun:test";
+
+const createMockPayment = (overrides: Partial<Payment> = {}): Payment => ({
+  id: "pay_123",
+  status: PaymentStatus.PAID,
+  amount: 5000,
+  fee: 100,
+  currency: "SAR",
+  refunded: 0,
+  refunded_at: null,
+  captured: 5000,
+  captured_at: new Date("2030-01-01T00:00:00Z"),
+  voided_at: null,
+  description: "Test payment",
+  amount_format: "50.00 SAR",
+  fee_format: "1.00 SAR",
+  refunded_format: "0.00 SAR",
+  captured_format: "50.00 SAR",
+  invoice_id: null,
+  ip: "127.0.0.1",
+  callback_url: "https://example.com/callback",
+  created_at: new Date("2030-01-01T00:00:00Z"),
+  updated_at: new Date("2030-01-01T00:00:00Z"),
+  metadata: {},
+  source: {
+    type: PaymentSource.CREDITCARD,
+    company: CardScheme.VISA,
+    name: "Test User",
+    number: "4111111111111111",
+    gateway_id: "gateway_123",
+    message: null,
+    reference_number: null,
+    transaction_url: null,
+  },
+  ...overrides,
+});
+
+const createMockLine = (
+  overrides: Partial<SettlementLine> = {}
+): SettlementLine => ({
+  id: "line_1",
+  settlement_id: "stl_123",
+  type: SettlementLineType.PAYMENT,
+  payment_id: "pay_123",
+  currency: "SAR",
+  amount: 5000,
+  fee: 100,
+  tax: 15,
+  net_amount: 4885,
+  created_at: new Date("2030-01-02T00:00:00Z"),
+  ...overrides,
+});
+
+const createMockSettlement = () => ({
+  id: "stl_123",
+  recipient_type: "Entity",
+  recipient_id: "ent_123",
+  currency: "SAR",
+  amount: 5000,
+  fee: 100,
+  tax: 15,
+  net_amount: 4885,
+  settlement_count: 1,
+  reference: null,
+  invoice_url: null,
+  created_at: "2030-01-02T00:00:00.000Z",
+  updated_at: "2030-01-02T00:00:00.000Z",
+});
+
+const meta = (next_page: number | null) => ({
+  current_page: 1,
+  next_page,
+  prev_page: null,
+  total_pages: 2,
+  total_count: 2,
+});
+
+describe("SettlementService", () => {
+  const mockApiClient: ApiClient<{ metadata: Metadata }> = {
+    request: mock().mockResolvedValue({}),
+    metadataValidator: {
+      parse: payload => payload,
+    },
+  };
+  let settlementService = new SettlementService({ apiClient: mockApiClient });
+
+  beforeEach(() => {
+    mockApiClient.request = mock().mockResolvedValue({});
+    settlementService = new SettlementService({ apiClient: mockApiClient });
+  });
+
+  it("should list settlements with date filters", async () => {
+    (mockApiClient.request as any).mockResolvedValue({
+      settlements: [createMockSettlement()],
+      meta: meta(null),
+    });
+
+    const response = await settlementService.list({
+      "created[gt]": new Date("2030-01-01T00:00:00.000Z"),
+    });
+
+    expect(response.settlements[0]!.created_at).toBeInstanceOf(Date);
+    expect(mockApiClient.request as any).toHaveBeenCalledWith({
+      method: "GET",
+      url: API_ENDPOINTS.settlements,
+      params: { "created[gt]": "2030-01-01T00:00:00.000Z" },
+    });
+  });
+
+  it("should retrieve a settlement", async () => {
+    (mockApiClient.request as any).mockResolvedValue(createMockSettlement());
+
+    const settlement = await settlementService.retrieve("stl_123");
+
+    expect(settlement.tax).toBe(15);
+    await expect(settlementService.retrieve("")).rejects.toThrow(
+      SettlementError
+    );
+  });
+
+  it("should fetch every line page and reconcile them", async () => {
+    (mockApiClient.request as any)
+      .mockResolvedValueOnce({
+        lines: [createMockLine()],
+        meta: meta(2),
+      })
+      .mockResolvedValueOnce({
+        lines: [createMockLine({ id: "line_2", payment_id: "pay_unknown" })],
+        meta: meta(null),
+      });
+
+    const result = await settlementService.reconcile("stl_123", [
+      createMockPayment(),
+    ]);
+
+    expect(mockApiClient.request as any).toHaveBeenCalledTimes(2);
+    expect((mockApiClient.request as any).mock.calls[1][0]).toEqual({
+      method: "GET",
+      url: `${API_ENDPOINTS.settlements}/stl_123/lines`,
+      params: { page: 2 },
+    });
+    expect(result.matched).toHaveLength(1);
+    expect(result.matched[0]!.amountMatches).toBe(true);
+    expect(result.unmatchedLines.map(l => l.id)).toEqual(["line_2"]);
+    expect(result.totals).toEqual({
+      amount: 10000,
+      fee: 200,
+      tax: 30,
+      net_amount: 9770,
+    });
+  });
+});
+
+describe("SettlementUtils.reconcile", () => {
+  it("should flag lines whose amount differs from the payment", () => {
+    const result = SettlementUtils.reconcile(
+      [createMockLine({ amount: 4000 })],
+      [createMockPayment()]
+    );
+
+    expect(result.matched[0]!.amountMatches).toBe(false);
+  });
+
+  it("should match refund lines against the refunded amount", () => {
+    const result = SettlementUtils.reconcile(
+      [createMockLine({ type: SettlementLineType.REFUND, amount: -2000 })],
+      [createMockPayment({ refunded: 2000 })]
+    );
+
+    expect(result.matched[0]!.amountMatches).toBe(true);
+  });
+
+  it("should not match lines without a payment ID", () => {
+    const result = SettlementUtils.reconcile(
+      [
+        createMockLine({
+          type: SettlementLineType.ADJUSTMENT,
+          payment_id: null,
+        }),
+      ],
+      [createMockPayment()]
+    );
+
+    expect(result.matched).toHaveLength(0);
+    expect(result.unmatchedLines).toHaveLength(1);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * @description Kind of transaction a settlement line comes from.
+ * @values `payment`, `refund`, `chargeback`, `adjustment`
+ * @see https://docs.moyasar.com/category/settlements-api
+ */
+export const SettlementLineType = {
+  /**
+   * ## Payment
+   * A captured payment credited to the merchant.
+   */
+  PAYMENT: "payment",
+  /**
+   * ## Refund
+   * A refund deducted from the settlement.
+   */
+  REFUND: "refund",
+  /**
+   * ## Chargeback
+   * A disputed payment deducted from the settlement.
+   */
+  CHARGEBACK: "chargeback",
+  /**
+   * ## Adjustment
+   * A manual correction made by Moyasar.
+   */
+  ADJUSTMENT: "adjustment",
+} as const;
+
+export type SettlementLineType =
+  (typeof SettlementLineType)[keyof typeof SettlementLineType];
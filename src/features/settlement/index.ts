@@ -0,0 +1,15 @@
+export { SettlementLineType } from "./enums";
+export type {
+  Settlement,
+  SettlementLine,
+  SettlementTotals,
+  SettlementListOptions,
+  SettlementLineListOptions,
+  ListSettlementsResponse,
+  ListSettlementLinesResponse,
+  ReconciledSettlementLine,
+  SettlementReconciliation,
+} from "./types";
+export * from "./errors";
+export { SettlementUtils } from "./utils";
+export { SettlementService } from "./service";
@@ -0,0 +1,221 @@
+import type {
+  ApiClient,
+  AutoPaginationOptions,
+  MoyasarClientTypes,
+} from "@types";
+import { API_ENDPOINTS } from "@constants";
+import { MoyasarError } from "@errors";
+import { PaginationUtils } from "../../shared/utils/pagination.utils";
+import type { Payment } from "@payment";
+import type {
+  ListSettlementLinesResponse,
+  ListSettlementsResponse,
+  Settlement,
+  SettlementLine,
+  SettlementLineListOptions,
+  SettlementListOptions,
+  SettlementReconciliation,
+} from "./types";
+import { SettlementUtils } from "./utils";
+import { SettlementError } from "./errors";
+
+type SettlementServiceParams<T extends MoyasarClientTypes> = {
+  apiClient: ApiClient<T>;
+};
+
+export class SettlementService<T extends MoyasarClientTypes> {
+  private readonly apiClient: ApiClient<T>;
+
+  constructor(p: SettlementServiceParams<T>) {
+    this.apiClient = p.apiClient;
+  }
+
+  /**
+   * List settlements with optional filtering
+   */
+  async list(
+    options: SettlementListOptions = {}
+  ): Promise<ListSettlementsResponse> {
+    try {
+      const response = await this.apiClient.request<unknown>({
+        method: "GET",
+        url: API_ENDPOINTS.settlements,
+        params: this.parseBody(options),
+      });
+
+      return SettlementUtils.parseListSettlementsResponse(response);
+    } catch (error) {
+      const settlementError = this.handleError(
+        error,
+        "Failed to list settlements"
+      );
+      throw settlementError;
+    }
+  }
+
+  /**
+   * Iterate over every settlement matching the filters, fetching pages as they are consumed
+   *
+   * @example
+   * ```ts
+   * for await (const settlement of client.settlement.iterate({ "created[gt]": from })) {
+   *   console.log(settlement.id);
+   * }
+   * ```
+   */
+  iterate(
+    options: SettlementListOptions & AutoPaginationOptions = {}
+  ): AsyncGenerator<Settlement, void, undefined> {
+    const { maxItems, prefetch, page: startPage, ...filters } = options;
+
+    return PaginationUtils.iterate({
+      fetchPage: page => this.list({ ...filters, page }),
+      getItems: response => response.settlements,
+      startPage,
+      maxItems,
+      prefetch,
+    });
+  }
+
+  /**
+   * List every settlement matching the filters, across all pages
+   */
+  async listAll(
+    options: SettlementListOptions & AutoPaginationOptions = {}
+  ): Promise<Settlement[]> {
+    return PaginationUtils.collect(this.iterate(options));
+  }
+
+  /**
+   * Retrieve a specific settlement
+   */
+  async retrieve(settlementId: string): Promise<Settlement> {
+    if (!settlementId) {
+      throw new SettlementError("Settlement ID is required", 400);
+    }
+
+    try {
+      const response = await this.apiClient.request<unknown>({
+        method: "GET",
+        url: `${API_ENDPOINTS.settlements}/${settlementId}`,
+      });
+
+      return SettlementUtils.parseSettlement(response);
+    } catch (error) {
+      const settlementError = this.handleError(
+        error,
+        `Failed to retrieve settlement ${settlementId}`
+      );
+      throw settlementError;
+    }
+  }
+
+  /**
+   * List the lines (payments, refunds, ...) of a settlement
+   */
+  async lines(
+    settlementId: string,
+    options: SettlementLineListOptions = {}
+  ): Promise<ListSettlementLinesResponse> {
+    if (!settlementId) {
+      throw new SettlementError("Settlement ID is required", 400);
+    }
+
+    try {
+      const response = await this.apiClient.request<unknown>({
+        method: "GET",
+        url: `${API_ENDPOINTS.settlements}/${settlementId}/lines`,
+        params: options,
+      });
+
+      return SettlementUtils.parseListSettlementLinesResponse(response);
+    } catch (error) {
+      const settlementError = this.handleError(
+        error,
+        `Failed to list lines of settlement ${settlementId}`
+      );
+      throw settlementError;
+    }
+  }
+
+  /**
+   * Iterate over the lines of a settlement, fetching pages as they are consumed
+   */
+  iterateLines(
+    settlementId: string,
+    options: SettlementLineListOptions & AutoPaginationOptions = {}
+  ): AsyncGenerator<SettlementLine, void, undefined> {
+    const { maxItems, prefetch, page: startPage, ...filters } = options;
+
+    return PaginationUtils.iterate({
+      fetchPage: page => this.lines(settlementId, { ...filters, page }),
+      getItems: response => response.lines,
+      startPage,
+      maxItems,
+      prefetch,
+    });
+  }
+
+  /**
+   * Fetch every line of a settlement, walking through all pages
+   */
+  async allLines(
+    settlementId: string,
+    options: SettlementLineListOptions & AutoPaginationOptions = {}
+  ): Promise<SettlementLine[]> {
+    return PaginationUtils.collect(this.iterateLines(settlementId, options));
+  }
+
+  /**
+   * Match the lines of a settlement with the given payments
+   *
+   * @example
+   * ```ts
+   * const { payments } = await client.payment.list({ "created[gt]": from });
+   * const result = await client.settlement.reconcile(settlementId, payments);
+   * result.unmatchedLines; // lines without a payment in `payments`
+   * ```
+   */
+  async reconcile(
+    settlementId: string,
+    payments: Payment<T["metadata"]>[]
+  ): Promise<SettlementReconciliation<T["metadata"]>> {
+    const lines = await this.allLines(settlementId);
+    return SettlementUtils.reconcile(lines, payments);
+  }
+
+  private handleError(error: any, message: string): SettlementError {
+    if (error instanceof SettlementError) return error;
+
+    if (error instanceof MoyasarError) {
+      return new SettlementError(
+        `${message}: ${error.message}`,
+        error.statusCode,
+        { ...error.details },
+        { cause: error }
+      );
+    }
+
+    const errorMessage = error?.message || error?.toString() || "Unknown error";
+    return new SettlementError(
+      `${message}: ${errorMessage}`,
+      500,
+      { cause: errorMessage },
+      { cause: error }
+    );
+  }
+
+  protected parseBody(p: object): Record<string, string> {
+    const copied = { ...p };
+    Object.entries(copied).forEach(([key, value]) => {
+      if (typeof value === "object") {
+        if (value instanceof Date) {
+          // @ts-expect-error
+          copied[key] = value.toISOString();
+        }
+      }
+    });
+
+    return copied;
+  }
+}
@@ -0,0 +1,116 @@
+import type {
+  Amount,
+  BaseListOptions,
+  CurrencyType,
+  HasAmount,
+  ListResponse,
+  Metadata,
+} from "@types";
+import type { Payment } from "@payment";
+import type { SettlementLineType } from "./enums";
+
+export interface HasFees {
+  /**
+   * @description Moyasar fees deducted, in the smallest currency unit, excluding VAT.
+   */
+  fee: Amount;
+  /**
+   * @description VAT charged on the fees, in the smallest currency unit.
+   */
+  tax: Amount;
+}
+
+/**
+ * # Settlement
+ * A transfer of collected funds to the merchant bank account.
+ * @note Moyasar sends the `balance_transferred` webhook event when a settlement is created.
+ * @see https://docs.moyasar.com/category/settlements-api
+ */
+export interface Settlement extends HasAmount, HasFees {
+  id: string;
+  recipient_type: string;
+  recipient_id: string;
+  currency: CurrencyType;
+  /**
+   * @description Amount transferred to the bank account after fees and VAT.
+   */
+  net_amount: Amount;
+  /**
+   * @description Number of lines (payments, refunds, ...) included in the settlement.
+   */
+  settlement_count: number;
+  /**
+   * @description Bank transfer reference, if available.
+   */
+  reference: string | null;
+  /**
+   * @description URL of the tax invoice for the settlement fees.
+   */
+  invoice_url: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * # Settlement Line
+ * A single transaction included in a settlement.
+ */
+export interface SettlementLine extends HasAmount, HasFees {
+  id: string;
+  settlement_id: string;
+  type: SettlementLineType;
+  /**
+   * @description ID of the payment the line comes from.
+   */
+  payment_id: string | null;
+  currency: CurrencyType;
+  /**
+   * @description Line amount after fees and VAT.
+   */
+  net_amount: Amount;
+  created_at: Date;
+}
+
+export interface SettlementListOptions extends BaseListOptions {
+  "created[gt]"?: Date | undefined;
+  "created[lt]"?: Date | undefined;
+}
+
+export interface SettlementLineListOptions extends BaseListOptions {}
+
+export interface ListSettlementsResponse extends ListResponse<Settlement> {
+  settlements: Settlement[];
+}
+
+export interface ListSettlementLinesResponse
+  extends ListResponse<SettlementLine> {
+  lines: SettlementLine[];
+}
+
+export interface SettlementTotals extends HasAmount, HasFees {
+  net_amount: Amount;
+}
+
+export interface ReconciledSettlementLine<T extends object = Metadata> {
+  line: SettlementLine;
+  payment: Payment<T>;
+  /**
+   * @description Whether the line amount matches the captured (or refunded) amount of the payment.
+   */
+  amountMatches: boolean;
+}
+
+export interface SettlementReconciliation<T extends object = Metadata> {
+  /**
+   * @description Lines matched with their payment.
+   */
+  matched: ReconciledSettlementLine<T>[];
+  /**
+   * @description Lines without a matching payment in the given list.
+   */
+  unmatchedLines: SettlementLine[];
+  /**
+   * @description Sum of all the settlement lines.
+   */
+  totals: SettlementTotals;
+}
@@ -0,0 +1,106 @@
+import type { Payment } from "@payment";
+import type {
+  ListSettlementLinesResponse,
+  ListSettlementsResponse,
+  Settlement,
+  SettlementLine,
+  SettlementReconciliation,
+  SettlementTotals,
+} from "./types";
+import { SettlementLineType } from "./enums";
+import {
+  SettlementSchema,
+  listSettlementLinesResponseSchema,
+  listSettlementsResponseSchema,
+} from "./validation/schemas";
+
+export class SettlementUtils {
+  /**
+   * Parse and validate a Settlement response, ensuring all data types are correct
+   */
+  static parseSettlement(settlement: unknown): Settlement {
+    return SettlementSchema.parse(settlement);
+  }
+
+  static parseListSettlementsResponse(
+    response: unknown
+  ): ListSettlementsResponse {
+    return listSettlementsResponseSchema.parse(response);
+  }
+
+  static parseListSettlementLinesResponse(
+    response: unknown
+  ): ListSettlementLinesResponse {
+    return listSettlementLinesResponseSchema.parse(response);
+  }
+
+  /**
+   * Sum amounts, fees and VAT of settlement lines
+   */
+  static calculateTotals(lines: SettlementLine[]): SettlementTotals {
+    return lines.reduce<SettlementTotals>(
+      (totals, line) => ({
+        amount: totals.amount + line.amount,
+        fee: totals.fee + line.fee,
+        tax: totals.tax + line.tax,
+        net_amount: totals.net_amount + line.net_amount,
+      }),
+      { amount: 0, fee: 0, tax: 0, net_amount: 0 }
+    );
+  }
+
+  /**
+   * Match each settlement line with its payment, e.g. payments fetched using `PaymentService.list`
+   */
+  static reconcile<T extends object>(
+    lines: SettlementLine[],
+    payments: Payment<T>[]
+  ): SettlementReconciliation<T> {
+    const paymentsById = new Map(payments.map(p => [p.id, p]));
+    const reconciliation: SettlementReconciliation<T> = {
+      matched: [],
+      unmatchedLines: [],
+      totals: SettlementUtils.calculateTotals(lines),
+    };
+
+    for (const line of lines) {
+      const payment = line.payment_id
+        ? paymentsById.get(line.payment_id)
+        : undefined;
+
+      if (!payment) {
+        reconciliation.unmatchedLines.push(line);
+        continue;
+      }
+
+      reconciliation.matched.push({
+        line,
+        payment,
+        amountMatches: SettlementUtils.lineMatchesPayment(line, payment),
+      });
+    }
+
+    return reconciliation;
+  }
+
+  /**
+   * Check if the line amount agrees with the payment it comes from
+   */
+  static lineMatchesPayment<T extends object>(
+    line: SettlementLine,
+    payment: Payment<T>
+  ): boolean {
+    const amount = Math.abs(line.amount);
+
+    switch (line.type) {
+      case SettlementLineType.PAYMENT:
+        return amount === payment.captured;
+      case SettlementLineType.REFUND:
+        return amount > 0 && amount <= payment.refunded;
+      default:
+        return amount <= payment.amount;
+    }
+  }
+}
+
+export * as SettlementSchemas from "./validation/schemas";
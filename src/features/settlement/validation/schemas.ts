@@ -0,0 +1,49 @@
+import { z } from "zod";
+import type { AllKeys } from "@types";
+import { currencySchema, paginationMetaSchema } from "@validation";
+import { SettlementLineType } from "../enums";
+import type {
+  ListSettlementLinesResponse,
+  ListSettlementsResponse,
+  Settlement,
+  SettlementLine,
+} from "../types";
+
+export const SettlementSchema = z.object({
+  id: z.string(),
+  recipient_type: z.string(),
+  recipient_id: z.string(),
+  currency: currencySchema,
+  amount: z.number().int(),
+  fee: z.number().int(),
+  tax: z.number().int(),
+  net_amount: z.number().int(),
+  settlement_count: z.number().int().min(0),
+  reference: z.string().nullable(),
+  invoice_url: z.url().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+} satisfies AllKeys<Settlement>);
+
+export const SettlementLineSchema = z.object({
+  id: z.string(),
+  settlement_id: z.string(),
+  type: z.enum(SettlementLineType),
+  payment_id: z.string().nullable(),
+  currency: currencySchema,
+  amount: z.number().int(),
+  fee: z.number().int(),
+  tax: z.number().int(),
+  net_amount: z.number().int(),
+  created_at: z.coerce.date(),
+} satisfies AllKeys<SettlementLine>);
+
+export const listSettlementsResponseSchema = z.object({
+  settlements: z.array(SettlementSchema),
+  meta: paginationMetaSchema,
+} satisfies AllKeys<ListSettlementsResponse>);
+
+export const listSettlementLinesResponseSchema = z.object({
+  lines: z.array(SettlementLineSchema),
+  meta: paginationMetaSchema,
+} satisfies AllKeys<ListSettlementLinesResponse>);
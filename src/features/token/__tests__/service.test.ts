@@ -0,0 +1,178 @@
+import {
+  TokenError,
+  TokenService,
+  TokenStatus,
+  type CreateTokenRequest,
+} from "@token";
+import { CardScheme, CardType } from "@payment";
+import { API_ENDPOINTS } from "@constants";
+import { MoyasarError } from "@errors";
+import type { ApiClient } from "@types";
+import { describe, expect, beforeEach, mock, it } from "bun:test";
+import z from "zod";
+
+const metadataSchema = z.object({
+  customer_id: z.string(),
+});
+
+const createMockToken = (overrides: Record<string, unknown> = {}) => ({
+  id: "token_yb4bxhQYcS2P6Ho2Hd4Z6zcGrY",
+  status: TokenStatus.ACTIVE,
+  brand: CardScheme.VISA,
+  funding: CardType.CREDIT,
+  country: "SA",
+  month: "09",
+  year: "2030",
+  name: "Mohammed Ali",
+  last_four: "1111",
+  metadata: { customer_id: "cus_123" },
+  message: null,
+  verification_url: null,
+  created_at: "2030-01-01T00:00:00.000Z",
+  updated_at: "2030-01-01T00:00:00.000Z",
+  ...overrides,
+});
+
+describe("TokenService", () => {
+  const mockApiClient: ApiClient<{
+    metadata: z.infer<typeof metadataSchema>;
+  }> = {
+    request: mock().mockResolvedValue({}),
+    metadataValidator: {
+      parse: metadataSchema.parse,
+    },
+  };
+  let tokenService = new TokenService({ apiClient: mockApiClient });
+
+  beforeEach(() => {
+    mockApiClient.request = mock().mockResolvedValue({});
+    tokenService = new TokenService({ apiClient: mockApiClient });
+  });
+
+  describe("create", () => {
+    const validCreateRequest: CreateTokenRequest<
+      z.infer<typeof metadataSchema>
+    > = {
+      name: "Mohammed Ali",
+      number: "4111111111111111",
+      month: 9,
+      year: 2030,
+      cvc: "123",
+      callback_url: "https://example.com/callback",
+      metadata: { customer_id: "cus_123" },
+    };
+
+    it("should create a token and parse the response", async () => {
+      (mockApiClient.request as any).mockResolvedValue(
+        createMockToken({ status: TokenStatus.INITIATED })
+      );
+
+      const token = await tokenService.create(validCreateRequest);
+
+      expect(token.status).toBe(TokenStatus.INITIATED);
+      expect(token.created_at).toBeInstanceOf(Date);
+      expect(token.metadata).toEqual({ customer_id: "cus_123" });
+      expect(mockApiClient.request as any).toHaveBeenCalledWith({
+        method: "POST",
+        url: API_ENDPOINTS.tokens,
+        data: validCreateRequest,
+      });
+    });
+
+    it("should reject invalid requests before calling the API", async () => {
+      await expect(
+        tokenService.create({ ...validCreateRequest, cvc: "12" })
+      ).rejects.toThrow("Validation failed: cvc: CVC must be 3-4 digits");
+      expect(mockApiClient.request as any).not.toHaveBeenCalled();
+    });
+
+    it("should wrap API errors and keep the status code", async () => {
+      (mockApiClient.request as any).mockRejectedValue(
+        new MoyasarError("Invalid card", "invalid_request_error", 400, {})
+      );
+
+      const promise = tokenService.create(validCreateRequest);
+
+      await expect(promise).rejects.toBeInstanceOf(TokenError);
+      await expect(promise).rejects.toMatchObject({
+        statusCode: 400,
+        message: "Failed to create token: Invalid card",
+      });
+    });
+
+    it("should fail on malformed responses", async () => {
+      (mockApiClient.request as any).mockResolvedValue(
+        createMockToken({ id: "pay_123" })
+      );
+
+      await expect(tokenService.create(validCreateRequest)).rejects.toThrow(
+        TokenError
+      );
+    });
+  });
+
+  describe("retrieve", () => {
+    it("should retrieve a token", async () => {
+      (mockApiClient.request as any).mockResolvedValue(createMockToken());
+
+      const token = await tokenService.retrieve("token_123");
+
+      expect(token.last_four).toBe("1111");
+      expect(mockApiClient.request as any).toHaveBeenCalledWith({
+        method: "GET",
+        url: `${API_ENDPOINTS.tokens}/token_123`,
+      });
+    });
+
+    it("should require a token ID", async () => {
+      await expect(tokenService.retrieve("")).rejects.toThrow(
+        "Token ID is required"
+      );
+    });
+  });
+
+  describe("delete", () => {
+    it("should delete a token", async () => {
+      await tokenService.delete("token_123");
+
+      expect(mockApiClient.request as any).toHaveBeenCalledWith({
+        method: "DELETE",
+        url: `${API_ENDPOINTS.tokens}/token_123`,
+      });
+    });
+
+    it("should require a token ID", async () => {
+      await expect(tokenService.delete("")).rejects.toThrow(
+        "Token ID is required"
+      );
+    });
+  });
+
+  describe("searchByMetadata", () => {
+    it("should send metadata filters as query parameters", async () => {
+      (mockApiClient.request as any).mockResolvedValue({
+        tokens: [createMockToken()],
+        meta: {
+          current_page: 1,
+          next_page: null,
+          prev_page: null,
+          total_pages: 1,
+          total_count: 1,
+        },
+      });
+
+      const response = await tokenService.searchByMetadata(
+        { customer_id: "cus_123" },
+        { page: 1 }
+      );
+
+      expect(response.tokens).toHaveLength(1);
+      expect(response.tokens[0]!.updated_at).toBeInstanceOf(Date);
+      expect(mockApiClient.request as any).toHaveBeenCalledWith({
+        method: "GET",
+        url: API_ENDPOINTS.tokens,
+        params: { page: 1, "metadata[customer_id]": "cus_123" },
+      });
+    });
+  });
+});
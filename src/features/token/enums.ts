@@ -0,0 +1,25 @@
+/**
+ * @description Indicates the token status. A token is `initiated` until the cardholder completes the verification (3DS) found in `Token.verification_url`.
+ * @values `initiated`, `active`, `inactive`
+ * @see https://docs.moyasar.com/api/tokens/01-create-token
+ */
+export const TokenStatus = {
+  /**
+   * ## Initiated
+   * The token has been created but the card is not verified yet.
+   * @hint Redirect the cardholder to `Token.verification_url` to verify the card.
+   */
+  INITIATED: "initiated",
+  /**
+   * ## Active
+   * The card has been verified and the token can be used to create payments.
+   */
+  ACTIVE: "active",
+  /**
+   * ## Inactive
+   * The token can no longer be used, e.g. it was deleted or the verification failed.
+   */
+  INACTIVE: "inactive",
+} as const;
+
+export type TokenStatus = (typeof TokenStatus)[keyof typeof TokenStatus];
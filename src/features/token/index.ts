@@ -0,0 +1,10 @@
+export { TokenStatus } from "./enums";
+export type {
+  Token,
+  CreateTokenRequest,
+  TokenListOptions,
+  ListTokensResponse,
+} from "./types";
+export * from "./errors";
+export { TokenUtils } from "./utils";
+export { TokenService } from "./service";
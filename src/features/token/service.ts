@@ -0,0 +1,204 @@
+import type {
+  ApiClient,
+  AutoPaginationOptions,
+  MoyasarClientTypes,
+} from "@types";
+import { API_ENDPOINTS } from "@constants";
+import { MoyasarError } from "@errors";
+import { PaginationUtils } from "../../shared/utils/pagination.utils";
+import type {
+  CreateTokenRequest,
+  ListTokensResponse,
+  Token,
+  TokenListOptions,
+} from "./types";
+import { TokenUtils } from "./utils";
+import { TokenError } from "./errors";
+
+type TokenServiceParams<T extends MoyasarClientTypes> = {
+  apiClient: ApiClient<T>;
+};
+
+export class TokenService<T extends MoyasarClientTypes> {
+  private readonly apiClient: ApiClient<T>;
+  private readonly tokenUtils: TokenUtils<T["metadata"]>;
+
+  constructor(p: TokenServiceParams<T>) {
+    this.apiClient = p.apiClient;
+    this.tokenUtils = new TokenUtils({
+      metadataValidator: p.apiClient.metadataValidator,
+    });
+  }
+
+  /**
+   * Create a new token (save a card)
+   */
+  async create(
+    params: CreateTokenRequest<T["metadata"]>
+  ): Promise<Token<T["metadata"]>> {
+    // Validate input
+    const validation = this.tokenUtils.validateCreateTokenRequest(params);
+    if (!validation.success) {
+      throw new TokenError(
+        `Validation failed: ${validation.errors.join(", ")}`,
+        400
+      );
+    }
+
+    try {
+      const response = await this.apiClient.request<unknown>({
+        method: "POST",
+        url: API_ENDPOINTS.tokens,
+        data: params,
+      });
+
+      return this.tokenUtils.parseToken(response);
+    } catch (error) {
+      const tokenError = this.handleError(error, "Failed to create token");
+      throw tokenError;
+    }
+  }
+
+  /**
+   * List tokens with optional filtering
+   */
+  async list(
+    options: TokenListOptions<T["metadata"]> = {}
+  ): Promise<ListTokensResponse<T["metadata"]>> {
+    try {
+      // Convert metadata filters to proper query format
+      const queryParams = this.parseBody(options);
+      const response = await this.apiClient.request<unknown>({
+        method: "GET",
+        url: API_ENDPOINTS.tokens,
+        params: queryParams,
+      });
+
+      return this.tokenUtils.parseListTokensResponse(response);
+    } catch (error) {
+      const tokenError = this.handleError(error, "Failed to list tokens");
+      throw tokenError;
+    }
+  }
+
+  /**
+   * Iterate over every token matching the filters, fetching pages as they are consumed
+   *
+   * @example
+   * ```ts
+   * for await (const token of client.token.iterate({ metadata: { customer_id } })) {
+   *   console.log(token.id);
+   * }
+   * ```
+   */
+  iterate(
+    options: TokenListOptions<T["metadata"]> & AutoPaginationOptions = {}
+  ): AsyncGenerator<Token<T["metadata"]>, void, undefined> {
+    const { maxItems, prefetch, page: startPage, ...filters } = options;
+
+    return PaginationUtils.iterate({
+      fetchPage: page => this.list({ ...filters, page }),
+      getItems: response => response.tokens,
+      startPage,
+      maxItems,
+      prefetch,
+    });
+  }
+
+  /**
+   * List every token matching the filters, across all pages
+   */
+  async listAll(
+    options: TokenListOptions<T["metadata"]> & AutoPaginationOptions = {}
+  ): Promise<Token<T["metadata"]>[]> {
+    return PaginationUtils.collect(this.iterate(options));
+  }
+
+  /**
+   * Retrieve a specific token
+   */
+  async retrieve(tokenId: string): Promise<Token<T["metadata"]>> {
+    if (!tokenId) throw new TokenError("Token ID is required", 400);
+
+    try {
+      const response = await this.apiClient.request<unknown>({
+        method: "GET",
+        url: `${API_ENDPOINTS.tokens}/${tokenId}`,
+      });
+
+      // Parse and validate the response
+      return this.tokenUtils.parseToken(response);
+    } catch (error) {
+      const tokenError = this.handleError(
+        error,
+        `Failed to retrieve token ${tokenId}`
+      );
+      throw tokenError;
+    }
+  }
+
+  /**
+   * Delete a token, the saved card can no longer be used for payments
+   */
+  async delete(tokenId: string): Promise<void> {
+    if (!tokenId) throw new TokenError("Token ID is required", 400);
+
+    try {
+      await this.apiClient.request({
+        method: "DELETE",
+        url: `${API_ENDPOINTS.tokens}/${tokenId}`,
+      });
+    } catch (error) {
+      const tokenError = this.handleError(
+        error,
+        `Failed to delete token ${tokenId}`
+      );
+      throw tokenError;
+    }
+  }
+
+  /**
+   * Search tokens by metadata
+   */
+  async searchByMetadata(
+    metadata: Partial<T["metadata"]>,
+    options: Omit<TokenListOptions, "metadata"> = {}
+  ): Promise<ListTokensResponse<T["metadata"]>> {
+    return this.list({
+      ...options,
+      metadata,
+    });
+  }
+
+  private handleError(error: any, message: string): TokenError {
+    if (error instanceof TokenError) return error;
+
+    if (error instanceof MoyasarError) {
+      return new TokenError(
+        `${message}: ${error.message}`,
+        error.statusCode,
+        { ...error.details },
+        { cause: error }
+      );
+    }
+
+    const errorMessage = error?.message || error?.toString() || "Unknown error";
+    return new TokenError(
+      `${message}: ${errorMessage}`,
+      500,
+      { cause: errorMessage },
+      { cause: error }
+    );
+  }
+
+  protected parseBody(p: TokenListOptions<T["metadata"]>) {
+    const copied = {
+      ...p,
+      ...this.tokenUtils.buildMetadataQuery(p.metadata ?? {}),
+    };
+
+    delete copied.metadata;
+
+    return copied;
+  }
+}
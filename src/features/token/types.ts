@@ -0,0 +1,79 @@
+import type {
+  BaseListOptions,
+  HasMetadata,
+  ListResponse,
+  Metadata,
+} from "@types";
+import type { CardScheme, CardType } from "@payment";
+import type { TokenStatus } from "./enums";
+
+/**
+ * # Token
+ * A saved card that can be used later to create payments with `PaymentSource.TOKEN`.
+ * @see https://docs.moyasar.com/category/tokens-api
+ */
+export interface Token<T extends object = Metadata> extends HasMetadata<T> {
+  /**
+   * @description Value always starts with `token_`
+   */
+  id: string;
+  status: TokenStatus;
+  /**
+   * @description Card scheme of the saved card.
+   */
+  brand: CardScheme;
+  /**
+   * @description Card funding type, e.g. `credit` or `debit`.
+   */
+  funding: CardType;
+  /**
+   * @description Origin country of the card issuer. A two-letter ISO 3166 code.
+   */
+  country: string;
+  /**
+   * @description Card expiry month, e.g. `09`.
+   */
+  month: string;
+  /**
+   * @description Card expiry year, e.g. `2030`.
+   */
+  year: string;
+  name: string;
+  last_four: string;
+  message: string | null;
+  /**
+   * @description URL of the 3DS page the cardholder must visit to verify the card.
+   * @note Only present while the token is `initiated`.
+   */
+  verification_url: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateTokenRequest<T extends object = Metadata>
+  extends HasMetadata<T> {
+  name: string;
+  number: string;
+  month: number;
+  year: number;
+  cvc: string;
+  /**
+   * @description Where the cardholder is redirected after completing the card verification.
+   * @see https://docs.moyasar.com/api/tokens/01-create-token#request
+   */
+  callback_url: string;
+  /**
+   * @description Save the card without verifying it with a 3DS challenge.
+   * @default false
+   */
+  save_only?: boolean | undefined;
+}
+
+export interface TokenListOptions<T extends object = Metadata>
+  extends BaseListOptions,
+    HasMetadata<Partial<T>> {}
+
+export interface ListTokensResponse<T extends object = Metadata>
+  extends ListResponse<Token<T>> {
+  tokens: Token<T>[];
+}
@@ -0,0 +1,102 @@
+import type { MetadataValidator, ValidationResult } from "@types";
+import type { CreateTokenRequest, ListTokensResponse, Token } from "./types";
+import { TokenStatus } from "./enums";
+import {
+  CreateTokenSchema,
+  TokenSchema,
+  listTokensResponseSchema,
+} from "./validation/schemas";
+
+type TokenUtilsParams<T extends object> = {
+  metadataValidator: MetadataValidator<T>;
+};
+
+export class TokenUtils<T extends object> {
+  private readonly metadataValidator: MetadataValidator<T>;
+
+  constructor(p: TokenUtilsParams<T>) {
+    this.metadataValidator = p.metadataValidator;
+  }
+
+  /**
+   * Validate token creation request using Zod
+   */
+  validateCreateTokenRequest(
+    request: CreateTokenRequest<T>
+  ): ValidationResult<CreateTokenRequest<T>> {
+    const result = CreateTokenSchema.safeParse(request);
+
+    if (result.success) {
+      const metadata = result.data.metadata
+        ? this.metadataValidator.parse(result.data.metadata)
+        : undefined;
+
+      return {
+        success: true,
+        data: {
+          ...result.data,
+          metadata,
+        },
+        errors: [],
+      };
+    }
+
+    const errors = result.error.issues.map(err => {
+      const path = err.path.length > 0 ? `${err.path.join(".")}: ` : "";
+      return `${path}${err.message}`;
+    });
+
+    return {
+      success: false,
+      errors,
+    };
+  }
+
+  /**
+   * Check if a token can be used to create payments
+   */
+  isTokenActive(token: Pick<Token<T>, "status">): boolean {
+    return token.status === TokenStatus.ACTIVE;
+  }
+
+  /**
+   * Build metadata query parameters for filtering
+   */
+  buildMetadataQuery(
+    metadata: Partial<T>
+  ): Record<`metadata[${string}]`, string> {
+    const query: Record<`metadata[${string}]`, string> = {};
+
+    Object.entries(metadata).forEach(([key, value]) => {
+      if (value !== undefined) query[`metadata[${key}]`] = String(value);
+    });
+
+    return query;
+  }
+
+  /**
+   * Parse and validate a Token response, ensuring all data types are correct
+   */
+  parseToken(token: unknown): Token<T> {
+    const parsed = TokenSchema.parse(token);
+    const metadata = parsed.metadata
+      ? this.metadataValidator.parse(parsed.metadata)
+      : undefined;
+
+    return {
+      ...parsed,
+      metadata,
+    };
+  }
+
+  parseListTokensResponse(response: unknown): ListTokensResponse<T> {
+    const parsed = listTokensResponseSchema.parse(response);
+    const tokens = parsed.tokens.map(token => this.parseToken(token));
+    return {
+      ...parsed,
+      tokens,
+    };
+  }
+}
+
+export * as TokenSchemas from "./validation/schemas";
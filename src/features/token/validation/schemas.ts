@@ -0,0 +1,53 @@
+import { z } from "zod";
+import type { AllKeys } from "@types";
+import { paginationMetaSchema } from "@validation";
+import { CardScheme, CardType, PaymentValidation } from "@payment";
+import { TokenStatus } from "../enums";
+import type { CreateTokenRequest, ListTokensResponse, Token } from "../types";
+
+export const TokenSchema = z.object({
+  id: z.string().regex(/^token_/, "Token ID must start with 'token_'"),
+  status: z.enum(TokenStatus),
+  brand: z.enum(CardScheme),
+  funding: z.enum(CardType),
+  country: z.string(),
+  month: z.coerce.string(),
+  year: z.coerce.string(),
+  name: z.string(),
+  last_four: z.string().regex(PaymentValidation.CARD_LAST_DIGITS_REGEX),
+  message: z.string().nullable(),
+  verification_url: z.url().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date(),
+  metadata: z.record(z.string(), z.string()).nullable(),
+} satisfies AllKeys<Token>);
+
+export const CreateTokenSchema = z.object({
+  name: z
+    .string()
+    .min(1, "Name is required")
+    .max(PaymentValidation.DESCRIPTION_MAX_LENGTH)
+    .refine(val => val.trim().split(" ").length >= 2, {
+      message: "Card holder name must be at least two words",
+    })
+    .transform(val => val.trim()),
+  number: z.string().regex(/^\d{16,19}$/, "Card number must be 16-19 digits"),
+  month: z
+    .number()
+    .int("Month must be an integer")
+    .min(1, "Month must be between 1 and 12")
+    .max(12, "Month must be between 1 and 12"),
+  year: z
+    .number()
+    .int("Year must be an integer")
+    .min(new Date().getFullYear(), "Year cannot be in the past"),
+  cvc: z.string().regex(/^\d{3,4}$/, "CVC must be 3-4 digits"),
+  callback_url: z.url("Callback URL must be a valid URL"),
+  save_only: z.boolean().optional(),
+  metadata: z.record(z.string(), z.string()).optional(),
+} satisfies AllKeys<CreateTokenRequest>);
+
+export const listTokensResponseSchema = z.object({
+  tokens: z.array(z.unknown()),
+  meta: paginationMetaSchema,
+} satisfies AllKeys<ListTokensResponse>);
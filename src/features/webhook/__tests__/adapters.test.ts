@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from "bun:test";
+import { WebhookEvent } from "../enums";
+import { WebhookService } from "../service";
+import { CryptoUtils } from "../../../shared/utils/crypto.utils";
+import { MockApiClient } from "./mock_api_client";
+
+const rawBody = JSON.stringify({
+  id: "event_123",
+  type: WebhookEvent.PAYMENT_PAID,
+  created_at: "2030-01-01T00:00:00Z",
+  secret_token: "secret",
+  account_name: "test_account",
+  live: false,
+  data: {
+    id: "pay_123",
+    status: "paid",
+    amount: 5000,
+    fee: 100,
+    currency: "SAR",
+    refunded: 0,
+    refunded_at: null,
+    captured: 5000,
+    captured_at: "2030-01-01T00:00:00.000Z",
+    voided_at: null,
+    description: "Test payment",
+    amount_format: "50.00 SAR",
+    fee_format: "1.00 SAR",
+    refunded_format: "0.00 SAR",
+    captured_format: "50.00 SAR",
+    invoice_id: null,
+    ip: "127.0.0.1",
+    callback_url: "https://example.com/callback",
+    created_at: "2030-01-01T00:00:00.000Z",
+    updated_at: "2030-01-01T00:00:00.000Z",
+    metadata: {},
+    source: {
+      type: "creditcard",
+      company: "visa",
+      name: "Test User",
+      number: "4111-11XX-XXXX-1111",
+      gateway_id: "gateway_123",
+      message: null,
+      reference_number: null,
+      transaction_url: null,
+    },
+  },
+});
+
+const verification = { secret_token: "secret" };
+
+const createRequest = (body: string, headers: Record<string, string> = {}) =>
+  new Request("https://example.com/webhooks/moyasar", {
+    method: "POST",
+    body,
+    headers: { "content-type": "application/json", ...headers },
+  });
+
+describe("WebhookAdapters", () => {
+  let webhookService = new WebhookService({
+    apiClient: new MockApiClient({}),
+  });
+
+  beforeEach(() => {
+    webhookService = new WebhookService({ apiClient: new MockApiClient({}) });
+  });
+
+  afterEach(() => {
+    webhookService.removeAllListeners();
+  });
+
+  describe("fetch", () => {
+    it("should wait for async listeners before responding", async () => {
+      const steps: string[] = [];
+      webhookService.on(WebhookEvent.PAYMENT_PAID, async () => {
+        await new Promise(resolve => setTimeout(resolve, 5));
+        steps.push("listener");
+      });
+      const handler = webhookService.handlers.fetch({ verification });
+
+      const response = await handler(createRequest(rawBody));
+      steps.push("response");
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ received: true });
+      expect(steps).toEqual(["listener", "response"]);
+    });
+
+    it("should respond with 400 for invalid payloads", async () => {
+      const onError = jest.fn();
+      const handler = webhookService.handlers.fetch({ verification, onError });
+
+      const response = await handler(createRequest("not json"));
+
+      expect(response.status).toBe(400);
+      expect(onError).toHaveBeenCalled();
+    });
+
+    it("should respond with 401 when the verification fails", async () => {
+      const handler = webhookService.handlers.fetch({
+        verification: { secret_token: "other" },
+      });
+
+      const response = await handler(createRequest(rawBody));
+
+      expect(response.status).toBe(401);
+      expect(await response.json()).toEqual({
+        error: "Webhook signature verification failed",
+      });
+    });
+
+    it("should respond with 500 when a listener fails", async () => {
+      webhookService.on(WebhookEvent.PAYMENT_PAID, async () => {
+        throw new Error("Database is down");
+      });
+      const handler = webhookService.handlers.fetch({ verification });
+
+      const response = await handler(createRequest(rawBody));
+
+      expect(response.status).toBe(500);
+    });
+
+    it("should verify HMAC signatures from the headers", async () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = await CryptoUtils.createHmacSha256(
+        `${timestamp}.${rawBody}`,
+        "whsec_123"
+      );
+      const handler = webhookService.handlers.fetch({
+        verification: { strategy: "hmac", secret: "whsec_123" },
+      });
+
+      const valid = await handler(
+        createRequest(rawBody, {
+          "x-moyasar-signature": `sha256=${signature}`,
+          "x-moyasar-timestamp": String(timestamp),
+        })
+      );
+      const invalid = await handler(
+        createRequest(rawBody, {
+          "x-moyasar-signature": `sha256=${signature}`,
+          "x-moyasar-timestamp": String(timestamp + 1),
+        })
+      );
+
+      expect(valid.status).toBe(200);
+      expect(invalid.status).toBe(401);
+    });
+  });
+
+  describe("node", () => {
+    it("should read the request stream", async () => {
+      const req = {
+        headers: {},
+        async *[Symbol.asyncIterator]() {
+          yield Buffer.from(rawBody.slice(0, 10));
+          yield rawBody.slice(10);
+        },
+      };
+      const res = { statusCode: 0, setHeader: jest.fn(), end: jest.fn() };
+
+      await webhookService.handlers.node({ verification })(req, res);
+
+      expect(res.statusCode).toBe(200);
+      expect(res.setHeader).toHaveBeenCalledWith(
+        "content-type",
+        "application/json"
+      );
+      expect(res.end).toHaveBeenCalledWith(JSON.stringify({ received: true }));
+    });
+  });
+
+  describe("express", () => {
+    it("should use the raw body kept by express.raw()", async () => {
+      const json = jest.fn();
+      const res = { status: jest.fn(() => ({ json })) };
+
+      await webhookService.handlers.express({ verification })(
+        {
+          headers: {},
+          body: Buffer.from(rawBody),
+          async *[Symbol.asyncIterator]() {},
+        },
+        res
+      );
+
+      expect(res.status).toHaveBeenCalledWith(200);
+      expect(json).toHaveBeenCalledWith({ received: true });
+    });
+  });
+
+  describe("fastify", () => {
+    it("should use the raw body and reply with the status", async () => {
+      const send = jest.fn();
+      const reply = { code: jest.fn(() => ({ send })) };
+
+      await webhookService.handlers.fastify({ verification })(
+        { headers: {}, body: JSON.parse(rawBody), rawBody },
+        reply
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(200);
+      expect(send).toHaveBeenCalledWith({ received: true });
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { Database } from "bun:sqlite";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  FileWebhookEventStore,
+  MemoryWebhookEventStore,
+  SqliteWebhookEventStore,
+} from "../event-stores";
+
+describe("MemoryWebhookEventStore", () => {
+  it("should detect duplicates until the TTL expires", () => {
+    const store = new MemoryWebhookEventStore();
+
+    expect(store.record("event_1", 1000, 0)).toBe(true);
+    expect(store.record("event_1", 1000, 500)).toBe(false);
+    expect(store.record("event_1", 1000, 1000)).toBe(true);
+  });
+
+  it("should prune expired events", () => {
+    const store = new MemoryWebhookEventStore();
+    store.record("event_1", 1000, 0);
+    store.record("event_2", 1000, 100);
+
+    store.record("event_3", 1000, 1050);
+
+    expect(store.size).toBe(2);
+  });
+
+  it("should forget deleted events", () => {
+    const store = new MemoryWebhookEventStore();
+    store.record("event_1", 1000, 0);
+
+    store.delete("event_1");
+
+    expect(store.record("event_1", 1000, 0)).toBe(true);
+  });
+});
+
+describe("FileWebhookEventStore", () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should keep events across instances", async () => {
+    directory = await mkdtemp(join(tmpdir(), "moyasar-events-"));
+    const path = join(directory, "events.json");
+
+    const first = new FileWebhookEventStore(path);
+    const results = await Promise.all([
+      first.record("event_1", 1000, 0),
+      first.record("event_1", 1000, 0),
+    ]);
+    expect(results).toEqual([true, false]);
+
+    const second = new FileWebhookEventStore(path);
+    expect(await second.record("event_1", 1000, 500)).toBe(false);
+    expect(await second.record("event_1", 1000, 2000)).toBe(true);
+
+    await second.delete("event_1");
+    expect(
+      await new FileWebhookEventStore(path).record("event_1", 1000, 2000)
+    ).toBe(true);
+  });
+});
+
+describe("SqliteWebhookEventStore", () => {
+  it("should detect duplicates until the TTL expires", () => {
+    const database = new Database(":memory:");
+    const store = new SqliteWebhookEventStore(database);
+
+    expect(store.record("event_1", 1000, 0)).toBe(true);
+    expect(store.record("event_1", 1000, 500)).toBe(false);
+    expect(store.record("event_1", 1000, 1000)).toBe(true);
+
+    store.delete("event_1");
+    expect(store.record("event_1", 1000, 1000)).toBe(true);
+    database.close();
+  });
+
+  it("should reject unsafe table names", () => {
+    expect(
+      () =>
+        new SqliteWebhookEventStore(new Database(":memory:"), {
+          table: "events; DROP TABLE users",
+        })
+    ).toThrow("Invalid table name");
+  });
+});
@@ -1,6 +1,12 @@
 import { WebhookEvent, WebhookHttpMethod } from "../enums";
 import { WebhookService } from "../service";
-import { WebhookError, WebhookValidationError } from "../errors";
+import {
+  WebhookError,
+  WebhookListenerError,
+  WebhookValidationError,
+} from "../errors";
+import { WebhookUtils } from "../utils";
+import { CryptoUtils } from "../../../shared/utils/crypto.utils";
 import type {
   Webhook,
   WebhookPayload,
@@ -364,6 +370,388 @@ describe("WebhookService", () => {
     });
   });
 
+  describe("processWebhook with HMAC signatures", () => {
+    const secret = "whsec_123";
+    const rawBody = JSON.stringify({
+      id: "event_123",
+      type: WebhookEvent.PAYMENT_PAID,
+      created_at: "2030-01-01T00:00:00Z",
+      secret_token: "secret",
+      account_name: "test_account",
+      live: false,
+      data: {
+        ...createMockPayment(),
+        created_at: "2030-01-01T00:00:00.000Z",
+        updated_at: "2030-01-01T00:00:00.000Z",
+        captured_at: "2030-01-01T00:00:00.000Z",
+      },
+    });
+    const sign = (timestamp: number, body = rawBody) =>
+      CryptoUtils.createHmacSha256(`${timestamp}.${body}`, secret);
+
+    it("should accept a valid signature of the raw body", async () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+      const headers = {
+        "x-moyasar-signature": `sha256=${await sign(timestamp)}`,
+        "x-moyasar-timestamp": String(timestamp),
+      };
+
+      const result = await webhookService.processWebhook(rawBody, {
+        strategy: "hmac",
+        secret,
+        signature: WebhookUtils.extractSignatureFromHeaders(headers),
+        timestamp: WebhookUtils.extractTimestampFromHeaders(headers),
+      });
+
+      expect(result.id).toBe("event_123");
+    });
+
+    it("should reject a tampered body", async () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      await expect(
+        webhookService.processWebhook(rawBody.replace("5000", "1"), {
+          strategy: "hmac",
+          secret,
+          signature: await sign(timestamp),
+          timestamp,
+        })
+      ).rejects.toThrow("Webhook signature verification failed");
+    });
+
+    it("should reject signatures outside the tolerance window", async () => {
+      const timestamp = Math.floor(Date.now() / 1000) - 600;
+
+      await expect(
+        webhookService.processWebhook(rawBody, {
+          strategy: "hmac",
+          secret,
+          signature: await sign(timestamp),
+          timestamp,
+        })
+      ).rejects.toThrow("Webhook signature verification failed");
+
+      await expect(
+        webhookService.processWebhook(rawBody, {
+          strategy: "hmac",
+          secret,
+          signature: await sign(timestamp),
+          timestamp,
+          tolerance: 900,
+        })
+      ).resolves.toBeDefined();
+    });
+
+    it("should not check the age of signatures without a timestamp", async () => {
+      const signature = await CryptoUtils.createHmacSha256(rawBody, secret);
+
+      // created_at is neither signed nor updated on redeliveries
+      expect(
+        await WebhookUtils.verifyHmacSignature(
+          rawBody,
+          { secret, signature },
+          Date.parse("2030-01-02T00:00:00Z")
+        )
+      ).toBe(true);
+    });
+
+    it("should require the raw body", async () => {
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      await expect(
+        webhookService.processWebhook(JSON.parse(rawBody), {
+          strategy: "hmac",
+          secret,
+          signature: await sign(timestamp),
+          timestamp,
+        })
+      ).rejects.toThrow(
+        "The raw request body is required to verify an HMAC signature"
+      );
+    });
+
+    it("should reject requests without a signature", async () => {
+      await expect(
+        webhookService.processWebhook(rawBody, {
+          strategy: "hmac",
+          secret,
+          signature: null,
+          secret_token: "secret",
+        })
+      ).rejects.toThrow("Webhook signature verification failed");
+    });
+
+    it("should fall back to secret_token matching when allowed", async () => {
+      await expect(
+        webhookService.processWebhook(rawBody, {
+          strategy: "hmac",
+          secret,
+          signature: null,
+          allowSecretTokenFallback: true,
+          secret_token: "secret",
+        })
+      ).resolves.toBeDefined();
+
+      await expect(
+        webhookService.processWebhook(rawBody, {
+          strategy: "hmac",
+          secret,
+          signature: null,
+          allowSecretTokenFallback: true,
+        })
+      ).rejects.toThrow("Webhook signature verification failed");
+    });
+  });
+
+  describe("deduplication", () => {
+    const createPayload = (): WebhookPayload => ({
+      id: "event_123",
+      type: WebhookEvent.PAYMENT_PAID,
+      created_at: "2030-01-01T00:00:00Z",
+      secret_token: "secret",
+      account_name: "test_account",
+      live: false,
+      data: createMockPayment() as any,
+    });
+
+    beforeEach(() => {
+      webhookService = new WebhookService({
+        apiClient: mockApiClient,
+        deduplication: {},
+      });
+    });
+
+    it("should skip retried deliveries of the same event", async () => {
+      const eventSpy = jest.fn();
+      webhookService.on(WebhookEvent.PAYMENT_PAID, eventSpy);
+
+      const first = await webhookService.processWebhook(createPayload(), {
+        secret_token: "secret",
+      });
+      const second = await webhookService.processWebhook(createPayload(), {
+        secret_token: "secret",
+      });
+
+      expect(eventSpy).toHaveBeenCalledTimes(1);
+      expect(first.duplicate).toBeUndefined();
+      expect(second.duplicate).toBe(true);
+    });
+
+    it("should emit flagged duplicates in flag mode", async () => {
+      const service = new WebhookService({
+        apiClient: mockApiClient,
+        deduplication: { onDuplicate: "flag" },
+      });
+      const eventSpy = jest.fn();
+      service.on(WebhookEvent.PAYMENT_PAID, eventSpy);
+
+      await service.processWebhook(createPayload(), { secret_token: "secret" });
+      await service.processWebhook(createPayload(), { secret_token: "secret" });
+
+      expect(eventSpy).toHaveBeenCalledTimes(2);
+      expect(eventSpy.mock.calls[1][0].duplicate).toBe(true);
+    });
+
+    it("should process the event again when a listener failed", async () => {
+      let calls = 0;
+      webhookService.on(WebhookEvent.PAYMENT_PAID, async () => {
+        calls++;
+        if (calls === 1) throw new Error("Database is down");
+      });
+
+      await expect(
+        webhookService.processWebhook(
+          createPayload(),
+          { secret_token: "secret" },
+          { emitMode: "parallel" }
+        )
+      ).rejects.toThrow("Database is down");
+      const retried = await webhookService.processWebhook(
+        createPayload(),
+        { secret_token: "secret" },
+        { emitMode: "parallel" }
+      );
+
+      expect(calls).toBe(2);
+      expect(retried.duplicate).toBeUndefined();
+    });
+
+    it("should wait for the listeners by default, so failed events are retried", async () => {
+      let calls = 0;
+      webhookService.on(WebhookEvent.PAYMENT_PAID, async () => {
+        calls++;
+        if (calls === 1) throw new Error("Database is down");
+      });
+
+      await expect(
+        webhookService.processWebhook(createPayload(), {
+          secret_token: "secret",
+        })
+      ).rejects.toThrow("Database is down");
+      const retried = await webhookService.processWebhook(createPayload(), {
+        secret_token: "secret",
+      });
+
+      expect(calls).toBe(2);
+      expect(retried.duplicate).toBeUndefined();
+    });
+
+    it("should forget events whose listener throws in fire-and-forget mode", async () => {
+      let calls = 0;
+      webhookService.on(WebhookEvent.PAYMENT_PAID, () => {
+        calls++;
+        if (calls === 1) throw new Error("Database is down");
+      });
+      const process = () =>
+        webhookService.processWebhook(
+          createPayload(),
+          { secret_token: "secret" },
+          { emitMode: "fire-and-forget" }
+        );
+
+      await expect(process()).rejects.toThrow("Database is down");
+      const retried = await process();
+
+      expect(calls).toBe(2);
+      expect(retried.duplicate).toBeUndefined();
+    });
+
+    it("should not record events that fail verification", async () => {
+      await expect(
+        webhookService.processWebhook(createPayload(), {
+          secret_token: "wrong",
+        })
+      ).rejects.toThrow(WebhookError);
+
+      const result = await webhookService.processWebhook(createPayload(), {
+        secret_token: "secret",
+      });
+      expect(result.duplicate).toBeUndefined();
+    });
+
+    it("should be disabled with store: false", async () => {
+      const service = new WebhookService({
+        apiClient: mockApiClient,
+        deduplication: { store: false },
+      });
+      const eventSpy = jest.fn();
+      service.on(WebhookEvent.PAYMENT_PAID, eventSpy);
+
+      await service.processWebhook(createPayload(), { secret_token: "secret" });
+      await service.processWebhook(createPayload(), { secret_token: "secret" });
+
+      expect(eventSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it("should be off by default", async () => {
+      const service = new WebhookService({ apiClient: mockApiClient });
+      const listener = jest.fn();
+      service.on(WebhookEvent.PAYMENT_PAID, listener);
+
+      const first = await service.processWebhook(createPayload(), {
+        secret_token: "secret",
+      });
+      const second = await service.processWebhook(createPayload(), {
+        secret_token: "secret",
+      });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(first.duplicate).toBeUndefined();
+      expect(second.duplicate).toBeUndefined();
+    });
+  });
+
+  describe("awaited listeners", () => {
+    const createPayload = (): WebhookPayload => ({
+      id: "event_123",
+      type: WebhookEvent.PAYMENT_PAID,
+      created_at: "2030-01-01T00:00:00Z",
+      secret_token: "secret",
+      account_name: "test_account",
+      live: false,
+      data: createMockPayment() as any,
+    });
+    const delay = (ms: number) =>
+      new Promise(resolve => setTimeout(resolve, ms));
+
+    it("should run listeners one after the other in sequential mode", async () => {
+      const steps: string[] = [];
+      webhookService.on(WebhookEvent.PAYMENT_PAID, async () => {
+        await delay(5);
+        steps.push("first");
+      });
+      webhookService.on(WebhookEvent.PAYMENT_PAID, () => {
+        steps.push("second");
+      });
+
+      await webhookService.processWebhook(
+        createPayload(),
+        { secret_token: "secret" },
+        { emitMode: "sequential" }
+      );
+
+      expect(steps).toEqual(["first", "second"]);
+    });
+
+    it("should resolve only after every listener settled in parallel mode", async () => {
+      const steps: string[] = [];
+      webhookService.on(WebhookEvent.PAYMENT_PAID, async () => {
+        await delay(5);
+        steps.push("slow");
+      });
+      webhookService.on(WebhookEvent.PAYMENT_PAID, () => {
+        steps.push("fast");
+      });
+
+      await webhookService.processWebhook(
+        createPayload(),
+        { secret_token: "secret" },
+        { emitMode: "parallel" }
+      );
+
+      expect(steps).toEqual(["fast", "slow"]);
+    });
+
+    it("should isolate failures and report per-listener results", async () => {
+      const later = jest.fn();
+      webhookService.on(WebhookEvent.PAYMENT_PAID, async function saveOrder() {
+        throw new Error("Database is down");
+      });
+      webhookService.once(WebhookEvent.PAYMENT_PAID, function sendEmail() {});
+      webhookService.on(WebhookEvent.PAYMENT_PAID, later);
+
+      const promise = webhookService.processWebhook(
+        createPayload(),
+        { secret_token: "secret" },
+        { emitMode: "sequential" }
+      );
+
+      await expect(promise).rejects.toBeInstanceOf(WebhookListenerError);
+      const error: WebhookListenerError = await promise.catch(e => e);
+      expect(later).toHaveBeenCalled();
+      expect(error.message).toBe(
+        "1 of 3 webhook listeners failed for payment_paid: Database is down"
+      );
+      expect(
+        error.results.map(({ listener, status }) => ({ listener, status }))
+      ).toEqual([
+        { listener: "saveOrder", status: "rejected" },
+        { listener: "sendEmail", status: "fulfilled" },
+        { listener: later.name || "anonymous", status: "fulfilled" },
+      ]);
+      expect(webhookService.listenerCount(WebhookEvent.PAYMENT_PAID)).toBe(2);
+    });
+
+    it("should return the listener results from emitAsync", async () => {
+      webhookService.on(WebhookEvent.PAYMENT_PAID, async () => {});
+
+      const results = await webhookService.emitAsync(createPayload());
+
+      expect(results).toHaveLength(1);
+      expect(results[0]!.status).toBe("fulfilled");
+    });
+  });
+
   describe("event listeners", () => {
     it("should support onPaymentEvent utility", async () => {
       const paymentSpy = jest.fn();
@@ -411,6 +799,110 @@ describe("WebhookService", () => {
       expect(anySpy.mock.calls[0][0].data.id).toBe("pay_123");
     });
 
+    it("should parse payout events with the payout schema", async () => {
+      const payoutSpy = jest.fn();
+      webhookService.onPaymentEvent(WebhookEvent.PAYOUT_PAID, payload => {
+        payoutSpy(payload.data.sequence_number);
+      });
+
+      const result = await webhookService.processWebhook(
+        {
+          id: "event_123",
+          type: WebhookEvent.PAYOUT_PAID,
+          created_at: "2030-01-01T00:00:00Z",
+          secret_token: "secret",
+          account_name: "test_account",
+          live: false,
+          data: {
+            id: "4c5b8f59-6c4d-4b8f-8a4c-31c8b9b1c1a1",
+            source_id: "acc_123",
+            sequence_number: "PO-0001",
+            channel: "ips",
+            status: "paid",
+            amount: 10000,
+            currency: "SAR",
+            purpose: "payroll_benefits",
+            comment: null,
+            destination: {
+              type: "bank",
+              iban: "SA8430400108057386290038",
+              name: "Mohammed Ali",
+              country: "SA",
+              city: "Riyadh",
+            },
+            message: null,
+            failure_reason: null,
+            metadata: null,
+            created_at: "2030-01-01T00:00:00.000Z",
+            updated_at: "2030-01-01T00:00:00.000Z",
+          } as any,
+        },
+        { secret_token: "secret" }
+      );
+
+      expect(WebhookUtils.isPayoutPayload(result)).toBe(true);
+      expect(result.data.created_at).toBeInstanceOf(Date);
+      expect(payoutSpy).toHaveBeenCalledWith("PO-0001");
+    });
+
+    it("should parse balance_transferred events with the settlement schema", async () => {
+      const settlementSpy = jest.fn();
+      const paymentSpy = jest.fn();
+      webhookService.onPaymentEvent(
+        WebhookEvent.BALANCE_TRANSFERRED,
+        settlementSpy
+      );
+      webhookService.onAnyPaymentEvent(paymentSpy);
+
+      await webhookService.processWebhook(
+        {
+          id: "event_123",
+          type: WebhookEvent.BALANCE_TRANSFERRED,
+          created_at: "2030-01-01T00:00:00Z",
+          secret_token: "secret",
+          account_name: "test_account",
+          live: false,
+          data: {
+            id: "stl_123",
+            recipient_type: "Entity",
+            recipient_id: "ent_123",
+            currency: "SAR",
+            amount: 5000,
+            fee: 100,
+            tax: 15,
+            net_amount: 4885,
+            settlement_count: 1,
+            reference: null,
+            invoice_url: null,
+            created_at: "2030-01-02T00:00:00.000Z",
+            updated_at: "2030-01-02T00:00:00.000Z",
+          } as any,
+        },
+        { secret_token: "secret" }
+      );
+
+      expect(settlementSpy).toHaveBeenCalled();
+      expect(settlementSpy.mock.calls[0][0].data.net_amount).toBe(4885);
+      expect(paymentSpy).not.toHaveBeenCalled();
+    });
+
+    it("should reject payout events with a payment body", async () => {
+      await expect(
+        webhookService.processWebhook(
+          {
+            id: "event_123",
+            type: WebhookEvent.PAYOUT_FAILED,
+            created_at: "2030-01-01T00:00:00Z",
+            secret_token: "secret",
+            account_name: "test_account",
+            live: false,
+            data: createMockPayment() as any,
+          },
+          { secret_token: "secret" }
+        )
+      ).rejects.toThrow(WebhookValidationError);
+    });
+
     it("should support onWebhookManagement utility", async () => {
       const mockWebhook: Webhook = {
         id: "webhook_123",
@@ -585,6 +1077,9 @@ describe("WebhookService", () => {
 
         expect(result.data).toBeDefined();
         expect(result.data.id).toBe("pay_123");
+        if (!WebhookUtils.isPaymentPayload(result)) {
+          throw new Error("Expected a payment payload");
+        }
         expect(result.data.metadata).toBeDefined();
         expect(eventSpy).toHaveBeenCalled();
       });
@@ -680,6 +1175,9 @@ describe("WebhookService", () => {
         expect(eventSpy).toHaveBeenCalled();
         expect(result.data).toBeDefined();
         expect(result.data.id).toBe("pay_123");
+        if (!WebhookUtils.isPaymentPayload(result)) {
+          throw new Error("Expected a payment payload");
+        }
         expect(result.data.metadata).toBeDefined();
 
         webhookService.onPaymentEvent(WebhookEvent.PAYMENT_PAID, payload => {
@@ -0,0 +1,259 @@
+import type { MoyasarClientTypes } from "@types";
+import type { WebhookService } from "./service";
+import { WebhookUtils } from "./utils";
+import { WebhookValidationError, WebhookVerificationError } from "./errors";
+import type {
+  ExpressWebhookRequest,
+  ExpressWebhookResponse,
+  FastifyWebhookReply,
+  FastifyWebhookRequest,
+  HonoWebhookContext,
+  NodeWebhookRequest,
+  NodeWebhookResponse,
+  WebhookHandlerOptions,
+  WebhookHandlerResult,
+  WebhookHandlerVerificationOptions,
+  WebhookPayload,
+  WebhookRequestHeaders,
+  WebhookVerificationOptions,
+} from "./types";
+
+/**
+ * Ready-made webhook endpoint handlers built on `WebhookService.processWebhook`.
+ *
+ * Every handler keeps the raw body for signature checks, waits for the async listeners and responds with:
+ * - `200` once the webhook is processed
+ * - `400` for an invalid payload (`WebhookValidationError`)
+ * - `401` for a failed signature check (`WebhookVerificationError`)
+ * - `500` for any other error, e.g. a failing listener, so Moyasar retries the delivery
+ */
+export class WebhookAdapters {
+  /**
+   * Process a webhook request and build the response to send
+   */
+  static async handle<T extends MoyasarClientTypes>(
+    service: WebhookService<T>,
+    request: {
+      body: string | Buffer | WebhookPayload<T["metadata"]>;
+      headers: WebhookRequestHeaders;
+    },
+    options: WebhookHandlerOptions
+  ): Promise<WebhookHandlerResult<T["metadata"]>> {
+    try {
+      const payload = await service.processWebhook(
+        request.body,
+        WebhookAdapters.resolveVerification(
+          options.verification,
+          request.headers
+        ),
+        { emitMode: options.emitMode ?? "parallel" }
+      );
+
+      return { status: 200, body: { received: true }, payload };
+    } catch (error) {
+      options.onError?.(error);
+
+      return {
+        status: WebhookAdapters.getErrorStatus(error),
+        body: {
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      };
+    }
+  }
+
+  /**
+   * Map a processing error to the HTTP status code of the response
+   */
+  static getErrorStatus(error: unknown): number {
+    if (error instanceof WebhookVerificationError) return 401;
+    if (error instanceof WebhookValidationError) return 400;
+    return 500;
+  }
+
+  /**
+   * Handler for the Fetch API (Bun, Deno, Cloudflare Workers, Next.js route handlers, ...)
+   *
+   * @example
+   * ```ts
+   * export const POST = moyasar.webhook.handlers.fetch({
+   *   verification: { secret_token: process.env.MOYASAR_WEBHOOK_SECRET! },
+   * });
+   * ```
+   */
+  static fetch<T extends MoyasarClientTypes>(
+    service: WebhookService<T>,
+    options: WebhookHandlerOptions
+  ): (request: Request) => Promise<Response> {
+    return async request => {
+      const headers: WebhookRequestHeaders = {};
+      request.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      const result = await WebhookAdapters.handle(
+        service,
+        { body: await request.text(), headers },
+        options
+      );
+
+      return new Response(JSON.stringify(result.body), {
+        status: result.status,
+        headers: { "content-type": "application/json" },
+      });
+    };
+  }
+
+  /**
+   * Handler for Hono
+   *
+   * @example
+   * ```ts
+   * app.post("/webhooks/moyasar", moyasar.webhook.handlers.hono({ verification }));
+   * ```
+   */
+  static hono<T extends MoyasarClientTypes>(
+    service: WebhookService<T>,
+    options: WebhookHandlerOptions
+  ): (c: HonoWebhookContext) => Promise<Response> {
+    const handler = WebhookAdapters.fetch(service, options);
+    return c => handler(c.req.raw);
+  }
+
+  /**
+   * Handler for the Node.js `http` module
+   *
+   * @example
+   * ```ts
+   * http.createServer(moyasar.webhook.handlers.node({ verification })).listen(3000);
+   * ```
+   */
+  static node<T extends MoyasarClientTypes>(
+    service: WebhookService<T>,
+    options: WebhookHandlerOptions
+  ): (req: NodeWebhookRequest, res: NodeWebhookResponse) => Promise<void> {
+    return async (req, res) => {
+      const result = await WebhookAdapters.handle(
+        service,
+        { body: await WebhookAdapters.readBody(req), headers: req.headers },
+        options
+      );
+
+      res.statusCode = result.status;
+      res.setHeader("content-type", "application/json");
+      res.end(JSON.stringify(result.body));
+    };
+  }
+
+  /**
+   * Handler for Express
+   *
+   * @example
+   * ```ts
+   * app.post(
+   *   "/webhooks/moyasar",
+   *   express.raw({ type: "application/json" }),
+   *   moyasar.webhook.handlers.express({ verification })
+   * );
+   * ```
+   */
+  static express<T extends MoyasarClientTypes>(
+    service: WebhookService<T>,
+    options: WebhookHandlerOptions
+  ): (
+    req: ExpressWebhookRequest,
+    res: ExpressWebhookResponse
+  ) => Promise<void> {
+    return async (req, res) => {
+      // Without a body parser the body is still in the request stream
+      const body =
+        WebhookAdapters.getParsedBody(req) ??
+        (await WebhookAdapters.readBody(req));
+
+      const result = await WebhookAdapters.handle(
+        service,
+        { body, headers: req.headers },
+        options
+      );
+
+      res.status(result.status).json(result.body);
+    };
+  }
+
+  /**
+   * Handler for Fastify
+   *
+   * @example
+   * ```ts
+   * fastify.addContentTypeParser(
+   *   "application/json",
+   *   { parseAs: "buffer" },
+   *   (_req, body, done) => done(null, body)
+   * );
+   * fastify.post("/webhooks/moyasar", moyasar.webhook.handlers.fastify({ verification }));
+   * ```
+   */
+  static fastify<T extends MoyasarClientTypes>(
+    service: WebhookService<T>,
+    options: WebhookHandlerOptions
+  ): (
+    request: FastifyWebhookRequest,
+    reply: FastifyWebhookReply
+  ) => Promise<unknown> {
+    return async (request, reply) => {
+      const result = await WebhookAdapters.handle(
+        service,
+        {
+          body: WebhookAdapters.getParsedBody(request) ?? "",
+          headers: request.headers,
+        },
+        options
+      );
+
+      return reply.code(result.status).send(result.body);
+    };
+  }
+
+  /**
+   * Read the whole body of a Node.js request stream
+   */
+  static async readBody(req: AsyncIterable<Buffer | string>): Promise<Buffer> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+
+  /**
+   * Pick the raw body if a framework or plugin kept it, otherwise the parsed body
+   */
+  private static getParsedBody(request: {
+    body?: unknown;
+    rawBody?: string | Buffer | undefined;
+  }): string | Buffer | WebhookPayload | undefined {
+    if (request.rawBody !== undefined) return request.rawBody;
+
+    const { body } = request;
+    if (typeof body === "string" || body instanceof Buffer) return body;
+    // Already parsed as JSON, only usable with secret_token verification (HMAC needs the raw body)
+    if (typeof body === "object" && body !== null && "id" in body) {
+      return body as WebhookPayload;
+    }
+
+    return undefined;
+  }
+
+  private static resolveVerification(
+    verification: WebhookHandlerVerificationOptions,
+    headers: WebhookRequestHeaders
+  ): WebhookVerificationOptions {
+    if (verification.strategy !== "hmac") return verification;
+
+    return {
+      ...verification,
+      signature: WebhookUtils.extractSignatureFromHeaders(headers),
+      timestamp: WebhookUtils.extractTimestampFromHeaders(headers),
+    };
+  }
+}
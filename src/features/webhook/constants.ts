@@ -0,0 +1,8 @@
+export const WebhookSignature = {
+  DEFAULT_TOLERANCE: 300, // Maximum age of a signed webhook, in seconds
+  TIMESTAMP_HEADERS: ["x-moyasar-timestamp", "x-timestamp", "timestamp"],
+} as const;
+
+export const WebhookDeduplication = {
+  DEFAULT_TTL: 3 * 24 * 60 * 60 * 1000, // Covers Moyasar delivery retries, in milliseconds
+} as const;
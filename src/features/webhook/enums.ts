@@ -70,6 +70,46 @@ export type WebhookEvent = (typeof WebhookEvent)[keyof typeof WebhookEvent];
 
 export const ALL_WEBHOOK_EVENTS = Object.values(WebhookEvent);
 
+/**
+ * Events whose payload `data` is a `Payment`
+ */
+export const PAYMENT_WEBHOOK_EVENTS = [
+  WebhookEvent.PAYMENT_PAID,
+  WebhookEvent.PAYMENT_FAILED,
+  WebhookEvent.PAYMENT_AUTHORIZED,
+  WebhookEvent.PAYMENT_CAPTURED,
+  WebhookEvent.PAYMENT_REFUNDED,
+  WebhookEvent.PAYMENT_VOIDED,
+  WebhookEvent.PAYMENT_VERIFIED,
+  WebhookEvent.PAYMENT_ABANDONED,
+  WebhookEvent.PAYMENT_CANCELED,
+  WebhookEvent.PAYMENT_EXPIRED,
+] as const;
+
+export type PaymentWebhookEvent = (typeof PAYMENT_WEBHOOK_EVENTS)[number];
+
+/**
+ * Events whose payload `data` is a `Payout`
+ */
+export const PAYOUT_WEBHOOK_EVENTS = [
+  WebhookEvent.PAYOUT_INITIATED,
+  WebhookEvent.PAYOUT_PAID,
+  WebhookEvent.PAYOUT_FAILED,
+  WebhookEvent.PAYOUT_CANCELED,
+  WebhookEvent.PAYOUT_RETURNED,
+] as const;
+
+export type PayoutWebhookEvent = (typeof PAYOUT_WEBHOOK_EVENTS)[number];
+
+/**
+ * Events whose payload `data` is a `Settlement`
+ */
+export const SETTLEMENT_WEBHOOK_EVENTS = [
+  WebhookEvent.BALANCE_TRANSFERRED,
+] as const;
+
+export type SettlementWebhookEvent = (typeof SETTLEMENT_WEBHOOK_EVENTS)[number];
+
 export const WebhookHttpMethod = {
   POST: "post",
   PUT: "put",
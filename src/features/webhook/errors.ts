@@ -1,9 +1,13 @@
 import { MoyasarError } from "@errors";
-import type { WebhookPayload } from "./types";
+import type { WebhookListenerResult, WebhookPayload } from "./types";
 
 export class WebhookError extends MoyasarError {
-  constructor(message: string, details?: Record<string, any>) {
-    super(message, "WEBHOOK_ERROR", 500, details ?? {});
+  constructor(
+    message: string,
+    details?: Record<string, any>,
+    options?: ErrorOptions
+  ) {
+    super(message, "WEBHOOK_ERROR", 500, details ?? {}, options);
     this.name = "WebhookError";
   }
 }
@@ -29,3 +33,27 @@ export class WebhookValidationError extends WebhookError {
     this.name = "WebhookValidationError";
   }
 }
+
+/**
+ * Thrown when one or more listeners of an event failed, when the listeners are awaited
+ */
+export class WebhookListenerError extends WebhookError {
+  public readonly results: WebhookListenerResult[];
+  public readonly errors: unknown[];
+  constructor(event: string, results: WebhookListenerResult[]) {
+    const errors = results
+      .filter(result => result.status === "rejected")
+      .map(result => result.error);
+    const messages = errors.map(error =>
+      error instanceof Error ? error.message : String(error)
+    );
+
+    super(
+      `${errors.length} of ${results.length} webhook listeners failed for ${event}: ${messages.join(", ")}`,
+      { event, errors }
+    );
+    this.results = results;
+    this.errors = errors;
+    this.name = "WebhookListenerError";
+  }
+}
@@ -0,0 +1,152 @@
+import type { SqliteDatabase, WebhookEventStore } from "./types";
+
+/**
+ * Keeps processed event IDs in memory, the default store.
+ *
+ * IDs are lost on restart and are not shared between processes, use `FileWebhookEventStore` or `SqliteWebhookEventStore` for that.
+ */
+export class MemoryWebhookEventStore implements WebhookEventStore {
+  private readonly events = new Map<string, number>();
+
+  record(id: string, ttl: number, now: number = Date.now()): boolean {
+    this.prune(now);
+
+    const expiresAt = this.events.get(id);
+    if (expiresAt !== undefined && expiresAt > now) return false;
+
+    // Re-insert so the map stays ordered by expiry
+    this.events.delete(id);
+    this.events.set(id, now + ttl);
+    return true;
+  }
+
+  delete(id: string): void {
+    this.events.delete(id);
+  }
+
+  get size(): number {
+    return this.events.size;
+  }
+
+  /**
+   * Drop expired IDs, oldest first, stopping at the first one still valid
+   */
+  private prune(now: number): void {
+    for (const [id, expiresAt] of this.events) {
+      if (expiresAt > now) break;
+      this.events.delete(id);
+    }
+  }
+}
+
+/**
+ * Keeps processed event IDs in a JSON file, for single process deployments that restart.
+ */
+export class FileWebhookEventStore implements WebhookEventStore {
+  private events: Map<string, number> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  record(id: string, ttl: number, now: number = Date.now()): Promise<boolean> {
+    return this.enqueue(async () => {
+      const events = await this.load();
+      for (const [eventId, expiresAt] of events) {
+        if (expiresAt <= now) events.delete(eventId);
+      }
+
+      if (events.has(id)) return false;
+
+      events.set(id, now + ttl);
+      await this.save(events);
+      return true;
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.enqueue(async () => {
+      const events = await this.load();
+      if (events.delete(id)) await this.save(events);
+    });
+  }
+
+  /**
+   * Run operations one at a time so concurrent deliveries don't overwrite each other
+   */
+  private enqueue<R>(operation: () => Promise<R>): Promise<R> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<Map<string, number>> {
+    if (this.events) return this.events;
+
+    const { readFile } = await import("node:fs/promises");
+    try {
+      const content = JSON.parse(await readFile(this.path, "utf8"));
+      this.events = new Map(Object.entries(content as Record<string, number>));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      this.events = new Map();
+    }
+    return this.events;
+  }
+
+  private async save(events: Map<string, number>): Promise<void> {
+    const { rename, writeFile } = await import("node:fs/promises");
+    const tempPath = `${this.path}.tmp`;
+
+    // Write then rename, so a crash never leaves a truncated file
+    await writeFile(tempPath, JSON.stringify(Object.fromEntries(events)));
+    await rename(tempPath, this.path);
+  }
+}
+
+/**
+ * Keeps processed event IDs in a SQLite table, shared by every process using the database.
+ *
+ * Works with `bun:sqlite`, `better-sqlite3` and `node:sqlite` databases.
+ *
+ * @example
+ * ```ts
+ * import { Database } from "bun:sqlite";
+ *
+ * const store = new SqliteWebhookEventStore(new Database("webhooks.sqlite"));
+ * ```
+ */
+export class SqliteWebhookEventStore implements WebhookEventStore {
+  private readonly table: string;
+
+  constructor(
+    private readonly database: SqliteDatabase,
+    options: { table?: string } = {}
+  ) {
+    this.table = options.table ?? "moyasar_webhook_events";
+    if (!/^\w+$/.test(this.table)) {
+      throw new Error(`Invalid table name: ${this.table}`);
+    }
+
+    this.database.exec(
+      `CREATE TABLE IF NOT EXISTS ${this.table} (id TEXT PRIMARY KEY, expires_at INTEGER NOT NULL)`
+    );
+  }
+
+  record(id: string, ttl: number, now: number = Date.now()): boolean {
+    this.database
+      .prepare(`DELETE FROM ${this.table} WHERE expires_at <= ?`)
+      .run(now);
+
+    const result = this.database
+      .prepare(
+        `INSERT OR IGNORE INTO ${this.table} (id, expires_at) VALUES (?, ?)`
+      )
+      .run(id, now + ttl) as { changes: number | bigint };
+
+    return Number(result.changes) > 0;
+  }
+
+  delete(id: string): void {
+    this.database.prepare(`DELETE FROM ${this.table} WHERE id = ?`).run(id);
+  }
+}
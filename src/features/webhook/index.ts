@@ -1,6 +1,23 @@
-export { ALL_WEBHOOK_EVENTS, WebhookEvent, WebhookHttpMethod } from "./enums";
+export {
+  ALL_WEBHOOK_EVENTS,
+  PAYMENT_WEBHOOK_EVENTS,
+  PAYOUT_WEBHOOK_EVENTS,
+  SETTLEMENT_WEBHOOK_EVENTS,
+  WebhookEvent,
+  WebhookHttpMethod,
+  type PaymentWebhookEvent,
+  type PayoutWebhookEvent,
+  type SettlementWebhookEvent,
+} from "./enums";
 export * from "./types";
 export { WebhookUtils } from "./utils";
 export * from "./errors";
+export { WebhookSignature, WebhookDeduplication } from "./constants";
+export {
+  MemoryWebhookEventStore,
+  FileWebhookEventStore,
+  SqliteWebhookEventStore,
+} from "./event-stores";
 export { WebhookService } from "./service";
+export { WebhookAdapters } from "./adapters";
 export { WebhookValidation } from "./validation";
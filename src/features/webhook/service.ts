@@ -1,12 +1,24 @@
-import type { ApiClient, Metadata, MoyasarClientTypes } from "@types";
+import type {
+  ApiClient,
+  AutoPaginationOptions,
+  Metadata,
+  MoyasarClientTypes,
+} from "@types";
 import { API_ENDPOINTS } from "@constants";
+import { PaginationUtils } from "../../shared/utils/pagination.utils";
 import { WebhookUtils } from "./utils";
-import { WebhookError, WebhookValidationError } from "./errors";
+import {
+  WebhookError,
+  WebhookListenerError,
+  WebhookValidationError,
+  WebhookVerificationError,
+} from "./errors";
 import { WebhookValidation } from "./validation";
-import { WebhookEvent } from "./enums";
+import { PAYMENT_WEBHOOK_EVENTS, WebhookEvent } from "./enums";
 import type {
   Webhook,
   WebhookPayload,
+  PaymentWebhookPayload,
   WebhookAttempt,
   CreateWebhookRequest,
   UpdateWebhookRequest,
@@ -17,12 +29,24 @@ import type {
   WebhookAttemptListOptions,
   WebhookVerificationOptions,
   WebhookEventMap,
+  ProcessWebhookOptions,
+  WebhookHandlerOptions,
+  WebhookDeduplicationOptions,
+  WebhookEventStore,
+  WebhookEmitMode,
+  WebhookListenerResult,
 } from "./types";
+import { WebhookAdapters } from "./adapters";
+import { MemoryWebhookEventStore } from "./event-stores";
+import { WebhookDeduplication } from "./constants";
 import { TypedEmitter } from "tiny-typed-emitter";
 import { PaymentUtils } from "@payment";
+import { PayoutUtils } from "@payout";
+import { SettlementUtils } from "@settlement";
 
 type WebhookServiceParams<T extends MoyasarClientTypes> = {
   apiClient: ApiClient<T>;
+  deduplication?: WebhookDeduplicationOptions | undefined;
 };
 
 export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
@@ -31,12 +55,30 @@ export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
   private readonly apiClient: ApiClient<T>;
   private readonly events = Object.values(WebhookEvent) as WebhookEvent[];
   private readonly paymentUtils: PaymentUtils<T["metadata"]>;
+  private readonly payoutUtils: PayoutUtils<T["metadata"]>;
+  private readonly eventStore: WebhookEventStore | null;
+  private readonly deduplication: {
+    ttl: number;
+    onDuplicate: NonNullable<WebhookDeduplicationOptions["onDuplicate"]>;
+  };
   constructor(params: WebhookServiceParams<T>) {
     super();
     this.apiClient = params.apiClient;
+    // Opt-in, deduplication changes how processWebhook awaits the listeners
+    this.eventStore =
+      !params.deduplication || params.deduplication.store === false
+        ? null
+        : (params.deduplication.store ?? new MemoryWebhookEventStore());
+    this.deduplication = {
+      ttl: params.deduplication?.ttl ?? WebhookDeduplication.DEFAULT_TTL,
+      onDuplicate: params.deduplication?.onDuplicate ?? "skip",
+    };
     this.paymentUtils = new PaymentUtils({
       metadataValidator: params.apiClient.metadataValidator,
     });
+    this.payoutUtils = new PayoutUtils({
+      metadataValidator: params.apiClient.metadataValidator,
+    });
   }
 
   /**
@@ -76,6 +118,39 @@ export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
     }
   }
 
+  /**
+   * Iterate over every webhook matching the filters, fetching pages as they are consumed
+   *
+   * @example
+   * ```ts
+   * for await (const webhook of client.webhook.iterate()) {
+   *   console.log(webhook.id);
+   * }
+   * ```
+   */
+  iterate(
+    options: WebhookListOptions & AutoPaginationOptions = {}
+  ): AsyncGenerator<Webhook, void, undefined> {
+    const { maxItems, prefetch, page: startPage, ...filters } = options;
+
+    return PaginationUtils.iterate({
+      fetchPage: page => this.list({ ...filters, page }),
+      getItems: response => response.webhooks,
+      startPage,
+      maxItems,
+      prefetch,
+    });
+  }
+
+  /**
+   * List every webhook matching the filters, across all pages
+   */
+  async listAll(
+    options: WebhookListOptions & AutoPaginationOptions = {}
+  ): Promise<Webhook[]> {
+    return PaginationUtils.collect(this.iterate(options));
+  }
+
   /**
    * Retrieve a specific webhook
    */
@@ -195,6 +270,32 @@ export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
         }
       },
 
+      /**
+       * Iterate over every webhook attempt matching the filters, fetching pages as they are consumed
+       */
+      iterate: (
+        options: WebhookAttemptListOptions & AutoPaginationOptions = {}
+      ): AsyncGenerator<WebhookAttempt, void, undefined> => {
+        const { maxItems, prefetch, page: startPage, ...filters } = options;
+
+        return PaginationUtils.iterate({
+          fetchPage: page => this.attempts.list({ ...filters, page }),
+          getItems: response => response.webhook_attempts,
+          startPage,
+          maxItems,
+          prefetch,
+        });
+      },
+
+      /**
+       * List every webhook attempt matching the filters, across all pages
+       */
+      listAll: async (
+        options: WebhookAttemptListOptions & AutoPaginationOptions = {}
+      ): Promise<WebhookAttempt[]> => {
+        return PaginationUtils.collect(this.attempts.iterate(options));
+      },
+
       /**
        * Retrieve a specific webhook attempt
        */
@@ -225,7 +326,8 @@ export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
    */
   async processWebhook(
     rawPayload: string | Buffer | WebhookPayload<T["metadata"]>,
-    options: WebhookVerificationOptions
+    options: WebhookVerificationOptions,
+    processOptions: ProcessWebhookOptions = {}
   ): Promise<WebhookPayload<T["metadata"]>> {
     try {
       // Parse payload if it's raw
@@ -247,20 +349,16 @@ export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
 
       const isValidSignature = await WebhookUtils.verifyWebhookSignature(
         payload,
-        options
+        options,
+        typeof rawPayload === "string" || rawPayload instanceof Buffer
+          ? rawPayload
+          : undefined
       );
-      if (!isValidSignature)
-        throw new WebhookError("Webhook signature verification failed");
+      if (!isValidSignature) throw new WebhookVerificationError();
 
+      let parsedPayload: WebhookPayload<T["metadata"]>;
       try {
-        const parsedPayment = this.paymentUtils.parsePayment(payload.data);
-        const parsedPayload = {
-          ...payload,
-          data: parsedPayment,
-        };
-
-        this.emit(payload.type, parsedPayload);
-        return parsedPayload;
+        parsedPayload = this.parsePayloadData(payload);
       } catch (error) {
         throw new WebhookValidationError({
           message:
@@ -270,6 +368,31 @@ export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
           unexpected_payload: payload,
         });
       }
+
+      // Retried deliveries of an already processed event
+      if (!(await this.recordEvent(parsedPayload.id))) {
+        parsedPayload = { ...parsedPayload, duplicate: true };
+        if (this.deduplication.onDuplicate === "skip") return parsedPayload;
+      }
+
+      // Deduplication needs to know if the listeners succeeded, so it waits for them by default
+      const emitMode =
+        processOptions.emitMode ??
+        (this.eventStore ? "parallel" : "fire-and-forget");
+      try {
+        if (emitMode !== "fire-and-forget") {
+          await this.emitAsync(parsedPayload, emitMode);
+        } else {
+          // The event type and payload are correlated by the union, which TS can't follow here
+          this.emit(parsedPayload.type, parsedPayload as never);
+        }
+      } catch (error) {
+        // Let the next delivery retry the failed listeners
+        if (!parsedPayload.duplicate)
+          await this.eventStore?.delete(parsedPayload.id);
+        throw error;
+      }
+      return parsedPayload;
     } catch (error) {
       const webhookError =
         error instanceof WebhookError
@@ -281,11 +404,75 @@ export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
   }
 
   /**
-   * Utility method to create type-safe event listeners for payment events
+   * Call the listeners of the payload event and wait for them, in sequence or in parallel.
+   *
+   * A failing listener does not prevent the others from running, failures are collected into a `WebhookListenerError`.
+   *
+   * @example
+   * ```ts
+   * try {
+   *   const results = await moyasar.webhook.emitAsync(payload, "sequential");
+   * } catch (error) {
+   *   if (error instanceof WebhookListenerError) console.log(error.results);
+   * }
+   * ```
    */
-  onPaymentEvent(
-    event: WebhookEvent,
-    listener: (payload: WebhookPayload<T["metadata"]>) => void | Promise<void>
+  async emitAsync(
+    payload: WebhookPayload<T["metadata"]>,
+    mode: Exclude<WebhookEmitMode, "fire-and-forget"> = "parallel"
+  ): Promise<WebhookListenerResult[]> {
+    // Raw listeners keep the `once` wrappers, which remove themselves when called
+    const listeners = this.rawListeners(payload.type) as Array<
+      (payload: WebhookPayload<T["metadata"]>) => void | Promise<void>
+    >;
+
+    const run = async (
+      listener: (typeof listeners)[number],
+      index: number
+    ): Promise<WebhookListenerResult> => {
+      const startedAt = Date.now();
+      const result = {
+        index,
+        listener: WebhookService.getListenerName(listener),
+      };
+      try {
+        await listener(payload);
+        return {
+          ...result,
+          status: "fulfilled",
+          duration: Date.now() - startedAt,
+        };
+      } catch (error) {
+        return {
+          ...result,
+          status: "rejected",
+          error,
+          duration: Date.now() - startedAt,
+        };
+      }
+    };
+
+    let results: WebhookListenerResult[] = [];
+    if (mode === "parallel") {
+      results = await Promise.all(listeners.map(run));
+    } else {
+      for (const [index, listener] of listeners.entries()) {
+        results.push(await run(listener, index));
+      }
+    }
+
+    if (results.some(result => result.status === "rejected")) {
+      throw new WebhookListenerError(payload.type, results);
+    }
+    return results;
+  }
+
+  /**
+   * Utility method to create type-safe event listeners, the payload `data` is typed according to the event
+   */
+  onPaymentEvent<E extends WebhookEvent>(
+    event: E,
+    listener: WebhookEventMap<T["metadata"]>[E]
   ): this {
     return this.on(event, listener);
   }
@@ -294,6 +481,36 @@ export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
    * Utility method to listen to all payment events
    */
   onAnyPaymentEvent(
+    listener: (
+      payload: PaymentWebhookPayload<T["metadata"]>
+    ) => void | Promise<void>
+  ): this {
+    PAYMENT_WEBHOOK_EVENTS.forEach(event => {
+      this.on(event, listener);
+    });
+
+    return this;
+  }
+
+  /**
+   * Remove a listener added with `onAnyPaymentEvent`
+   */
+  offAnyPaymentEvent(
+    listener: (
+      payload: PaymentWebhookPayload<T["metadata"]>
+    ) => void | Promise<void>
+  ): this {
+    PAYMENT_WEBHOOK_EVENTS.forEach(event => {
+      this.off(event, listener);
+    });
+
+    return this;
+  }
+
+  /**
+   * Utility method to listen to every webhook event (payments, payouts and settlements)
+   */
+  onAnyEvent(
     listener: (payload: WebhookPayload<T["metadata"]>) => void | Promise<void>
   ): this {
     this.events.forEach(event => {
@@ -303,6 +520,33 @@ export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
     return this;
   }
 
+  /**
+   * Webhook endpoint handlers for common frameworks, see `WebhookAdapters`
+   *
+   * @example
+   * ```ts
+   * app.post(
+   *   "/webhooks/moyasar",
+   *   express.raw({ type: "application/json" }),
+   *   moyasar.webhook.handlers.express({ verification: { secret_token } })
+   * );
+   * ```
+   */
+  get handlers() {
+    return {
+      fetch: (options: WebhookHandlerOptions) =>
+        WebhookAdapters.fetch(this, options),
+      hono: (options: WebhookHandlerOptions) =>
+        WebhookAdapters.hono(this, options),
+      node: (options: WebhookHandlerOptions) =>
+        WebhookAdapters.node(this, options),
+      express: (options: WebhookHandlerOptions) =>
+        WebhookAdapters.express(this, options),
+      fastify: (options: WebhookHandlerOptions) =>
+        WebhookAdapters.fastify(this, options),
+    };
+  }
+
   /**
    * Helper method to extract webhook signature from common header patterns
    */
@@ -312,6 +556,41 @@ export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
 
   // Private helper methods
 
+  /**
+   * Record a processed event ID, resolves `false` for duplicates
+   */
+  private async recordEvent(id: string): Promise<boolean> {
+    if (!this.eventStore) return true;
+    return this.eventStore.record(id, this.deduplication.ttl);
+  }
+
+  /**
+   * Parse the payload `data` with the schema matching the event type
+   */
+  private parsePayloadData(
+    payload: WebhookPayload<T["metadata"]>
+  ): WebhookPayload<T["metadata"]> {
+    switch (WebhookUtils.getEventCategory(payload.type)) {
+      case "payment":
+        return {
+          ...payload,
+          data: this.paymentUtils.parsePayment(payload.data),
+        } as WebhookPayload<T["metadata"]>;
+      case "payout":
+        return {
+          ...payload,
+          data: this.payoutUtils.parsePayout(payload.data),
+        } as WebhookPayload<T["metadata"]>;
+      case "settlement":
+        return {
+          ...payload,
+          data: SettlementUtils.parseSettlement(payload.data),
+        } as WebhookPayload<T["metadata"]>;
+      default:
+        throw new Error(`Unsupported webhook event: ${payload.type}`);
+    }
+  }
+
   private validateCreateRequest(params: CreateWebhookRequest): void {
     const errors: string[] = [];
 
@@ -374,15 +653,28 @@ export class WebhookService<T extends MoyasarClientTypes> extends TypedEmitter<
     }
   }
 
+  private static getListenerName(
+    listener: (...args: never[]) => unknown
+  ): string {
+    // `once` wrappers expose the original listener
+    const original =
+      (listener as { listener?: { name: string } }).listener ?? listener;
+    return original.name || "anonymous";
+  }
+
   private handleError(error: any, message: string): WebhookError {
     if (error instanceof WebhookError) {
       return error;
     }
 
     const errorMessage = error?.message || error?.toString() || "Unknown error";
-    return new WebhookError(`${message}: ${errorMessage}`, {
-      statusCode: error?.statusCode || error?.status,
-      message: errorMessage,
-    });
+    return new WebhookError(
+      `${message}: ${errorMessage}`,
+      {
+        statusCode: error?.statusCode || error?.status,
+        message: errorMessage,
+      },
+      { cause: error }
+    );
   }
 }
@@ -1,21 +1,78 @@
 import type { BaseListOptions, ListResponse, Metadata } from "@types";
-import { WebhookEvent, WebhookHttpMethod } from "./enums";
+import {
+  WebhookEvent,
+  WebhookHttpMethod,
+  type PaymentWebhookEvent,
+  type PayoutWebhookEvent,
+  type SettlementWebhookEvent,
+} from "./enums";
 import type { Payment } from "../payment";
+import type { Payout } from "../payout";
+import type { Settlement } from "../settlement";
 
-export interface WebhookPayload<T extends object = Metadata> {
+/**
+ * The `data` attached to each webhook event.
+ */
+export type WebhookEventData<T extends object = Metadata> = {
+  [K in PaymentWebhookEvent]: Payment<T>;
+} & {
+  [K in PayoutWebhookEvent]: Payout<T>;
+} & {
+  [K in SettlementWebhookEvent]: Settlement;
+};
+
+interface BaseWebhookPayload<E extends WebhookEvent, D> {
   id: string;
-  type: WebhookEvent;
+  type: E;
   created_at: string;
   secret_token: string;
   account_name: string;
   live: boolean;
   /**
-   * The Payment payload associated with the event.
+   * The object associated with the event: a `Payment`, a `Payout` or a `Settlement` depending on `type`.
    * @see https://docs.moyasar.com/api/other/webhooks/webhook-reference#the-webhook-object
    */
-  data: Payment<T>;
+  data: D;
+  /**
+   * Set by the SDK when the event was already processed, see `WebhookDeduplicationOptions`.
+   */
+  duplicate?: boolean | undefined;
 }
 
+/**
+ * The webhook payload of one or more events, `data` is typed according to the event `type`.
+ */
+export type WebhookPayloadOf<
+  E extends WebhookEvent,
+  T extends object = Metadata,
+> = E extends WebhookEvent
+  ? BaseWebhookPayload<E, WebhookEventData<T>[E]>
+  : never;
+
+/**
+ * Webhook payload, a union discriminated by `type`.
+ *
+ * @example
+ * ```ts
+ * if (payload.type === WebhookEvent.PAYOUT_PAID) {
+ *   payload.data; // Payout
+ * }
+ * ```
+ */
+export type WebhookPayload<T extends object = Metadata> = WebhookPayloadOf<
+  WebhookEvent,
+  T
+>;
+
+export type PaymentWebhookPayload<T extends object = Metadata> =
+  WebhookPayloadOf<PaymentWebhookEvent, T>;
+
+export type PayoutWebhookPayload<T extends object = Metadata> =
+  WebhookPayloadOf<PayoutWebhookEvent, T>;
+
+export type SettlementWebhookPayload<T extends object = Metadata> =
+  WebhookPayloadOf<SettlementWebhookEvent, T>;
+
 export interface Webhook {
   id: string;
   http_method: WebhookHttpMethod;
@@ -74,11 +131,220 @@ export interface WebhookAttemptListOptions extends BaseListOptions {
   result?: "success" | "failed";
 }
 
-export interface WebhookVerificationOptions {
+/**
+ * Compare the `secret_token` of the payload with the one configured on the webhook.
+ */
+export interface WebhookSecretTokenVerificationOptions {
+  strategy?: "secret_token" | undefined;
   secret_token: string;
 }
 
+/**
+ * Verify the HMAC SHA256 signature of the raw request body.
+ */
+export interface WebhookHmacVerificationOptions {
+  strategy: "hmac";
+  /**
+   * @description The shared secret used to sign the webhook.
+   */
+  secret: string;
+  /**
+   * @description The hex encoded signature sent with the request, see `WebhookUtils.extractSignatureFromHeaders`.
+   */
+  signature: string | null | undefined;
+  /**
+   * @description Unix timestamp (in seconds) sent with the request, see `WebhookUtils.extractTimestampFromHeaders`.
+   * When set it is part of the signed content (`${timestamp}.${body}`) and checked against `tolerance`.
+   * Without it only the body is signed and the age of the webhook is not checked.
+   */
+  timestamp?: number | string | null | undefined;
+  /**
+   * @description Maximum age of the signed `timestamp` in seconds, use `Infinity` to disable the check.
+   * @default 300
+   */
+  tolerance?: number | undefined;
+  /**
+   * @description Verify requests without a signature by comparing the payload `secret_token` with `secret_token`.
+   * Off by default, since anyone stripping the signature header would then skip the HMAC check.
+   * @default false
+   */
+  allowSecretTokenFallback?: boolean | undefined;
+  /**
+   * @description Compared with the payload `secret_token` when `allowSecretTokenFallback` is set.
+   */
+  secret_token?: string | undefined;
+}
+
+export type WebhookVerificationOptions =
+  | WebhookSecretTokenVerificationOptions
+  | WebhookHmacVerificationOptions;
+
+export type WebhookRequestHeaders = Record<
+  string,
+  string | string[] | undefined
+>;
+
+/**
+ * Verification options of the webhook handlers, the HMAC signature and timestamp are read from the request headers.
+ */
+export type WebhookHandlerVerificationOptions =
+  | WebhookSecretTokenVerificationOptions
+  | Omit<WebhookHmacVerificationOptions, "signature" | "timestamp">;
+
+export interface WebhookHandlerOptions {
+  verification: WebhookHandlerVerificationOptions;
+  /**
+   * @description Called with the error before the error response is sent, e.g. for logging.
+   */
+  onError?: ((error: unknown) => void) | undefined;
+  /**
+   * @description How the listeners are awaited before responding.
+   * @default "parallel"
+   */
+  emitMode?: Exclude<WebhookEmitMode, "fire-and-forget"> | undefined;
+}
+
+export interface WebhookHandlerResult<T extends object = Metadata> {
+  status: number;
+  body: { received: true } | { error: string };
+  payload?: WebhookPayload<T> | undefined;
+}
+
+/**
+ * The parts of a Node.js `IncomingMessage` used by the webhook handlers
+ */
+export interface NodeWebhookRequest extends AsyncIterable<Buffer | string> {
+  headers: WebhookRequestHeaders;
+}
+
+/**
+ * The parts of a Node.js `ServerResponse` used by the webhook handlers
+ */
+export interface NodeWebhookResponse {
+  statusCode: number;
+  setHeader(name: string, value: string): unknown;
+  end(body: string): unknown;
+}
+
+/**
+ * The parts of an Express request used by the webhook handlers.
+ * Mount the route with `express.raw({ type: "application/json" })` so `body` is the raw `Buffer`.
+ */
+export interface ExpressWebhookRequest extends NodeWebhookRequest {
+  body?: unknown;
+  rawBody?: string | Buffer | undefined;
+}
+
+export interface ExpressWebhookResponse {
+  status(code: number): { json(body: unknown): unknown };
+}
+
+/**
+ * The parts of a Fastify request used by the webhook handlers.
+ * Register a content type parser with `parseAs: "buffer"` (or `fastify-raw-body`) to keep the raw body.
+ */
+export interface FastifyWebhookRequest {
+  headers: WebhookRequestHeaders;
+  body?: unknown;
+  rawBody?: string | Buffer | undefined;
+}
+
+export interface FastifyWebhookReply {
+  code(statusCode: number): { send(payload: unknown): unknown };
+}
+
+/**
+ * The parts of a Hono context used by the webhook handlers
+ */
+export interface HonoWebhookContext {
+  req: { raw: Request };
+}
+
+/**
+ * Records the IDs of processed webhook events, so retried deliveries can be detected.
+ */
+export interface WebhookEventStore {
+  /**
+   * Record an event ID for `ttl` milliseconds.
+   * Resolves `false` when the ID is already recorded and has not expired.
+   */
+  record(id: string, ttl: number): boolean | Promise<boolean>;
+  /**
+   * Forget an event ID, so the next delivery of the event is processed again.
+   */
+  delete(id: string): void | Promise<void>;
+}
+
+export interface WebhookDeduplicationOptions {
+  /**
+   * @description Where processed event IDs are recorded, `false` disables deduplication.
+   * Deduplication is off unless these options are given.
+   * @default new MemoryWebhookEventStore()
+   */
+  store?: WebhookEventStore | false | undefined;
+  /**
+   * @description How long an event ID is remembered, in milliseconds.
+   * @default 259200000 (3 days)
+   */
+  ttl?: number | undefined;
+  /**
+   * @description `skip` does not emit duplicates, `flag` emits them with `duplicate: true`.
+   * Either way `processWebhook` resolves with the payload and `duplicate: true`.
+   * @default "skip"
+   */
+  onDuplicate?: "skip" | "flag" | undefined;
+}
+
+/**
+ * The parts of a SQLite database used by `SqliteWebhookEventStore` (`bun:sqlite`, `better-sqlite3`, `node:sqlite`)
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+  };
+}
+
+/**
+ * How the listeners of an event are called:
+ * - `fire-and-forget`: `EventEmitter.emit`, async listeners are not awaited
+ * - `sequential`: one after the other, each listener is awaited before the next one is called
+ * - `parallel`: all at once, then wait for all of them to settle
+ */
+export type WebhookEmitMode = "fire-and-forget" | "sequential" | "parallel";
+
+export interface WebhookListenerResult {
+  /**
+   * @description Position of the listener in the registration order.
+   */
+  index: number;
+  /**
+   * @description The function name of the listener, `anonymous` for arrow functions assigned inline.
+   */
+  listener: string;
+  status: "fulfilled" | "rejected";
+  error?: unknown;
+  /**
+   * @description Time spent in the listener, in milliseconds.
+   */
+  duration: number;
+}
+
+export interface ProcessWebhookOptions {
+  /**
+   * @description With `sequential` or `parallel`, `processWebhook` resolves once every listener has succeeded,
+   * and rejects with a `WebhookListenerError` if any of them failed.
+   *
+   * Deduplication forgets the event when its listeners fail, so the next delivery runs them again.
+   * With `fire-and-forget` only synchronous failures are seen: an event whose async listener rejects
+   * is recorded anyway and its redeliveries are treated as duplicates.
+   * @default "fire-and-forget", or "parallel" when deduplication is enabled
+   */
+  emitMode?: WebhookEmitMode | undefined;
+}
+
 export type WebhookEventMap<T extends object = Metadata> = {
-  // Payment events
-  [K in WebhookEvent]: (payload: WebhookPayload<T>) => void | Promise<void>;
+  [K in WebhookEvent]: (
+    payload: WebhookPayloadOf<K, T>
+  ) => void | Promise<void>;
 };
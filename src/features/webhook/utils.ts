@@ -1,18 +1,99 @@
 import { WebhookValidation } from "./validation";
-import { WebhookError, WebhookValidationError } from "./errors";
-import type { WebhookPayload } from "./types";
+import { WebhookSignature } from "./constants";
+import { CryptoUtils } from "../../shared/utils/crypto.utils";
+import {
+  WebhookError,
+  WebhookValidationError,
+  WebhookVerificationError,
+} from "./errors";
+import {
+  PAYMENT_WEBHOOK_EVENTS,
+  PAYOUT_WEBHOOK_EVENTS,
+  SETTLEMENT_WEBHOOK_EVENTS,
+} from "./enums";
+import type {
+  PaymentWebhookPayload,
+  PayoutWebhookPayload,
+  SettlementWebhookPayload,
+  WebhookHmacVerificationOptions,
+  WebhookPayload,
+  WebhookRequestHeaders,
+  WebhookVerificationOptions,
+} from "./types";
 
 export class WebhookUtils {
   /**
    * Verify webhook payload signature
+   *
+   * - `secret_token` (default): compare the payload `secret_token` with the configured one.
+   * - `hmac`: verify the HMAC SHA256 signature of the raw body and check the signed timestamp is within the tolerance window.
+   *   Requests without a signature are rejected, unless `allowSecretTokenFallback` is set.
+   *
+   * All comparisons are done in constant time.
    */
   static async verifyWebhookSignature(
     payload: { secret_token: string },
-    options: { secret_token: string }
+    options: WebhookVerificationOptions,
+    rawBody?: string | Buffer
   ): Promise<boolean> {
-    const { secret_token } = options;
+    if (options.strategy !== "hmac") {
+      return WebhookUtils.verifySecretToken(payload, options.secret_token);
+    }
+
+    if (!options.signature) {
+      return options.allowSecretTokenFallback && options.secret_token
+        ? WebhookUtils.verifySecretToken(payload, options.secret_token)
+        : false;
+    }
+
+    // A re-serialized payload doesn't match the bytes that were signed
+    if (rawBody === undefined) {
+      throw new WebhookVerificationError(
+        "The raw request body is required to verify an HMAC signature"
+      );
+    }
 
-    return secret_token === payload.secret_token;
+    return WebhookUtils.verifyHmacSignature(rawBody, options);
+  }
+
+  /**
+   * Verify the HMAC SHA256 signature of a raw webhook body.
+   *
+   * The tolerance window only applies to a signed `timestamp`, the payload `created_at` is neither signed
+   * nor updated on redeliveries.
+   */
+  static async verifyHmacSignature(
+    rawBody: string | Buffer,
+    options: Omit<WebhookHmacVerificationOptions, "strategy">,
+    now: number = Date.now()
+  ): Promise<boolean> {
+    if (!options.secret || !options.signature) return false;
+
+    const timestamp =
+      options.timestamp !== null && options.timestamp !== undefined
+        ? Number(options.timestamp)
+        : undefined;
+    const tolerance = options.tolerance ?? WebhookSignature.DEFAULT_TOLERANCE;
+
+    if (timestamp !== undefined && tolerance !== Infinity) {
+      if (Number.isNaN(timestamp)) return false;
+      if (Math.abs(now / 1000 - timestamp) > tolerance) return false;
+    }
+
+    return CryptoUtils.verifyHmacSha256(
+      WebhookUtils.createSignaturePayload(rawBody, timestamp),
+      options.signature.toLowerCase(),
+      options.secret
+    );
+  }
+
+  private static verifySecretToken(
+    payload: { secret_token: string },
+    secret_token: string
+  ): boolean {
+    if (!secret_token || !payload.secret_token) return false;
+
+    return CryptoUtils.constantTimeCompare(secret_token, payload.secret_token);
   }
 
   /**
@@ -91,7 +172,7 @@ export class WebhookUtils {
    * Extract signature from headers (common patterns)
    */
   static extractSignatureFromHeaders(
-    headers: Record<string, string | string[]>
+    headers: WebhookRequestHeaders
   ): string | null {
     // Common signature header patterns
     const signatureHeaders = [
@@ -114,26 +195,82 @@ export class WebhookUtils {
   }
 
   /**
-   * Create a consistent payload string for signature verification
+   * Extract the signing timestamp from headers (common patterns)
+   */
+  static extractTimestampFromHeaders(
+    headers: WebhookRequestHeaders
+  ): string | null {
+    for (const header of WebhookSignature.TIMESTAMP_HEADERS) {
+      const value = headers[header];
+      if (value) {
+        return Array.isArray(value) ? value[0]! : value;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Create a consistent payload string for signature verification, raw bodies are signed as received
    */
   static createSignaturePayload(
-    payload: WebhookPayload,
+    payload: WebhookPayload | string | Buffer,
     timestamp?: number
   ): string {
-    const basePayload = JSON.stringify(payload);
+    const basePayload =
+      typeof payload === "string"
+        ? payload
+        : payload instanceof Buffer
+          ? payload.toString("utf8")
+          : JSON.stringify(payload);
     return timestamp ? `${timestamp}.${basePayload}` : basePayload;
   }
 
   /**
    * Get webhook event categories
    */
-  static getEventCategory(event: string): "payment" | "unknown" {
-    if (event.startsWith("payment_")) {
+  static getEventCategory(
+    event: string
+  ): "payment" | "payout" | "settlement" | "unknown" {
+    if ((PAYMENT_WEBHOOK_EVENTS as readonly string[]).includes(event)) {
       return "payment";
     }
+    if ((PAYOUT_WEBHOOK_EVENTS as readonly string[]).includes(event)) {
+      return "payout";
+    }
+    if ((SETTLEMENT_WEBHOOK_EVENTS as readonly string[]).includes(event)) {
+      return "settlement";
+    }
     return "unknown";
   }
 
+  /**
+   * Check if a webhook payload carries a `Payment`
+   */
+  static isPaymentPayload<T extends object>(
+    payload: WebhookPayload<T>
+  ): payload is PaymentWebhookPayload<T> {
+    return WebhookUtils.getEventCategory(payload.type) === "payment";
+  }
+
+  /**
+   * Check if a webhook payload carries a `Payout`
+   */
+  static isPayoutPayload<T extends object>(
+    payload: WebhookPayload<T>
+  ): payload is PayoutWebhookPayload<T> {
+    return WebhookUtils.getEventCategory(payload.type) === "payout";
+  }
+
+  /**
+   * Check if a webhook payload carries a `Settlement`
+   */
+  static isSettlementPayload<T extends object>(
+    payload: WebhookPayload<T>
+  ): payload is SettlementWebhookPayload<T> {
+    return WebhookUtils.getEventCategory(payload.type) === "settlement";
+  }
+
   /**
    * Check if webhook should be retried based on response
    */
@@ -8,6 +8,9 @@ export {
   WebhookVerificationError,
   WebhookValidation,
   ALL_WEBHOOK_EVENTS,
+  PAYMENT_WEBHOOK_EVENTS,
+  PAYOUT_WEBHOOK_EVENTS,
+  SETTLEMENT_WEBHOOK_EVENTS,
   type AvailableEventsResponse,
   type CreateWebhookRequest,
   type ListWebhookAttemptsResponse,
@@ -19,7 +22,33 @@ export {
   type WebhookEventMap,
   type WebhookListOptions,
   type WebhookPayload,
+  type WebhookPayloadOf,
+  type WebhookEventData,
+  type PaymentWebhookPayload,
+  type PayoutWebhookPayload,
+  type SettlementWebhookPayload,
+  type PaymentWebhookEvent,
+  type PayoutWebhookEvent,
+  type SettlementWebhookEvent,
   type WebhookVerificationOptions,
+  type ProcessWebhookOptions,
+  type WebhookEmitMode,
+  type WebhookListenerResult,
+  WebhookListenerError,
+  type WebhookHandlerOptions,
+  type WebhookHandlerResult,
+  type WebhookHandlerVerificationOptions,
+  WebhookAdapters,
+  type WebhookEventStore,
+  type WebhookDeduplicationOptions,
+  type SqliteDatabase,
+  MemoryWebhookEventStore,
+  FileWebhookEventStore,
+  SqliteWebhookEventStore,
+  WebhookDeduplication,
+  type WebhookSecretTokenVerificationOptions,
+  type WebhookHmacVerificationOptions,
+  WebhookSignature,
   WebhookEvent,
   WebhookHttpMethod,
   WebhookUtils,
@@ -43,13 +72,27 @@ export {
 export {
   PaymentService,
   PaymentError,
+  StcPayOtpError,
+  StcPayInvalidOtpError,
+  StcPayOtpExpiredError,
+  StcPayOtpAlreadySubmittedError,
   PaymentStatus,
   CardScheme,
   CardType,
   PaymentSource,
   PaymentLimits,
   PaymentValidation,
+  PaymentPolling,
+  MADA_BINS,
+  DeclineCategory,
+  DECLINE_CODES,
+  DECLINE_REASONS,
   PaymentUtils,
+  CardUtils,
+  type CardDetails,
+  type CardValidationIssue,
+  type DeclineReason,
+  type PaymentFailureExplanation,
   type Payment,
   type PaymentListOptions,
   type BasePaymentSource,
@@ -66,10 +109,115 @@ export {
   type CreateSamsungPayPaymentSource,
   type CreateStcPayPaymentSource,
   type CreatePaymentSourceBase,
+  type WaitForPaymentOptions,
+  type PaymentWebhookSource,
+  type PaymentCallbackParams,
+  type PaymentCallbackInput,
+  type PaymentCallbackExpectations,
+  type PaymentCallbackMismatch,
+  type VerifiedPaymentCallback,
+  type StcPayPayment,
+  type StcPaySource,
+  type SubmitStcPayOtpResult,
+  type InitiateApplePaySessionRequest,
+  type ApplePayMerchantSession,
 } from "@payment";
+export {
+  TokenService,
+  TokenError,
+  TokenStatus,
+  TokenUtils,
+  type Token,
+  type CreateTokenRequest,
+  type TokenListOptions,
+  type ListTokensResponse,
+} from "@token";
+export {
+  PayoutService,
+  PayoutError,
+  PayoutStatus,
+  PayoutAccountType,
+  PayoutDestinationType,
+  PayoutPurpose,
+  PayoutLimits,
+  PayoutUtils,
+  type Payout,
+  type PayoutAccount,
+  type PayoutDestination,
+  type CreatePayoutRequest,
+  type CreatePayoutAccountRequest,
+  type BulkCreatePayoutRequest,
+  type BulkCreatePayoutsResponse,
+  type PayoutListOptions,
+  type ListPayoutsResponse,
+  type ListPayoutAccountsResponse,
+} from "@payout";
+export {
+  SettlementService,
+  SettlementError,
+  SettlementLineType,
+  SettlementUtils,
+  type Settlement,
+  type SettlementLine,
+  type SettlementTotals,
+  type SettlementListOptions,
+  type ListSettlementsResponse,
+  type ListSettlementLinesResponse,
+  type ReconciledSettlementLine,
+  type SettlementReconciliation,
+} from "@settlement";
 // Shared types and utilities
-export type { Amount, Metadata, ListResponse, HasAmount } from "@types";
-export { MoyasarError } from "@errors";
+export type {
+  Amount,
+  Metadata,
+  ListResponse,
+  AutoPaginationOptions,
+  HasAmount,
+  AmountCurrencyDisplay,
+  AmountFormatOptions,
+  RetryOptions,
+  RequestRetryOptions,
+  CassetteMode,
+  CassetteOptions,
+  CassetteInteraction,
+  CassetteFile,
+  ApiError,
+} from "@types";
+export {
+  MoyasarError,
+  MoneyError,
+  MoyasarApiError,
+  InvalidRequestError,
+  AuthenticationError,
+  AccountInactiveError,
+  RateLimitError,
+  ApiConnectionError,
+  ApiErrorType,
+} from "@errors";
+export { CurrencyExponent, CurrencySymbol } from "@constants";
+export { Money, type RoundingMode } from "./shared/utils/money.utils";
+export { AmountFormatter } from "./shared/utils/amount_format.utils";
+
+// Testing
+export {
+  FakeApiClient,
+  FAKE_TEST_CARDS,
+  FakeApiClientDefaults,
+  WebhookSimulator,
+  WebhookSimulatorDefaults,
+  buildPayment,
+  buildInvoice,
+  buildWebhookPayload,
+  type BuildPaymentOptions,
+  type BuildInvoiceOptions,
+  type BuildWebhookPayloadOptions,
+  type FakeApiClientOptions,
+  type FakeCardBehavior,
+  type FakeRequestRecord,
+  type FakeWebhookDelivery,
+  type WebhookSimulatorDelivery,
+  type WebhookSimulatorOptions,
+} from "./testing";
 
 // Default export for convenience
 export { MoyasarClient as default } from "./client";
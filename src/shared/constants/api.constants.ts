@@ -6,9 +6,25 @@ export const API_ENDPOINTS = {
   bulkInvoices: "/v1/invoices/bulk",
   payments: "/v1/payments",
   bulkPayments: "/v1/payments/bulk",
+  applePaySessions: "/v1/applepay/initiate",
+  tokens: "/v1/tokens",
+  payouts: "/v1/payouts",
+  bulkPayouts: "/v1/payouts/bulk",
+  payoutAccounts: "/v1/payout_accounts",
+  settlements: "/v1/settlements",
 } as const;
 
 export const DEFAULT_API_CONFIG = {
   BASE_URL: "https://api.moyasar.com",
   TIMEOUT: 30000,
+  RETRIES: 0,
+  RETRY_DELAY: 500,
+  MAX_RETRY_DELAY: 30000,
 } as const;
+
+/**
+ * HTTP status codes that indicate a temporary failure worth retrying.
+ */
+export const RETRYABLE_STATUS_CODES: readonly number[] = [
+  408, 429, 500, 502, 503, 504,
+];
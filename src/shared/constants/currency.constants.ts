@@ -0,0 +1,73 @@
+import { Currency, type CurrencyType } from "../types/currency";
+
+/**
+ * Currencies whose minor unit is not 1/100 of the major unit
+ * @see https://www.iso.org/iso-4217-currency-codes.html
+ */
+const NON_DECIMAL_EXPONENTS: Partial<Record<CurrencyType, number>> = {
+  // No minor unit
+  BIF: 0,
+  BYR: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  // Funds, metals and testing codes have no minor unit in ISO 4217
+  XAG: 0,
+  XAU: 0,
+  XBA: 0,
+  XBB: 0,
+  XBC: 0,
+  XBD: 0,
+  XDR: 0,
+  XFU: 0,
+  XPD: 0,
+  XPT: 0,
+  XTS: 0,
+  // 1/1000
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  // 1/10000
+  CLF: 4,
+  // Outside ISO 4217
+  USDC: 6,
+  BCH: 8,
+  BTC: 8,
+};
+
+/**
+ * Number of decimals of every currency, e.g. `2` for SAR (100 halalas) and `3` for KWD (1000 fils)
+ */
+export const CurrencyExponent = Object.freeze(
+  Object.fromEntries(
+    Object.values(Currency).map(currency => [
+      currency,
+      NON_DECIMAL_EXPONENTS[currency] ?? 2,
+    ])
+  ) as Record<CurrencyType, number>
+);
+
+/**
+ * Symbols used by `AmountFormatter` instead of the locale's symbol,
+ * e.g. `"ر.س."` or `"SAR"` for the Saudi riyal depending on the locale
+ */
+export const CurrencySymbol: Readonly<Partial<Record<CurrencyType, string>>> =
+  Object.freeze({
+    SAR: "\uFDFC", // ﷼
+  });
@@ -1 +1,2 @@
 export * from "./api.constants";
+export * from "./currency.constants";
@@ -0,0 +1,161 @@
+import { MoyasarError } from "./moyasar_error";
+
+/**
+ * Error types returned by the Moyasar API
+ * @see https://docs.moyasar.com/api/errors
+ */
+export const ApiErrorType = {
+  INVALID_REQUEST: "invalid_request_error",
+  AUTHENTICATION: "authentication_error",
+  ACCOUNT_INACTIVE: "account_inactive_error",
+  RATE_LIMIT: "rate_limit_error",
+  API_CONNECTION: "api_connection_error",
+  API: "api_error",
+} as const;
+
+export type ApiErrorType = (typeof ApiErrorType)[keyof typeof ApiErrorType];
+
+/**
+ * Error returned by the Moyasar API, or raised when the API can't be reached.
+ *
+ * Check for a subclass to handle a specific error type:
+ * - `InvalidRequestError`: missing or invalid parameters, see `errors` for the failing fields
+ * - `AuthenticationError`: invalid API key
+ * - `AccountInactiveError`: the account can't use the resource, e.g. live mode is not activated
+ * - `RateLimitError`: too many requests
+ * - `ApiConnectionError`: network error or timeout, no response from the API
+ *
+ * @example
+ * ```ts
+ * try {
+ *   await moyasar.payment.create(request);
+ * } catch (error) {
+ *   if (error.cause instanceof InvalidRequestError) {
+ *     console.log(error.cause.errors); // { "source.number": ["is invalid"] }
+ *   }
+ * }
+ * ```
+ */
+export class MoyasarApiError extends MoyasarError {
+  /**
+   * Messages of the fields that failed validation, keyed by field
+   */
+  public readonly errors: Record<string, string[]>;
+
+  constructor(
+    message: string,
+    type: string,
+    statusCode: number,
+    details: Record<string, any> = {},
+    options?: ErrorOptions
+  ) {
+    const errors = MoyasarApiError.normalizeErrors(details.errors);
+    super(message, type, statusCode, { ...details, errors }, options);
+    this.name = "MoyasarApiError";
+    this.errors = errors;
+  }
+
+  /**
+   * Create the error class matching the error type of the API
+   */
+  static create(
+    message: string,
+    type: string,
+    statusCode: number,
+    details: Record<string, any> = {},
+    options?: ErrorOptions
+  ): MoyasarApiError {
+    switch (type) {
+      case ApiErrorType.INVALID_REQUEST:
+        return new InvalidRequestError(message, statusCode, details, options);
+      case ApiErrorType.AUTHENTICATION:
+        return new AuthenticationError(message, statusCode, details, options);
+      case ApiErrorType.ACCOUNT_INACTIVE:
+        return new AccountInactiveError(message, statusCode, details, options);
+      case ApiErrorType.RATE_LIMIT:
+        return new RateLimitError(message, statusCode, details, options);
+      case ApiErrorType.API_CONNECTION:
+        return new ApiConnectionError(message, details, options);
+      default:
+        return new MoyasarApiError(message, type, statusCode, details, options);
+    }
+  }
+
+  /**
+   * Bring the field errors of the API to `{ field: ["message"] }`, the API also sends lists and single messages
+   */
+  static normalizeErrors(errors: unknown): Record<string, string[]> {
+    if (typeof errors === "string") return { base: [errors] };
+    if (Array.isArray(errors)) return { base: errors.map(String) };
+    if (typeof errors !== "object" || errors === null) return {};
+
+    return Object.fromEntries(
+      Object.entries(errors).map(([field, messages]) => [
+        field,
+        Array.isArray(messages) ? messages.map(String) : [String(messages)],
+      ])
+    );
+  }
+}
+
+export class InvalidRequestError extends MoyasarApiError {
+  constructor(
+    message: string,
+    statusCode: number = 400,
+    details?: Record<string, any>,
+    options?: ErrorOptions
+  ) {
+    super(message, ApiErrorType.INVALID_REQUEST, statusCode, details, options);
+    this.name = "InvalidRequestError";
+  }
+}
+
+export class AuthenticationError extends MoyasarApiError {
+  constructor(
+    message: string,
+    statusCode: number = 401,
+    details?: Record<string, any>,
+    options?: ErrorOptions
+  ) {
+    super(message, ApiErrorType.AUTHENTICATION, statusCode, details, options);
+    this.name = "AuthenticationError";
+  }
+}
+
+export class AccountInactiveError extends MoyasarApiError {
+  constructor(
+    message: string,
+    statusCode: number = 403,
+    details?: Record<string, any>,
+    options?: ErrorOptions
+  ) {
+    super(message, ApiErrorType.ACCOUNT_INACTIVE, statusCode, details, options);
+    this.name = "AccountInactiveError";
+  }
+}
+
+export class RateLimitError extends MoyasarApiError {
+  constructor(
+    message: string,
+    statusCode: number = 429,
+    details?: Record<string, any>,
+    options?: ErrorOptions
+  ) {
+    super(message, ApiErrorType.RATE_LIMIT, statusCode, details, options);
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * The request never got a response, e.g. a network error or a timeout. `details.code` holds the network error code
+ */
+export class ApiConnectionError extends MoyasarApiError {
+  constructor(
+    message: string,
+    details?: Record<string, any>,
+    options?: ErrorOptions
+  ) {
+    super(message, ApiErrorType.API_CONNECTION, 500, details, options);
+    this.name = "ApiConnectionError";
+  }
+}
@@ -1 +1,3 @@
 export * from "./moyasar_error";
+export * from "./money_error";
+export * from "./api_error";
@@ -0,0 +1,11 @@
+import { MoyasarError } from "./moyasar_error";
+
+/**
+ * Thrown by `Money` for invalid amounts, unparsable strings and operations mixing currencies
+ */
+export class MoneyError extends MoyasarError {
+  constructor(message: string, details?: Record<string, any>) {
+    super(message, "MONEY_ERROR", 400, details ?? {});
+    this.name = "MoneyError";
+  }
+}
@@ -7,9 +7,10 @@ export class MoyasarError extends Error {
     message: string,
     type: string = "MOYASAR_ERROR",
     statusCode: number,
-    details: Record<string, any>
+    details: Record<string, any>,
+    options?: ErrorOptions
   ) {
-    super(message);
+    super(message, options);
     this.name = "MoyasarError";
     this.type = type;
     this.statusCode = statusCode;
@@ -13,3 +13,43 @@ export interface HasAmount {
    */
   amount: Amount;
 }
+
+/**
+ * How the currency is shown by `AmountFormatter`
+ * - `code`: `SAR`
+ * - `symbol`, `narrowSymbol`: `﷼` for SAR, the locale's symbol for other currencies (`$`, `د.ك.`, ...)
+ * - `name`: `Saudi riyals`, `ريال سعودي`
+ */
+export type AmountCurrencyDisplay = "code" | "symbol" | "narrowSymbol" | "name";
+
+export interface AmountFormatOptions {
+  /**
+   * BCP 47 locale, e.g. `"ar-SA"` for Arabic-Indic digits and right-to-left placement
+   * @default "en"
+   */
+  locale?: string | string[] | undefined;
+  /**
+   * @default "symbol"
+   */
+  currencyDisplay?: AmountCurrencyDisplay | undefined;
+  /**
+   * Replace the currency symbol, e.g. `"ر.س"`. Ignored when `currencyDisplay` is `"code"` or `"name"`
+   */
+  symbol?: string | undefined;
+  /**
+   * Force the digits, `"arab"` for Arabic-Indic digits (`١٠٫٥٠`) and `"latn"` for Latin digits (`10.50`).
+   * Defaults to the digits of the locale
+   */
+  numberingSystem?: "arab" | "latn" | undefined;
+  /**
+   * Show thousands separators
+   * @default true
+   */
+  useGrouping?: boolean | undefined;
+  /**
+   * Wrap the result in Unicode directional isolates (U+2068 … U+2069),
+   * so an Arabic amount keeps its order when embedded in left-to-right text and vice versa
+   * @default false
+   */
+  isolate?: boolean | undefined;
+}
@@ -2,14 +2,92 @@ import type { AxiosRequestConfig } from "axios";
 import type { MetadataValidator } from "./metadata_parser";
 import type { Metadata } from "./metadata";
 
+export interface RetryOptions {
+  /**
+   * @description Maximum number of retries after the first attempt. `0` disables retries.
+   * @default 0
+   */
+  retries?: number;
+  /**
+   * @description Base delay in milliseconds for the exponential backoff. The actual delay is randomized (full jitter) between `0` and `retryDelay * 2 ** attempt`.
+   * @default 500
+   */
+  retryDelay?: number;
+  /**
+   * @description Upper bound in milliseconds for a single backoff delay, including delays requested through the `Retry-After` header.
+   * @default 30000
+   */
+  maxRetryDelay?: number;
+}
+
+export interface RequestRetryOptions extends RetryOptions {
+  /**
+   * @description Force the request to be treated as idempotent (or not). By default only `GET` requests and `POST /v1/payments` requests with a `given_id` are retried.
+   * @see https://docs.moyasar.com/api/idempotency
+   */
+  idempotent?: boolean;
+}
+
 export interface RequestConfig extends AxiosRequestConfig {
-  //
+  /**
+   * @description Per-request retry overrides. Set to `false` to disable retries for this request.
+   */
+  retry?: RequestRetryOptions | false | undefined;
 }
 
-export interface ApiClientOptions {
+/**
+ * - `record`: send the requests to Moyasar and overwrite the cassette with the new responses
+ * - `replay`: answer every request from the cassette, without network
+ * - `auto`: replay when the cassette file exists, record otherwise
+ */
+export type CassetteMode = "record" | "replay" | "auto";
+
+export interface CassetteOptions {
+  /**
+   * @description Path of the JSON cassette, e.g. `tests/cassettes/payments.json`.
+   */
+  path: string;
+  /**
+   * @default "auto"
+   */
+  mode?: CassetteMode | undefined;
+  /**
+   * @description Extra body keys whose values are redacted, on top of card numbers, CVCs, secrets and API keys.
+   */
+  redactKeys?: string[] | undefined;
+}
+
+/**
+ * A recorded request and its response, bodies are redacted
+ */
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    /**
+     * @description Path with the query string, e.g. `/v1/payments?page=2`.
+     */
+    url: string;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+}
+
+export interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface ApiClientOptions extends RetryOptions {
   baseUrl?: string;
   timeout?: number;
-  retries?: number;
+  /**
+   * @description Record the requests and responses to a JSON cassette, or replay them from it without network.
+   */
+  cassette?: CassetteOptions | undefined;
 }
 
 export type MoyasarClientTypes<T extends object = object> = {
@@ -25,4 +103,9 @@ export interface ApiClient<
 > {
   request<T = any>(config: RequestConfig): Promise<T>;
   metadataValidator: MetadataValidator<T["metadata"]>;
+  /**
+   * @description Base URL of the requests, absolute URLs returned by the API are only requested on its origin.
+   * @default "https://api.moyasar.com"
+   */
+  readonly baseUrl?: string;
 }
@@ -72,6 +72,22 @@ export interface BaseListOptions {
   limit?: 40;
 }
 
+/**
+ * Options of the `iterate()` and `listAll()` methods, which walk through every page of a list.
+ */
+export interface AutoPaginationOptions {
+  /**
+   * @description Stop once this many items have been returned.
+   * @default Infinity
+   */
+  maxItems?: number | undefined;
+  /**
+   * @description Number of pages to fetch concurrently ahead of the page being consumed. `0` fetches one page at a time.
+   * @default 0
+   */
+  prefetch?: number | undefined;
+}
+
 export interface ApiError {
   type: string;
   message: string;
@@ -0,0 +1,98 @@
+import { describe, expect, it } from "bun:test";
+import type { AmountFormatOptions, CurrencyType } from "@types";
+import { AmountFormatter } from "../amount_format.utils";
+import { Money } from "../money.utils";
+
+// Directional marks and spaces placed by Intl depend on the ICU version
+const normalize = (value: string) =>
+  value.replace(/[\u061c\u200e\u200f]/g, "").replace(/\s/g, " ");
+
+const format = (
+  amount: number,
+  currency: CurrencyType,
+  options: AmountFormatOptions = {}
+) => normalize(AmountFormatter.format(amount, currency, options));
+
+describe("AmountFormatter", () => {
+  describe("Arabic locales", () => {
+    const formatter = new AmountFormatter({ locale: "ar-SA" });
+
+    it("should use Arabic-Indic digits and the riyal symbol", () => {
+      expect(normalize(formatter.format(105050, "SAR"))).toBe("١٬٠٥٠٫٥٠ ﷼");
+    });
+
+    it("should place the symbol for right-to-left text", () => {
+      const currency = formatter
+        .formatToParts(1050, "SAR")
+        .filter(part => part.type !== "literal")
+        .at(-1);
+
+      expect(currency).toEqual({ type: "currency", value: "﷼" });
+    });
+
+    it("should keep the ISO 4217 decimals", () => {
+      expect(normalize(formatter.format(1050, "KWD"))).toContain("١٫٠٥٠");
+      expect(normalize(formatter.format(1050, "IQD"))).toContain("١٫٠٥٠");
+    });
+
+    it("should force Latin digits", () => {
+      expect(
+        format(1050, "SAR", { locale: "ar-SA", numberingSystem: "latn" })
+      ).toBe("10.50 ﷼");
+    });
+  });
+
+  describe("options", () => {
+    it("should default to English with the currency symbol", () => {
+      expect(format(105050, "SAR")).toBe("﷼ 1,050.50");
+      expect(format(1050, "USD")).toBe("$10.50");
+    });
+
+    it("should show the currency code or name", () => {
+      expect(format(1050, "SAR", { currencyDisplay: "code" })).toBe(
+        "SAR 10.50"
+      );
+      expect(format(1050, "SAR", { currencyDisplay: "name" })).toBe(
+        "10.50 Saudi riyals"
+      );
+    });
+
+    it("should replace the symbol", () => {
+      expect(format(1050, "SAR", { symbol: "SR" })).toBe("SR 10.50");
+      expect(
+        format(1050, "SAR", { symbol: "SR", currencyDisplay: "code" })
+      ).toBe("SAR 10.50");
+    });
+
+    it("should disable grouping", () => {
+      expect(format(10000000, "USD", { useGrouping: false })).toBe(
+        "$100000.00"
+      );
+    });
+
+    it("should wrap the amount in directional isolates", () => {
+      const formatted = AmountFormatter.format(1050, "SAR", {
+        locale: "ar-SA",
+        isolate: true,
+      });
+
+      expect(formatted.startsWith("\u2068")).toBe(true);
+      expect(formatted.endsWith("\u2069")).toBe(true);
+    });
+  });
+
+  it("should format large amounts without losing precision", () => {
+    expect(format(900719925474099, "USD")).toBe("$9,007,199,254,740.99");
+  });
+
+  it("should reject fractional amounts", () => {
+    expect(() => AmountFormatter.format(10.5, "SAR")).toThrow();
+  });
+
+  it("should produce amounts that Money can parse back", () => {
+    for (const locale of ["ar-SA", "en", "ar-EG"]) {
+      const formatted = AmountFormatter.format(-105050, "SAR", { locale });
+      expect(Money.parse(formatted, "SAR").amount).toBe(-105050);
+    }
+  });
+});
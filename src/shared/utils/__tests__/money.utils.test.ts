@@ -0,0 +1,168 @@
+import { describe, expect, it } from "bun:test";
+import { Currency } from "@types";
+import { CurrencyExponent } from "../../constants/currency.constants";
+import { MoneyError } from "../../errors/money_error";
+import { Money } from "../money.utils";
+
+describe("CurrencyExponent", () => {
+  it("should cover every currency", () => {
+    expect(Object.keys(CurrencyExponent).sort()).toEqual(
+      Object.values(Currency).sort()
+    );
+  });
+
+  it("should use the ISO 4217 minor units", () => {
+    expect(CurrencyExponent.SAR).toBe(2);
+    expect(CurrencyExponent.JPY).toBe(0);
+    expect(CurrencyExponent.KRW).toBe(0);
+    for (const currency of [
+      "BHD",
+      "IQD",
+      "JOD",
+      "KWD",
+      "OMR",
+      "TND",
+    ] as const) {
+      expect(CurrencyExponent[currency]).toBe(3);
+    }
+  });
+});
+
+describe("Money", () => {
+  describe("format", () => {
+    it("should use the decimals of the currency", () => {
+      expect(Money.of(1050, "SAR").format()).toBe("10.50 SAR");
+      expect(Money.of(1050, "BHD").format()).toBe("1.050 BHD");
+      expect(Money.of(5, "OMR").format()).toBe("0.005 OMR");
+      expect(Money.of(1050, "JPY").format()).toBe("1050 JPY");
+      expect(Money.of(-1050, "USD").format()).toBe("-10.50 USD");
+    });
+  });
+
+  describe("parse", () => {
+    it("should parse display amounts", () => {
+      expect(Money.parse("1,050.50 SAR").amount).toBe(105050);
+      expect(Money.parse("KWD 1.5").amount).toBe(1500);
+      expect(Money.parse("$10.50", "USD").amount).toBe(1050);
+      expect(Money.parse("-0.001 JOD").amount).toBe(-1);
+    });
+
+    it("should parse Arabic-Indic digits", () => {
+      expect(Money.parse("١٬٠٥٠٫٥٠ ر.س.", "SAR").amount).toBe(105050);
+      expect(Money.parse("۱۰٫۵ KWD").amount).toBe(10500);
+    });
+
+    it("should round extra decimals", () => {
+      expect(Money.parse("10.125", "SAR").amount).toBe(1012);
+      expect(Money.parse("10.125", "SAR", "half-up").amount).toBe(1013);
+      expect(Money.parse("10.129", "SAR", "trunc").amount).toBe(1012);
+    });
+
+    it("should reject values without a currency or digits", () => {
+      expect(() => Money.parse("10.50")).toThrow(MoneyError);
+      expect(() => Money.parse("$10.50")).toThrow("Cannot find the currency");
+      expect(() => Money.parse("SAR")).toThrow("Invalid decimal amount");
+    });
+
+    it("should reject exponent notation", () => {
+      expect(() => Money.parse("1e3 SAR")).toThrow("Invalid decimal amount");
+      expect(() => Money.parse("SAR 1.5E-2")).toThrow("Invalid decimal amount");
+    });
+
+    it("should round-trip formatted amounts", () => {
+      for (const currency of ["SAR", "KWD", "JPY", "CLF"] as const) {
+        const money = Money.of(123456789, currency);
+        expect(Money.parse(money.format()).equals(money)).toBe(true);
+      }
+    });
+  });
+
+  describe("arithmetic", () => {
+    it("should add and subtract exactly", () => {
+      const price = Money.fromDecimal("0.1", "SAR");
+      const total = price.add(Money.fromDecimal("0.2", "SAR"));
+
+      expect(total.toDecimal()).toBe("0.30");
+      expect(total.subtract(Money.of(30, "SAR")).isZero()).toBe(true);
+    });
+
+    it("should multiply by decimal factors", () => {
+      expect(Money.of(999, "SAR").multiply("0.15").amount).toBe(150);
+      expect(Money.of(250, "SAR").multiply(0.5).amount).toBe(125);
+      expect(Money.of(25, "SAR").multiply("0.5").amount).toBe(12);
+      expect(Money.of(25, "SAR").multiply("0.5", "half-up").amount).toBe(13);
+      expect(Money.of(-25, "SAR").multiply("0.5", "floor").amount).toBe(-13);
+    });
+
+    it("should refuse to mix currencies", () => {
+      expect(() => Money.of(100, "SAR").add(Money.of(100, "USD"))).toThrow(
+        "Cannot combine SAR and USD amounts"
+      );
+      expect(Money.of(100, "SAR").equals(Money.of(100, "USD"))).toBe(false);
+    });
+
+    it("should reject fractional and unsafe amounts", () => {
+      expect(() => Money.of(10.5, "SAR")).toThrow(MoneyError);
+      expect(() =>
+        Money.of(Number.MAX_SAFE_INTEGER, "SAR").add(Money.of(1, "SAR"))
+      ).toThrow("out of the safe integer range");
+    });
+
+    it("should sum amounts", () => {
+      const amounts = [100, 200, 300].map(amount => Money.of(amount, "KWD"));
+
+      expect(Money.sum(amounts).format()).toBe("0.600 KWD");
+      expect(Money.sum([], "KWD").isZero()).toBe(true);
+    });
+  });
+
+  describe("allocate", () => {
+    it("should never lose a minor unit", () => {
+      const shares = Money.of(100000, "KWD").split(3);
+
+      expect(shares.map(share => share.format())).toEqual([
+        "33.334 KWD",
+        "33.333 KWD",
+        "33.333 KWD",
+      ]);
+      expect(Money.sum(shares).amount).toBe(100000);
+    });
+
+    it("should follow the ratios", () => {
+      const shares = Money.of(1001, "SAR").allocate([70, 30, 0]);
+
+      expect(shares.map(share => share.amount)).toEqual([701, 300, 0]);
+    });
+
+    it("should split negative amounts", () => {
+      const shares = Money.of(-101, "SAR").split(2);
+
+      expect(shares.map(share => share.amount)).toEqual([-51, -50]);
+    });
+
+    it("should reject invalid ratios", () => {
+      expect(() => Money.of(100, "SAR").allocate([])).toThrow(MoneyError);
+      expect(() => Money.of(100, "SAR").allocate([0, 0])).toThrow(MoneyError);
+      expect(() => Money.of(100, "SAR").allocate([-1, 2])).toThrow(MoneyError);
+    });
+  });
+
+  describe("compare", () => {
+    it("should order amounts of the same currency", () => {
+      const small = Money.of(100, "SAR");
+      const large = Money.of(200, "SAR");
+
+      expect(small.compare(large)).toBe(-1);
+      expect(large.compare(small)).toBe(1);
+      expect(small.compare(Money.of(100, "sar" as never))).toBe(0);
+      expect(small.lessThan(large)).toBe(true);
+      expect(large.greaterThanOrEqual(large)).toBe(true);
+    });
+  });
+
+  it("should serialize to the API shape", () => {
+    expect(JSON.stringify(Money.of(1050, "SAR"))).toBe(
+      '{"amount":1050,"currency":"SAR"}'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "bun:test";
+import type { ListResponse } from "@types";
+import { PaginationUtils } from "../pagination.utils";
+
+type Page = ListResponse<number> & { items: number[] };
+
+const createPages = (totalPages: number, perPage = 2) => {
+  const requested: number[] = [];
+
+  const fetchPage = async (page: number): Promise<Page> => {
+    requested.push(page);
+    return {
+      items: Array.from(
+        { length: perPage },
+        (_, i) => (page - 1) * perPage + i
+      ),
+      meta: {
+        current_page: page,
+        next_page: page < totalPages ? page + 1 : null,
+        prev_page: page > 1 ? page - 1 : null,
+        total_pages: totalPages,
+        total_count: totalPages * perPage,
+      },
+    };
+  };
+
+  return { fetchPage, requested };
+};
+
+describe("PaginationUtils", () => {
+  it("should walk through every page", async () => {
+    const { fetchPage, requested } = createPages(3);
+
+    const items = await PaginationUtils.collect(
+      PaginationUtils.iterate({ fetchPage, getItems: page => page.items })
+    );
+
+    expect(items).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(requested).toEqual([1, 2, 3]);
+  });
+
+  it("should stop fetching when the consumer breaks early", async () => {
+    const { fetchPage, requested } = createPages(5);
+
+    for await (const item of PaginationUtils.iterate({
+      fetchPage,
+      getItems: page => page.items,
+    })) {
+      if (item === 2) break;
+    }
+
+    expect(requested).toEqual([1, 2]);
+  });
+
+  it("should cap the number of items", async () => {
+    const { fetchPage, requested } = createPages(5);
+
+    const items = await PaginationUtils.collect(
+      PaginationUtils.iterate({
+        fetchPage,
+        getItems: page => page.items,
+        maxItems: 4,
+      })
+    );
+
+    expect(items).toEqual([0, 1, 2, 3]);
+    expect(requested).toEqual([1, 2]);
+  });
+
+  it("should start from the given page", async () => {
+    const { fetchPage } = createPages(3);
+
+    const items = await PaginationUtils.collect(
+      PaginationUtils.iterate({
+        fetchPage,
+        getItems: page => page.items,
+        startPage: 3,
+      })
+    );
+
+    expect(items).toEqual([4, 5]);
+  });
+
+  it("should prefetch pages ahead without going past the last page", async () => {
+    const { fetchPage, requested } = createPages(3);
+    const iterator = PaginationUtils.iterate({
+      fetchPage,
+      getItems: page => page.items,
+      prefetch: 5,
+    });
+
+    await iterator.next();
+    expect(requested).toEqual([1, 2, 3]);
+
+    const rest = await PaginationUtils.collect(iterator);
+    expect(rest).toEqual([1, 2, 3, 4, 5]);
+    expect(requested).toEqual([1, 2, 3]);
+  });
+
+  it("should surface errors of prefetched pages when they are reached", async () => {
+    const { fetchPage } = createPages(3);
+    const failing = (page: number) =>
+      page === 3 ? Promise.reject(new Error("boom")) : fetchPage(page);
+    const seen: number[] = [];
+
+    const promise = (async () => {
+      for await (const item of PaginationUtils.iterate({
+        fetchPage: failing,
+        getItems: page => page.items,
+        prefetch: 2,
+      })) {
+        seen.push(item);
+      }
+    })();
+
+    await expect(promise).rejects.toThrow("boom");
+    expect(seen).toEqual([0, 1, 2, 3]);
+  });
+});
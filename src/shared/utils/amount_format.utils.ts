@@ -0,0 +1,93 @@
+import type { Amount, AmountFormatOptions } from "../types/amount";
+import type { CurrencyType } from "../types/currency";
+import { CurrencySymbol } from "../constants/currency.constants";
+import { Money } from "./money.utils";
+
+const FIRST_STRONG_ISOLATE = "\u2068";
+const POP_DIRECTIONAL_ISOLATE = "\u2069";
+
+/**
+ * Locale-aware amount formatting built on `Intl.NumberFormat`.
+ *
+ * Amounts are given in the smallest currency unit and always shown with the ISO 4217 decimals of their currency.
+ * Number formats are cached per currency, so reuse a formatter when formatting many amounts.
+ *
+ * @example
+ * ```ts
+ * const formatter = new AmountFormatter({ locale: "ar-SA" });
+ * formatter.format(1050, "SAR"); // "‏١٠٫٥٠ ﷼‏"
+ * AmountFormatter.format(1050, "SAR", { locale: "en" }); // "﷼ 10.50"
+ * ```
+ */
+export class AmountFormatter {
+  private readonly formats = new Map<CurrencyType, Intl.NumberFormat>();
+
+  constructor(private readonly options: AmountFormatOptions = {}) {}
+
+  static format(
+    amount: Amount,
+    currency: CurrencyType,
+    options: AmountFormatOptions = {}
+  ): string {
+    return new AmountFormatter(options).format(amount, currency);
+  }
+
+  format(amount: Amount, currency: CurrencyType): string {
+    const formatted = this.formatToParts(amount, currency)
+      .map(part => part.value)
+      .join("");
+
+    if (!this.options.isolate) return formatted;
+    return `${FIRST_STRONG_ISOLATE}${formatted}${POP_DIRECTIONAL_ISOLATE}`;
+  }
+
+  /**
+   * Parts of the formatted amount, with the currency part replaced by the configured symbol
+   */
+  formatToParts(
+    amount: Amount,
+    currency: CurrencyType
+  ): Intl.NumberFormatPart[] {
+    const money = Money.of(amount, currency);
+    // Format the decimal string so large amounts don't lose precision as floats
+    const parts = this.getFormat(money.currency).formatToParts(
+      money.toDecimal() as Intl.StringNumericLiteral
+    );
+
+    const symbol = this.getSymbol(money.currency);
+    if (symbol === undefined) return parts;
+
+    return parts.map(part =>
+      part.type === "currency" ? { ...part, value: symbol } : part
+    );
+  }
+
+  private getSymbol(currency: CurrencyType): string | undefined {
+    const display = this.options.currencyDisplay ?? "symbol";
+    if (display === "code" || display === "name") return undefined;
+
+    return this.options.symbol ?? CurrencySymbol[currency];
+  }
+
+  private getFormat(currency: CurrencyType): Intl.NumberFormat {
+    let format = this.formats.get(currency);
+    if (!format) {
+      const exponent = Money.getExponent(currency);
+      const numberingSystem = this.options.numberingSystem;
+
+      format = new Intl.NumberFormat(this.options.locale ?? "en", {
+        style: "currency",
+        currency,
+        currencyDisplay: this.options.currencyDisplay ?? "symbol",
+        useGrouping: this.options.useGrouping ?? true,
+        // Intl follows CLDR, which differs from ISO 4217 for a few currencies (e.g. IQD)
+        minimumFractionDigits: exponent,
+        maximumFractionDigits: exponent,
+        ...(numberingSystem && { numberingSystem }),
+      });
+      this.formats.set(currency, format);
+    }
+
+    return format;
+  }
+}
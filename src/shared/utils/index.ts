@@ -1,4 +1,10 @@
 export * from './crypto.utils';
+export * from './pagination.utils';
+export * from './money.utils';
+export * from './amount_format.utils';
 export { WebhookUtils } from '@webhook';
 export { InvoiceUtils } from '@invoice';
 export { PaymentUtils } from '@payment';
+export { TokenUtils } from '@token';
+export { PayoutUtils } from '@payout';
+export { SettlementUtils } from '@settlement';
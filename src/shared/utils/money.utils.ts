@@ -0,0 +1,392 @@
+import type { Amount } from "../types/amount";
+import { Currency, type CurrencyType } from "../types/currency";
+import { CurrencyExponent } from "../constants/currency.constants";
+import { MoneyError } from "../errors/money_error";
+
+/**
+ * How amounts that don't fit the minor unit are rounded
+ * - `half-even`: to the nearest, ties to the even neighbour (banker's rounding)
+ * - `half-up`: to the nearest, ties away from zero
+ * - `floor`, `ceil`, `trunc`: towards negative infinity, positive infinity or zero
+ */
+export type RoundingMode = "half-even" | "half-up" | "floor" | "ceil" | "trunc";
+
+/**
+ * An amount in the smallest unit of its currency, e.g. `Money.of(1050, "SAR")` is 10.50 SAR.
+ *
+ * Every operation is done on integers so amounts never drift, and returns a new `Money`.
+ * Operations between two amounts throw a `MoneyError` when their currencies differ.
+ *
+ * @example
+ * ```ts
+ * const total = Money.parse("100.000 KWD");
+ * const [first, second, third] = total.split(3); // 33.334, 33.333, 33.333 KWD
+ * total.multiply("0.15").format(); // "15.000 KWD"
+ * ```
+ */
+export class Money {
+  private constructor(
+    readonly amount: Amount,
+    readonly currency: CurrencyType
+  ) {}
+
+  /**
+   * Create an amount from the smallest currency unit (halalas, fils, cents, ...)
+   */
+  static of(amount: Amount, currency: CurrencyType): Money {
+    if (!Number.isSafeInteger(amount)) {
+      throw new MoneyError(
+        `Amount must be an integer in the smallest currency unit, got ${amount}`,
+        { amount, currency }
+      );
+    }
+
+    // Normalize -0, so equal amounts always serialize the same way
+    return new Money(amount || 0, currency.toUpperCase() as CurrencyType);
+  }
+
+  static zero(currency: CurrencyType): Money {
+    return Money.of(0, currency);
+  }
+
+  /**
+   * Create an amount from the major unit, e.g. `Money.fromDecimal("10.5", "SAR")` is 1050 halalas
+   */
+  static fromDecimal(
+    value: string | number,
+    currency: CurrencyType,
+    rounding: RoundingMode = "half-even"
+  ): Money {
+    const decimal = Money.parseDecimal(Money.decimalToString(value));
+    const exponent = Money.getExponent(currency);
+
+    return Money.of(
+      Money.toSafeAmount(
+        Money.divideRounded(
+          decimal.digits * 10n ** BigInt(exponent),
+          10n ** BigInt(decimal.scale),
+          rounding
+        )
+      ),
+      currency
+    );
+  }
+
+  /**
+   * Parse a display amount such as `"1,050.00 SAR"`, `"SAR 10.5"` or `"١٠٫٥ KWD"`.
+   *
+   * The currency code is read from the string when it is not given. Pass it for amounts
+   * written with a symbol, e.g. `Money.parse("$10.50", "USD")` or `Money.parse("١٠٫٥٠ ر.س.", "SAR")`.
+   */
+  static parse(
+    value: string,
+    currency?: CurrencyType,
+    rounding: RoundingMode = "half-even"
+  ): Money {
+    const code = currency ?? Money.findCurrency(value);
+    if (!code) {
+      throw new MoneyError(`Cannot find the currency of "${value}"`, { value });
+    }
+
+    const normalized = Money.normalizeDigits(value);
+    const match = /\d[\d,]*(?:\.\d*)?|\.\d+/.exec(normalized);
+    // Reject exponent notation such as "1e3" instead of reading "1"
+    const exponent =
+      match &&
+      /^[eE][+-]?\d/.test(normalized.slice(match.index + match[0].length));
+    if (!match || exponent) {
+      throw new MoneyError(`Invalid decimal amount "${value}"`, { value });
+    }
+
+    const sign = /[-\u2212]/.test(normalized.slice(0, match.index)) ? "-" : "";
+    const numeric = `${sign}${match[0].replace(/,/g, "")}`;
+    return Money.fromDecimal(numeric, code, rounding);
+  }
+
+  /**
+   * Number of decimals of a currency, `2` for codes outside ISO 4217
+   */
+  static getExponent(currency: string): number {
+    return CurrencyExponent[currency.toUpperCase() as CurrencyType] ?? 2;
+  }
+
+  /**
+   * Add up amounts of the same currency, `currency` is used when the list is empty
+   */
+  static sum(values: Money[], currency?: CurrencyType): Money {
+    const first = values[0];
+    if (!first && !currency) {
+      throw new MoneyError("Cannot sum an empty list without a currency");
+    }
+
+    return values.reduce(
+      (total, value) => total.add(value),
+      Money.zero(currency ?? first!.currency)
+    );
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(
+      Money.toSafeAmount(BigInt(this.amount) + BigInt(other.amount)),
+      this.currency
+    );
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return Money.of(
+      Money.toSafeAmount(BigInt(this.amount) - BigInt(other.amount)),
+      this.currency
+    );
+  }
+
+  /**
+   * Multiply by a factor such as a tax rate, pass decimals as strings (`"0.15"`) to keep them exact
+   */
+  multiply(
+    factor: number | string,
+    rounding: RoundingMode = "half-even"
+  ): Money {
+    const decimal = Money.parseDecimal(Money.decimalToString(factor));
+
+    return Money.of(
+      Money.toSafeAmount(
+        Money.divideRounded(
+          BigInt(this.amount) * decimal.digits,
+          10n ** BigInt(decimal.scale),
+          rounding
+        )
+      ),
+      this.currency
+    );
+  }
+
+  /**
+   * Split the amount following the ratios without losing a minor unit, e.g. `[70, 30]` for a 70/30 split.
+   *
+   * The remainder goes to the first shares, one minor unit each.
+   */
+  allocate(ratios: number[]): Money[] {
+    if (ratios.length === 0) {
+      throw new MoneyError("At least one ratio is required");
+    }
+
+    const decimals = ratios.map(ratio => {
+      if (!Number.isFinite(ratio) || ratio < 0) {
+        throw new MoneyError(`Ratios must be positive numbers, got ${ratio}`, {
+          ratios,
+        });
+      }
+      return Money.parseDecimal(Money.decimalToString(ratio));
+    });
+
+    // Bring every ratio to the same scale to work on integers
+    const scale = Math.max(...decimals.map(decimal => decimal.scale));
+    const weights = decimals.map(
+      decimal => decimal.digits * 10n ** BigInt(scale - decimal.scale)
+    );
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0n);
+    if (totalWeight === 0n) {
+      throw new MoneyError("At least one ratio must be greater than zero", {
+        ratios,
+      });
+    }
+
+    const total = BigInt(this.amount);
+    const shares = weights.map(weight => (total * weight) / totalWeight);
+    let remainder = total - shares.reduce((sum, share) => sum + share, 0n);
+    const unit = remainder < 0n ? -1n : 1n;
+
+    for (let i = 0; remainder !== 0n; i++) {
+      if (weights[i] === 0n) continue;
+      shares[i] = shares[i]! + unit;
+      remainder -= unit;
+    }
+
+    return shares.map(share => Money.of(Number(share), this.currency));
+  }
+
+  /**
+   * Split the amount in equal parts, the first parts get the remainder
+   */
+  split(parts: number): Money[] {
+    if (!Number.isInteger(parts) || parts < 1) {
+      throw new MoneyError(`Parts must be a positive integer, got ${parts}`);
+    }
+
+    return this.allocate(Array.from({ length: parts }, () => 1));
+  }
+
+  /**
+   * `-1`, `0` or `1` when the amount is lower, equal or greater than the other amount
+   */
+  compare(other: Money): -1 | 0 | 1 {
+    this.assertSameCurrency(other);
+    if (this.amount === other.amount) return 0;
+    return this.amount < other.amount ? -1 : 1;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.amount === other.amount;
+  }
+
+  greaterThan(other: Money): boolean {
+    return this.compare(other) > 0;
+  }
+
+  greaterThanOrEqual(other: Money): boolean {
+    return this.compare(other) >= 0;
+  }
+
+  lessThan(other: Money): boolean {
+    return this.compare(other) < 0;
+  }
+
+  lessThanOrEqual(other: Money): boolean {
+    return this.compare(other) <= 0;
+  }
+
+  isZero(): boolean {
+    return this.amount === 0;
+  }
+
+  isPositive(): boolean {
+    return this.amount > 0;
+  }
+
+  isNegative(): boolean {
+    return this.amount < 0;
+  }
+
+  /**
+   * Amount in the major unit with every decimal of the currency, e.g. `"10.500"` for 10500 fils
+   */
+  toDecimal(): string {
+    const exponent = Money.getExponent(this.currency);
+    const digits = Math.abs(this.amount)
+      .toString()
+      .padStart(exponent + 1, "0");
+    const sign = this.amount < 0 ? "-" : "";
+
+    if (exponent === 0) return `${sign}${digits}`;
+    return `${sign}${digits.slice(0, -exponent)}.${digits.slice(-exponent)}`;
+  }
+
+  /**
+   * Format like Moyasar's `amount_format`, e.g. `"10.50 SAR"`
+   */
+  format(): `${number} ${CurrencyType}` {
+    return `${this.toDecimal()} ${this.currency}` as `${number} ${CurrencyType}`;
+  }
+
+  toString(): string {
+    return this.format();
+  }
+
+  toJSON(): { amount: Amount; currency: CurrencyType } {
+    return { amount: this.amount, currency: this.currency };
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (this.currency !== other.currency) {
+      throw new MoneyError(
+        `Cannot combine ${this.currency} and ${other.currency} amounts`,
+        { currencies: [this.currency, other.currency] }
+      );
+    }
+  }
+
+  private static findCurrency(value: string): CurrencyType | undefined {
+    const codes = value.toUpperCase().match(/[A-Z]{3,4}/g) ?? [];
+    const currencies: string[] = Object.values(Currency);
+
+    return codes.find(code => currencies.includes(code)) as
+      | CurrencyType
+      | undefined;
+  }
+
+  /**
+   * Turn Arabic-Indic and Persian digits and separators into their Latin equivalent
+   */
+  private static normalizeDigits(value: string): string {
+    return value
+      .replace(/[\u0660-\u0669]/g, digit =>
+        String(digit.charCodeAt(0) - 0x0660)
+      )
+      .replace(/[\u06f0-\u06f9]/g, digit =>
+        String(digit.charCodeAt(0) - 0x06f0)
+      )
+      .replace(/\u066b/g, ".")
+      .replace(/\u066c/g, ",");
+  }
+
+  private static decimalToString(value: string | number): string {
+    if (typeof value === "string") return value.trim();
+    if (!Number.isFinite(value)) {
+      throw new MoneyError(`Expected a finite number, got ${value}`);
+    }
+
+    // Avoid the exponent notation of very small numbers, e.g. 1e-7
+    const text = value.toString();
+    return text.includes("e-") ? value.toFixed(20) : text;
+  }
+
+  /**
+   * Read a decimal string as an integer and its number of decimals, `"-1.05"` is `-105n` with a scale of `2`
+   */
+  private static parseDecimal(value: string): {
+    digits: bigint;
+    scale: number;
+  } {
+    const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(value);
+    if (!match || (!match[2] && !match[3])) {
+      throw new MoneyError(`Invalid decimal amount "${value}"`, { value });
+    }
+
+    const [, sign = "", integer = "", fraction = ""] = match;
+    return {
+      digits: BigInt(`${sign}${integer || "0"}${fraction}`),
+      scale: fraction.length,
+    };
+  }
+
+  private static divideRounded(
+    numerator: bigint,
+    denominator: bigint,
+    rounding: RoundingMode
+  ): bigint {
+    const quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+    if (remainder === 0n) return quotient;
+
+    const step = numerator < 0n ? -1n : 1n;
+    const twice = 2n * (remainder < 0n ? -remainder : remainder);
+
+    switch (rounding) {
+      case "trunc":
+        return quotient;
+      case "floor":
+        return step < 0n ? quotient - 1n : quotient;
+      case "ceil":
+        return step > 0n ? quotient + 1n : quotient;
+      case "half-up":
+        return twice >= denominator ? quotient + step : quotient;
+      case "half-even":
+        if (twice !== denominator) {
+          return twice > denominator ? quotient + step : quotient;
+        }
+        return quotient % 2n === 0n ? quotient : quotient + step;
+    }
+  }
+
+  private static toSafeAmount(value: bigint): Amount {
+    if (
+      value > BigInt(Number.MAX_SAFE_INTEGER) ||
+      value < BigInt(Number.MIN_SAFE_INTEGER)
+    ) {
+      throw new MoneyError(`Amount ${value} is out of the safe integer range`);
+    }
+    return Number(value);
+  }
+}
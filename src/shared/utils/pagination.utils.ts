@@ -0,0 +1,87 @@
+import type { AutoPaginationOptions, ListResponse } from "@types";
+
+export interface PaginateParams<R extends ListResponse<unknown>, I>
+  extends AutoPaginationOptions {
+  /**
+   * Fetch a single page of the list
+   */
+  fetchPage: (page: number) => Promise<R>;
+  /**
+   * Extract the items of a page, e.g. `response => response.payments`
+   */
+  getItems: (response: R) => I[];
+  /**
+   * @default 1
+   */
+  startPage?: number | undefined;
+}
+
+/**
+ * Auto-pagination helpers used by the `iterate()` and `listAll()` methods of the services
+ */
+export class PaginationUtils {
+  /**
+   * Walk through the pages of a list by following `meta.next_page`, yielding one item at a time.
+   *
+   * Pages are only requested while the consumer keeps iterating, so breaking out of the loop stops the pagination.
+   *
+   * @example
+   * ```ts
+   * for await (const payment of client.payment.iterate({ status: "paid" })) {
+   *   if (payment.amount > 10000) break;
+   * }
+   * ```
+   */
+  static async *iterate<R extends ListResponse<unknown>, I>(
+    params: PaginateParams<R, I>
+  ): AsyncGenerator<I, void, undefined> {
+    const maxItems = params.maxItems ?? Infinity;
+    const prefetch = Math.max(0, Math.floor(params.prefetch ?? 0));
+    if (maxItems <= 0) return;
+
+    const pending = new Map<number, Promise<R>>();
+    const load = (page: number): Promise<R> => {
+      let request = pending.get(page);
+      if (!request) {
+        request = params.fetchPage(page);
+        // Prefetched pages may never be awaited if the consumer stops early
+        request.catch(() => undefined);
+        pending.set(page, request);
+      }
+      return request;
+    };
+
+    let page: number | null = params.startPage ?? 1;
+    let count = 0;
+
+    while (page !== null) {
+      const response: R = await load(page);
+      pending.delete(page);
+
+      const items = params.getItems(response);
+      const { next_page, total_pages } = response.meta;
+
+      if (next_page !== null && count + items.length < maxItems) {
+        const lastPage = Math.min(next_page + prefetch - 1, total_pages);
+        for (let next = next_page; next <= lastPage; next++) load(next);
+      }
+
+      for (const item of items) {
+        yield item;
+        count++;
+        if (count >= maxItems) return;
+      }
+
+      page = next_page;
+    }
+  }
+
+  /**
+   * Collect every item of an async iterable into an array
+   */
+  static async collect<I>(iterable: AsyncIterable<I>): Promise<I[]> {
+    const items: I[] = [];
+    for await (const item of iterable) items.push(item);
+    return items;
+  }
+}
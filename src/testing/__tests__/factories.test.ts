@@ -0,0 +1,182 @@
+import { describe, expect, it } from "bun:test";
+import {
+  PaymentSource,
+  PaymentStatus,
+  PaymentUtils,
+  type Payment,
+} from "@payment";
+import { InvoiceStatus } from "@invoice";
+import { PayoutStatus } from "@payout";
+import {
+  ALL_WEBHOOK_EVENTS,
+  WebhookEvent,
+  WebhookService,
+  WebhookUtils,
+} from "@webhook";
+import { PaymentSchema } from "../../features/payment/validation/schemas";
+import { invoiceSchema } from "../../features/invoice/validation/schemas";
+import { PayoutSchema } from "../../features/payout/validation/schemas";
+import { SettlementSchema } from "../../features/settlement/validation/schemas";
+import {
+  FakeApiClient,
+  buildInvoice,
+  buildPayment,
+  buildWebhookPayload,
+} from "@/testing";
+
+type OrderMetadata = { order_id: string };
+
+// Payloads arrive as JSON, dates included
+const json = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+describe("factories", () => {
+  describe("buildPayment", () => {
+    it.each(Object.values(PaymentStatus))(
+      "should build a valid %s payment",
+      status => {
+        const payment = buildPayment({ status });
+
+        expect(PaymentSchema.safeParse(json(payment)).error).toBeUndefined();
+        expect(payment.status).toBe(status);
+      }
+    );
+
+    it.each(Object.values(PaymentSource).filter(s => s !== "token"))(
+      "should build a valid %s source",
+      type => {
+        const payment = buildPayment({ source: { type } });
+
+        expect(PaymentSchema.safeParse(json(payment)).error).toBeUndefined();
+        expect(payment.source.type).toBe(type);
+      }
+    );
+
+    it("should derive the amounts from the status", () => {
+      const refunded = buildPayment({
+        status: PaymentStatus.REFUNDED,
+        amount: 2500,
+      });
+      expect(refunded).toMatchObject({
+        captured: 2500,
+        refunded: 2500,
+        amount_format: "25.00 SAR",
+        refunded_format: "25.00 SAR",
+      });
+      expect(refunded.refunded_at).toBeInstanceOf(Date);
+
+      const authorized = buildPayment({ status: PaymentStatus.AUTHORIZED });
+      expect(authorized).toMatchObject({ captured: 0, captured_at: null });
+    });
+
+    it("should describe failed payments as declined", () => {
+      const payment = buildPayment({ status: PaymentStatus.FAILED });
+      const utils = new PaymentUtils({
+        metadataValidator: new FakeApiClient().metadataValidator,
+      });
+
+      expect(utils.explainFailure(payment)).toMatchObject({
+        code: "05",
+      });
+    });
+
+    it("should keep typed metadata and source overrides", () => {
+      const payment: Payment<OrderMetadata> = buildPayment<OrderMetadata>({
+        metadata: { order_id: "ORD-1" },
+        source: { type: PaymentSource.STCPAY, mobile: "0551234567" },
+      });
+
+      expect(payment.metadata?.order_id).toBe("ORD-1");
+      expect(payment.source).toMatchObject({ mobile: "0551234567" });
+    });
+  });
+
+  describe("buildInvoice", () => {
+    it.each(Object.values(InvoiceStatus))(
+      "should build a valid %s invoice",
+      status => {
+        const invoice = buildInvoice({ status });
+
+        expect(invoiceSchema.safeParse(json(invoice)).error).toBeUndefined();
+        for (const payment of invoice.payments) {
+          expect(PaymentSchema.safeParse(json(payment)).error).toBeUndefined();
+        }
+      }
+    );
+
+    it("should attach a payment of the invoice to paid invoices", () => {
+      const invoice = buildInvoice<OrderMetadata>({
+        status: InvoiceStatus.PAID,
+        amount: 1000,
+        metadata: { order_id: "ORD-2" },
+      });
+
+      expect(invoice.payments).toHaveLength(1);
+      expect(invoice.payments[0]).toMatchObject({
+        status: PaymentStatus.PAID,
+        invoice_id: invoice.id,
+        amount: 1000,
+        metadata: { order_id: "ORD-2" },
+      });
+      expect(buildInvoice().payments).toEqual([]);
+    });
+  });
+
+  describe("buildWebhookPayload", () => {
+    it.each(ALL_WEBHOOK_EVENTS)("should build a valid %s payload", event => {
+      const payload = json(buildWebhookPayload(event));
+
+      expect(WebhookUtils.validateWebhookPayload(payload)).toEqual([]);
+      const schema = {
+        payment: PaymentSchema,
+        payout: PayoutSchema,
+        settlement: SettlementSchema,
+        unknown: PaymentSchema,
+      }[WebhookUtils.getEventCategory(event)];
+      expect(schema.safeParse(payload.data).error).toBeUndefined();
+    });
+
+    it("should match the data to the event", () => {
+      expect(
+        buildWebhookPayload(WebhookEvent.PAYMENT_CAPTURED).data.status
+      ).toBe(PaymentStatus.CAPTURED);
+      expect(buildWebhookPayload(WebhookEvent.PAYOUT_FAILED).data.status).toBe(
+        PayoutStatus.FAILED
+      );
+    });
+
+    it("should be processed by the webhook service", async () => {
+      const webhook = new WebhookService<{ metadata: OrderMetadata }>({
+        apiClient: new FakeApiClient<{ metadata: OrderMetadata }>(),
+      });
+      const received: string[] = [];
+      webhook.on(WebhookEvent.PAYMENT_PAID, payload => {
+        received.push(payload.data.metadata?.order_id ?? "");
+      });
+
+      const payload = buildWebhookPayload<
+        typeof WebhookEvent.PAYMENT_PAID,
+        OrderMetadata
+      >(WebhookEvent.PAYMENT_PAID, {
+        data: buildPayment({ metadata: { order_id: "ORD-3" } }),
+      });
+      await webhook.processWebhook(payload, {
+        secret_token: payload.secret_token,
+      });
+
+      expect(received).toEqual(["ORD-3"]);
+    });
+
+    it("should serialize created_at and keep the event type", () => {
+      const createdAt = new Date("2030-01-01T00:00:00Z");
+      const payload = buildWebhookPayload(WebhookEvent.PAYMENT_REFUNDED, {
+        created_at: createdAt,
+        ...({ type: WebhookEvent.PAYMENT_PAID } as object),
+      });
+
+      expect(payload.created_at).toBe("2030-01-01T00:00:00.000Z");
+      expect(payload.type).toBe(WebhookEvent.PAYMENT_REFUNDED);
+      expect(payload.data.created_at).toEqual(createdAt);
+      expect(payload.data.status).toBe(PaymentStatus.REFUNDED);
+    });
+  });
+});
@@ -0,0 +1,345 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { InvalidRequestError } from "@errors";
+import {
+  DeclineCategory,
+  PaymentError,
+  PaymentService,
+  PaymentSource,
+  PaymentStatus,
+  PaymentUtils,
+  StcPayInvalidOtpError,
+  type CreatePaymentRequest,
+  type CreateCreditCardPaymentSource,
+} from "@payment";
+import { InvoiceService, InvoiceStatus } from "@invoice";
+import { WebhookEvent, WebhookService } from "@webhook";
+import { FakeApiClient, FakeApiClientDefaults } from "@/testing";
+
+const cardPayment = (
+  number: string,
+  source: Partial<CreateCreditCardPaymentSource> = {}
+): CreatePaymentRequest => ({
+  amount: 5000,
+  currency: "SAR",
+  description: "Order #1",
+  callback_url: "https://example.com/callback",
+  metadata: { order_id: "ORD-1" },
+  source: {
+    type: PaymentSource.CREDITCARD,
+    name: "Test User",
+    number,
+    month: 12,
+    year: 2035,
+    cvc: number.startsWith("34") ? "1234" : "123",
+    ...source,
+  },
+});
+
+describe("FakeApiClient", () => {
+  let fake: FakeApiClient;
+  let webhook: WebhookService<{ metadata: Record<string, string> }>;
+  let payments: PaymentService<{ metadata: Record<string, string> }>;
+  let invoices: InvoiceService<{ metadata: Record<string, string> }>;
+
+  beforeEach(() => {
+    fake = new FakeApiClient();
+    webhook = new WebhookService({ apiClient: fake });
+    payments = new PaymentService({ apiClient: fake, webhook });
+    invoices = new InvoiceService({ apiClient: fake });
+    fake.connectWebhook(webhook);
+  });
+
+  describe("card payments", () => {
+    it("should keep 3DS payments initiated until authenticated", async () => {
+      const events: string[] = [];
+      webhook.on(WebhookEvent.PAYMENT_PAID, payload => {
+        events.push(payload.data.id);
+      });
+
+      const payment = await payments.create(cardPayment("4111111111111111"));
+      expect(payment.status).toBe(PaymentStatus.INITIATED);
+      expect(payment.source).toMatchObject({
+        company: "visa",
+        number: "4111-11XX-XXXX-1111",
+        transaction_url: expect.stringMatching(/^https:\/\//),
+      });
+      expect(events).toEqual([]);
+
+      const paid = await fake.authenticate(payment.id);
+      expect(paid.status).toBe(PaymentStatus.PAID);
+      expect(paid.captured).toBe(5000);
+      expect(events).toEqual([payment.id]);
+      expect((await payments.retrieve(payment.id)).status).toBe(
+        PaymentStatus.PAID
+      );
+    });
+
+    it("should fail payments failing the 3DS challenge", async () => {
+      const payment = await payments.create(cardPayment("4201320111111010"));
+      const failed = await fake.authenticate(payment.id, false);
+
+      expect(failed.status).toBe(PaymentStatus.FAILED);
+      expect(failed.source).toMatchObject({ company: "mada" });
+      await expect(fake.authenticate(payment.id)).rejects.toThrow(
+        InvalidRequestError
+      );
+    });
+
+    it("should decline the declined test cards", async () => {
+      const payment = await payments.create(cardPayment("4000000000009995"));
+      const utils = new PaymentUtils({
+        metadataValidator: fake.metadataValidator,
+      });
+
+      expect(payment.status).toBe(PaymentStatus.FAILED);
+      expect(utils.explainFailure(payment)).toMatchObject({
+        category: DeclineCategory.INSUFFICIENT_FUNDS,
+        code: "51",
+      });
+      expect(fake.webhookDeliveries.map(d => d.payload.type)).toEqual([
+        WebhookEvent.PAYMENT_FAILED,
+      ]);
+    });
+
+    it("should skip 3DS when the request disables it", async () => {
+      const payment = await payments.create(
+        cardPayment("4111111111111111", { "3ds": false })
+      );
+
+      expect(payment.status).toBe(PaymentStatus.PAID);
+      expect(payment.source).toMatchObject({ transaction_url: null });
+    });
+
+    it("should return the same payment for the same given_id", async () => {
+      const request = {
+        ...cardPayment("4000000000000077"),
+        given_id: "4f2c8b1e-7e2a-4c47-9d3a-1b2c3d4e5f60",
+      };
+
+      const first = await payments.create(request);
+      const second = await payments.create(request);
+
+      expect(first.id).toBe(request.given_id);
+      expect(second).toEqual(first);
+      expect((await payments.list()).payments).toHaveLength(1);
+    });
+  });
+
+  describe("capture, refund and void", () => {
+    it("should authorize manual payments and capture them", async () => {
+      const payment = await payments.create(
+        cardPayment("4000000000000077", { manual: true })
+      );
+      expect(payment.status).toBe(PaymentStatus.AUTHORIZED);
+      expect(payment.captured).toBe(0);
+
+      await expect(
+        payments.capture({ paymentId: payment.id, capture: { amount: 6000 } })
+      ).rejects.toThrow(PaymentError);
+
+      const captured = await payments.capture({
+        paymentId: payment.id,
+        capture: { amount: 3000 },
+      });
+      expect(captured.status).toBe(PaymentStatus.CAPTURED);
+      expect(captured.captured).toBe(3000);
+      expect(captured.captured_format).toBe("30.00 SAR");
+    });
+
+    it("should refund paid payments up to the captured amount", async () => {
+      const payment = await payments.create(cardPayment("4000000000000077"));
+
+      const partial = await payments.refund({
+        paymentId: payment.id,
+        refund: { amount: 2000 },
+      });
+      expect(partial.status).toBe(PaymentStatus.PAID);
+      expect(partial.refunded).toBe(2000);
+      expect(partial.refunded_format).toBe("20.00 SAR");
+
+      const refunded = await payments.refund({
+        paymentId: payment.id,
+        refund: { amount: 3000 },
+      });
+      expect(refunded.status).toBe(PaymentStatus.REFUNDED);
+      expect(refunded.refunded).toBe(5000);
+
+      const error = await payments
+        .refund({ paymentId: payment.id, refund: { amount: 1000 } })
+        .catch(e => e);
+      expect(error.message).toBe(
+        `Failed to refund payment ${payment.id}: Only paid or captured payments can be refunded.`
+      );
+    });
+
+    it("should reject partial refunds above the remaining amount", async () => {
+      const payment = await payments.create(cardPayment("4000000000000077"));
+      await payments.refund({
+        paymentId: payment.id,
+        refund: { amount: 4000 },
+      });
+
+      await expect(
+        payments.refund({ paymentId: payment.id, refund: { amount: 2000 } })
+      ).rejects.toThrow(PaymentError);
+      expect((await payments.retrieve(payment.id)).refunded).toBe(4000);
+    });
+
+    it("should only void paid, authorized or captured payments", async () => {
+      const initiated = await payments.create(cardPayment("4111111111111111"));
+      await expect(payments.void(initiated.id)).rejects.toThrow(PaymentError);
+
+      const paid = await payments.create(cardPayment("4000000000000077"));
+      const voided = await payments.void(paid.id);
+      expect(voided.status).toBe(PaymentStatus.VOIDED);
+      expect(voided.voided_at).toBeInstanceOf(Date);
+    });
+
+    it("should report unknown payments as not found", async () => {
+      const error = await payments.retrieve("missing").catch(e => e);
+
+      expect(error).toBeInstanceOf(PaymentError);
+      expect(error.statusCode).toBe(404);
+      expect(error.cause).toBeInstanceOf(InvalidRequestError);
+    });
+  });
+
+  describe("STC Pay", () => {
+    it("should pay with the test OTP only", async () => {
+      const payment = await payments.stcpay.initiate({
+        amount: 1000,
+        currency: "SAR",
+        description: "Order #2",
+        callback_url: "https://example.com/callback",
+        source: { type: PaymentSource.STCPAY, mobile: "0501234567" },
+      });
+      expect(payment.status).toBe(PaymentStatus.INITIATED);
+
+      await expect(payments.stcpay.submitOtp(payment, "0000")).rejects.toThrow(
+        StcPayInvalidOtpError
+      );
+
+      const result = await payments.stcpay.submitOtp(
+        payment,
+        FakeApiClientDefaults.STCPAY_OTP
+      );
+      expect(result.paid).toBe(true);
+      expect(result.payment.status).toBe(PaymentStatus.PAID);
+    });
+  });
+
+  describe("listing", () => {
+    it("should filter by status and metadata, newest first", async () => {
+      const paid = await payments.create(cardPayment("4000000000000077"));
+      await payments.create(cardPayment("4000000000000002"));
+      const other = await payments.create({
+        ...cardPayment("4000000000000077"),
+        metadata: { order_id: "ORD-2" },
+      });
+
+      const byStatus = await payments.getPaid();
+      expect(byStatus.payments.map(p => p.id)).toEqual([other.id, paid.id]);
+      expect(byStatus.meta).toMatchObject({ total_count: 2, next_page: null });
+
+      const byMetadata = await payments.searchByMetadata({
+        metadata: { order_id: "ORD-2" },
+        options: {},
+      });
+      expect(byMetadata.payments.map(p => p.id)).toEqual([other.id]);
+    });
+
+    it("should paginate 40 items per page", async () => {
+      for (let i = 0; i < 41; i++) {
+        await invoices.create({
+          amount: 1000,
+          currency: "SAR",
+          description: `Invoice ${i}`,
+        });
+      }
+
+      const first = await invoices.list();
+      expect(first.invoices).toHaveLength(40);
+      expect(first.meta).toMatchObject({ next_page: 2, total_pages: 2 });
+      expect(await invoices.listAll()).toHaveLength(41);
+    });
+  });
+
+  describe("invoices", () => {
+    it("should mark invoices paid, then refunded, with their payments", async () => {
+      const invoice = await invoices.create({
+        amount: 2500,
+        currency: "SAR",
+        description: "Subscription",
+        metadata: { order_id: "ORD-3" },
+      });
+      expect(invoice.status).toBe(InvoiceStatus.INITIATED);
+
+      const paid = await fake.payInvoice(invoice.id);
+      expect(paid.status).toBe(InvoiceStatus.PAID);
+      expect(paid.payments).toHaveLength(1);
+      expect(paid.payments[0]).toMatchObject({
+        status: PaymentStatus.PAID,
+        invoice_id: invoice.id,
+        amount: 2500,
+      });
+
+      await payments.refund({ paymentId: paid.payments[0]!.id, refund: {} });
+      expect((await invoices.retrieve(invoice.id)).status).toBe(
+        InvoiceStatus.REFUNDED
+      );
+    });
+
+    it("should keep invoices initiated after a declined payment", async () => {
+      const invoice = await invoices.create({
+        amount: 2500,
+        currency: "SAR",
+        description: "Subscription",
+      });
+
+      const detailed = await fake.payInvoice(invoice.id, "4000000000000002");
+      expect(detailed.status).toBe(InvoiceStatus.INITIATED);
+      expect(detailed.payments[0]?.status).toBe(PaymentStatus.FAILED);
+    });
+
+    it("should cancel and expire initiated invoices only", async () => {
+      let now = new Date("2030-01-01T00:00:00Z");
+      fake = new FakeApiClient({ now: () => now });
+      invoices = new InvoiceService({ apiClient: fake });
+
+      const expiring = await invoices.create({
+        amount: 1000,
+        currency: "SAR",
+        description: "Expiring",
+        expired_at: new Date("2030-01-02T00:00:00Z"),
+      });
+      const canceled = await invoices.cancel(
+        (
+          await invoices.create({
+            amount: 1000,
+            currency: "SAR",
+            description: "Canceled",
+          })
+        ).id
+      );
+      expect(canceled.status).toBe(InvoiceStatus.CANCELED);
+      await expect(invoices.cancel(canceled.id)).rejects.toThrow();
+
+      now = new Date("2030-01-03T00:00:00Z");
+      expect((await invoices.retrieve(expiring.id)).status).toBe(
+        InvoiceStatus.EXPIRED
+      );
+      await expect(fake.payInvoice(expiring.id)).rejects.toThrow(
+        InvalidRequestError
+      );
+    });
+  });
+
+  it("should reject endpoints it doesn't implement", async () => {
+    const error = await fake
+      .request({ method: "GET", url: "/v1/tokens/token_123" })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(InvalidRequestError);
+    expect(error.statusCode).toBe(404);
+  });
+});
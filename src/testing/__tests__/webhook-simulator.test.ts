@@ -0,0 +1,171 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "bun:test";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { WebhookEvent, WebhookHttpMethod, WebhookService } from "@webhook";
+import { FakeApiClient, WebhookSimulator, buildPayment } from "@/testing";
+
+const SECRET_TOKEN = "whsec_simulator";
+
+describe("WebhookSimulator", () => {
+  let server: Server;
+  let url: string;
+  let statuses: number[];
+  let received: Array<{ method: string; body: any }>;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", () => {
+        received.push({ method: req.method!, body: JSON.parse(body) });
+        res.statusCode = statuses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `http://localhost:${(server.address() as AddressInfo).port}/webhooks`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  beforeEach(() => {
+    statuses = [];
+    received = [];
+  });
+
+  it("should send built payloads with the secret token and webhook method", async () => {
+    const simulator = new WebhookSimulator({
+      webhook: { url, http_method: WebhookHttpMethod.PUT },
+      secretToken: SECRET_TOKEN,
+    });
+
+    const payload = simulator.build(WebhookEvent.PAYMENT_PAID);
+    const delivery = await simulator.send(payload);
+
+    expect(delivery).toMatchObject({ attempt: 1, status: 200, ok: true });
+    expect(received).toEqual([
+      { method: "PUT", body: JSON.parse(JSON.stringify(payload)) },
+    ]);
+    expect(received[0]?.body).toMatchObject({
+      type: WebhookEvent.PAYMENT_PAID,
+      secret_token: SECRET_TOKEN,
+      data: { status: "paid" },
+    });
+  });
+
+  it("should redeliver failed webhooks following the retry schedule", async () => {
+    const waits: number[] = [];
+    const simulator = new WebhookSimulator({
+      url,
+      secretToken: SECRET_TOKEN,
+      retrySchedule: [10, 20, 30],
+      sleep: async ms => {
+        waits.push(ms);
+      },
+    });
+    statuses = [500, 503];
+
+    const attempts = await simulator.deliver(
+      simulator.build(WebhookEvent.PAYMENT_FAILED)
+    );
+
+    expect(attempts.map(a => [a.attempt, a.status])).toEqual([
+      [1, 500],
+      [2, 503],
+      [3, 200],
+    ]);
+    expect(waits).toEqual([10, 20]);
+  });
+
+  it("should stop after the last retry or a client error", async () => {
+    const simulator = new WebhookSimulator({
+      url,
+      secretToken: SECRET_TOKEN,
+      retrySchedule: [0, 0],
+    });
+
+    statuses = [500, 500, 500, 500];
+    expect(
+      await simulator.deliver(simulator.build(WebhookEvent.PAYMENT_PAID))
+    ).toHaveLength(3);
+
+    statuses = [401];
+    expect(
+      await simulator.deliver(simulator.build(WebhookEvent.PAYMENT_PAID))
+    ).toHaveLength(1);
+  });
+
+  it("should report unreachable endpoints as status 0", async () => {
+    const simulator = new WebhookSimulator({
+      url: "http://127.0.0.1:1/webhooks",
+      secretToken: SECRET_TOKEN,
+      retrySchedule: [],
+    });
+
+    const [delivery] = await simulator.deliver(
+      simulator.build(WebhookEvent.PAYMENT_PAID)
+    );
+
+    expect(delivery).toMatchObject({ status: 0, ok: false });
+    expect(delivery?.error).toBeDefined();
+  });
+
+  it("should send duplicates and out-of-order deliveries", async () => {
+    const simulator = new WebhookSimulator({ url, secretToken: SECRET_TOKEN });
+    const payment = buildPayment();
+    const paid = simulator.build(WebhookEvent.PAYMENT_PAID, { data: payment });
+    const refunded = simulator.build(WebhookEvent.PAYMENT_REFUNDED, {
+      data: { ...payment, status: "refunded" },
+    });
+
+    await simulator.sendDuplicates(paid, 3);
+    await simulator.sendOutOfOrder([paid, refunded]);
+
+    expect(received.map(r => r.body.id)).toEqual([
+      paid.id,
+      paid.id,
+      paid.id,
+      refunded.id,
+      paid.id,
+    ]);
+    expect(simulator.deliveries).toHaveLength(5);
+  });
+
+  it("should be skipped as duplicate by a WebhookService endpoint", async () => {
+    const webhook = new WebhookService({
+      apiClient: new FakeApiClient(),
+      deduplication: {},
+    });
+    const handled: boolean[] = [];
+    webhook.on(WebhookEvent.PAYMENT_PAID, payload => {
+      handled.push(payload.duplicate ?? false);
+    });
+    const endpoint = createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", async () => {
+        await webhook.processWebhook(body, { secret_token: SECRET_TOKEN });
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => endpoint.listen(0, resolve));
+
+    const simulator = new WebhookSimulator({
+      url: `http://localhost:${(endpoint.address() as AddressInfo).port}`,
+      secretToken: SECRET_TOKEN,
+    });
+    await simulator.sendDuplicates(simulator.build(WebhookEvent.PAYMENT_PAID));
+    endpoint.close();
+
+    expect(handled).toEqual([false]);
+  });
+});
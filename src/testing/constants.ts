@@ -0,0 +1,67 @@
+import { PaymentStatus } from "@payment";
+import type { FakeCardBehavior } from "./types";
+
+const approved = (threeDS: boolean): FakeCardBehavior => ({
+  threeDS,
+  status: PaymentStatus.PAID,
+  response_code: "00",
+  message: "APPROVED",
+});
+
+const declined = (
+  response_code: string,
+  message: string
+): FakeCardBehavior => ({
+  threeDS: false,
+  status: PaymentStatus.FAILED,
+  response_code,
+  message,
+});
+
+/**
+ * Test cards of `FakeApiClient`, other card numbers are paid after 3DS
+ */
+export const FAKE_TEST_CARDS: Readonly<Record<string, FakeCardBehavior>> =
+  Object.freeze({
+    // Paid after 3DS
+    "4111111111111111": approved(true), // visa
+    "5421080101000000": approved(true), // master
+    "4201320111111010": approved(true), // mada
+    "340000000000009": approved(true), // amex
+    // Paid without 3DS
+    "4000000000000077": approved(false),
+    // Failed after 3DS
+    "4000000000003220": {
+      threeDS: true,
+      status: PaymentStatus.FAILED,
+      response_code: "1A",
+      message: "3-D Secure transaction attempt failed",
+    },
+    // Declined
+    "4000000000000002": declined("05", "DO NOT HONOR"),
+    "4000000000009995": declined("51", "INSUFFICIENT FUNDS"),
+    "4000000000000069": declined("54", "EXPIRED CARD"),
+    "4000000000000127": declined("N7", "INVALID CVV"),
+    "4000000000009987": declined("41", "LOST CARD"),
+    "4000000000000119": declined("96", "SYSTEM MALFUNCTION"),
+    "4201320000000019": declined("116", "INSUFFICIENT FUNDS"), // mada
+  });
+
+export const FakeApiClientDefaults = {
+  STCPAY_OTP: "123456",
+  IP: "127.0.0.1",
+  ACCOUNT_NAME: "Fake Moyasar",
+  SECRET_TOKEN: "fake_secret_token",
+} as const;
+
+export const WebhookSimulatorDefaults = {
+  // Waits before each redelivery of a failed webhook, in milliseconds, approximating Moyasar's schedule
+  RETRY_SCHEDULE: [
+    60 * 1000,
+    5 * 60 * 1000,
+    30 * 60 * 1000,
+    2 * 60 * 60 * 1000,
+    12 * 60 * 60 * 1000,
+  ],
+  TIMEOUT: 10000, // Request timeout of each delivery, in milliseconds
+} as const;
@@ -0,0 +1,313 @@
+import type { CurrencyType, Metadata } from "@types";
+import {
+  CardScheme,
+  PaymentSource,
+  PaymentStatus,
+  type CreditCardSource,
+  type Payment,
+  type StcPaySource,
+  type WalletPaymentSource,
+} from "@payment";
+import { InvoiceStatus, type DetailedInvoice } from "@invoice";
+import {
+  PayoutDestinationType,
+  PayoutPurpose,
+  PayoutStatus,
+  type Payout,
+} from "@payout";
+import type { Settlement } from "@settlement";
+import {
+  WebhookEvent,
+  WebhookUtils,
+  type PaymentWebhookEvent,
+  type PayoutWebhookEvent,
+  type WebhookPayloadOf,
+} from "@webhook";
+import { DEFAULT_API_CONFIG } from "@constants";
+import { Money } from "../shared/utils/money.utils";
+import { FakeApiClientDefaults } from "./constants";
+import type {
+  BuildInvoiceOptions,
+  BuildPaymentOptions,
+  BuildWebhookPayloadOptions,
+} from "./types";
+
+const PAYMENT_STATUSES: Record<PaymentWebhookEvent, PaymentStatus> = {
+  [WebhookEvent.PAYMENT_PAID]: PaymentStatus.PAID,
+  [WebhookEvent.PAYMENT_FAILED]: PaymentStatus.FAILED,
+  [WebhookEvent.PAYMENT_AUTHORIZED]: PaymentStatus.AUTHORIZED,
+  [WebhookEvent.PAYMENT_CAPTURED]: PaymentStatus.CAPTURED,
+  [WebhookEvent.PAYMENT_REFUNDED]: PaymentStatus.REFUNDED,
+  [WebhookEvent.PAYMENT_VOIDED]: PaymentStatus.VOIDED,
+  [WebhookEvent.PAYMENT_VERIFIED]: PaymentStatus.VERIFIED,
+  [WebhookEvent.PAYMENT_ABANDONED]: PaymentStatus.INITIATED,
+  [WebhookEvent.PAYMENT_CANCELED]: PaymentStatus.INITIATED,
+  [WebhookEvent.PAYMENT_EXPIRED]: PaymentStatus.INITIATED,
+};
+
+const PAYOUT_STATUSES: Record<PayoutWebhookEvent, PayoutStatus> = {
+  [WebhookEvent.PAYOUT_INITIATED]: PayoutStatus.INITIATED,
+  [WebhookEvent.PAYOUT_PAID]: PayoutStatus.PAID,
+  [WebhookEvent.PAYOUT_FAILED]: PayoutStatus.FAILED,
+  [WebhookEvent.PAYOUT_CANCELED]: PayoutStatus.CANCELED,
+  [WebhookEvent.PAYOUT_RETURNED]: PayoutStatus.RETURNED,
+};
+
+/**
+ * Status of the payment attached by default to an invoice
+ */
+const INVOICE_PAYMENT_STATUSES: Partial<Record<InvoiceStatus, PaymentStatus>> =
+  {
+    [InvoiceStatus.PAID]: PaymentStatus.PAID,
+    [InvoiceStatus.FAILED]: PaymentStatus.FAILED,
+    [InvoiceStatus.REFUNDED]: PaymentStatus.REFUNDED,
+    [InvoiceStatus.VOIDED]: PaymentStatus.VOIDED,
+  };
+
+const CAPTURED_STATUSES: PaymentStatus[] = [
+  PaymentStatus.PAID,
+  PaymentStatus.CAPTURED,
+  PaymentStatus.REFUNDED,
+  PaymentStatus.VOIDED,
+];
+
+const format = (
+  amount: number,
+  currency: CurrencyType
+): `${number} ${CurrencyType}` => Money.of(amount, currency).format();
+
+const buildSource = (
+  status: PaymentStatus,
+  source: BuildPaymentOptions["source"] = {}
+): Payment["source"] => {
+  const type = source.type ?? PaymentSource.CREDITCARD;
+
+  if (type === PaymentSource.STCPAY) {
+    return {
+      type,
+      mobile: "0501234567",
+      transaction_url: null,
+      message: status === PaymentStatus.FAILED ? "Declined" : "Paid",
+      ...source,
+    } as StcPaySource;
+  }
+
+  const failed = status === PaymentStatus.FAILED;
+  const settled = !failed && status !== PaymentStatus.INITIATED;
+  const card = {
+    company: CardScheme.VISA,
+    name: type === PaymentSource.CREDITCARD ? "Test User" : null,
+    number: "4111-11XX-XXXX-1111",
+    gateway_id: "moyasar_ap_0000000000000000",
+    message: failed ? "DO NOT HONOR" : settled ? "APPROVED" : null,
+    reference_number: settled ? "000000000000" : null,
+    ...(failed && { response_code: "05" }),
+    ...(settled && { response_code: "00", authorization_code: "000000" }),
+  };
+
+  return type === PaymentSource.CREDITCARD
+    ? ({
+        type,
+        ...card,
+        token: null,
+        transaction_url: null,
+        ...source,
+      } as CreditCardSource)
+    : ({ type, ...card, ...source } as WalletPaymentSource);
+};
+
+/**
+ * Build a `Payment` valid against `PaymentSchema`, with the amounts, dates and source of its status.
+ *
+ * @example
+ * ```ts
+ * buildPayment({ status: PaymentStatus.FAILED, metadata: { order_id: "ORD-1" } });
+ * buildPayment({ source: { type: PaymentSource.STCPAY, mobile: "0551234567" } });
+ * ```
+ */
+export function buildPayment<T extends object = Metadata>(
+  options: BuildPaymentOptions<T> = {}
+): Payment<T> {
+  const { source, ...overrides } = options;
+  const status = overrides.status ?? PaymentStatus.PAID;
+  const amount = overrides.amount ?? 5000;
+  const currency = overrides.currency ?? "SAR";
+  const createdAt = overrides.created_at ?? new Date();
+  const captured =
+    overrides.captured ?? (CAPTURED_STATUSES.includes(status) ? amount : 0);
+  const refunded =
+    overrides.refunded ?? (status === PaymentStatus.REFUNDED ? captured : 0);
+
+  return {
+    id: crypto.randomUUID(),
+    status,
+    amount,
+    fee: 0,
+    currency,
+    refunded,
+    refunded_at: refunded ? createdAt : null,
+    captured,
+    captured_at: captured ? createdAt : null,
+    voided_at: status === PaymentStatus.VOIDED ? createdAt : null,
+    description: "Test payment",
+    amount_format: format(amount, currency),
+    fee_format: format(overrides.fee ?? 0, currency),
+    refunded_format: format(refunded, currency),
+    captured_format: format(captured, currency),
+    invoice_id: null,
+    ip: FakeApiClientDefaults.IP,
+    callback_url: "https://example.com/callback",
+    created_at: createdAt,
+    updated_at: createdAt,
+    metadata: null,
+    ...overrides,
+    source: buildSource(status, source),
+  };
+}
+
+/**
+ * Build a `DetailedInvoice` valid against `invoiceSchema`. Paid, failed, refunded and voided invoices
+ * get one payment of the same status unless `payments` is given.
+ *
+ * @example
+ * ```ts
+ * buildInvoice({ status: InvoiceStatus.PAID, metadata: { order_id: "ORD-1" } });
+ * ```
+ */
+export function buildInvoice<T extends object = Metadata>(
+  options: BuildInvoiceOptions<T> = {}
+): DetailedInvoice<T> {
+  const id = options.id ?? crypto.randomUUID();
+  const status = options.status ?? InvoiceStatus.INITIATED;
+  const amount = options.amount ?? 5000;
+  const currency = options.currency ?? "SAR";
+  const createdAt = options.created_at ?? new Date();
+  const paymentStatus = INVOICE_PAYMENT_STATUSES[status];
+
+  return {
+    id,
+    status,
+    amount,
+    currency,
+    description: "Test invoice",
+    amount_format: format(amount, currency),
+    url: new URL(`/invoices/${id}`, DEFAULT_API_CONFIG.BASE_URL).toString(),
+    created_at: createdAt,
+    updated_at: createdAt,
+    metadata: null,
+    ...options,
+    payments:
+      options.payments ??
+      (paymentStatus
+        ? [
+            buildPayment<T>({
+              status: paymentStatus,
+              amount,
+              currency,
+              invoice_id: id,
+              created_at: createdAt,
+              metadata: options.metadata ?? null,
+            }),
+          ]
+        : []),
+  };
+}
+
+const buildPayout = <T extends object>(
+  status: PayoutStatus,
+  createdAt: Date
+): Payout<T> => ({
+  id: crypto.randomUUID(),
+  source_id: crypto.randomUUID(),
+  sequence_number: "1",
+  channel: null,
+  status,
+  amount: 5000,
+  currency: "SAR",
+  purpose: PayoutPurpose.BILLS_OR_RENT,
+  comment: null,
+  destination: {
+    type: PayoutDestinationType.BANK,
+    iban: "SA0380000000608010167519",
+    name: "Test User",
+    country: "SA",
+    city: "Riyadh",
+  },
+  message: null,
+  failure_reason: status === PayoutStatus.FAILED ? "Rejected by bank" : null,
+  created_at: createdAt,
+  updated_at: createdAt,
+  metadata: null,
+});
+
+const buildSettlement = (createdAt: Date): Settlement => ({
+  id: crypto.randomUUID(),
+  recipient_type: "Entity",
+  recipient_id: crypto.randomUUID(),
+  currency: "SAR",
+  amount: 5000,
+  fee: 0,
+  tax: 0,
+  net_amount: 5000,
+  settlement_count: 1,
+  reference: null,
+  invoice_url: null,
+  created_at: createdAt,
+  updated_at: createdAt,
+});
+
+/**
+ * Build the webhook payload of an event, valid against `WebhookUtils.validateWebhookPayload`.
+ * `data` defaults to a payment, payout or settlement matching the event, e.g. a paid payment for `payment_paid`.
+ *
+ * @example
+ * ```ts
+ * const payload = buildWebhookPayload(WebhookEvent.PAYMENT_PAID, {
+ *   data: buildPayment({ metadata: { order_id: "ORD-1" } }),
+ * });
+ * await client.webhook.processWebhook(payload, { secret_token: payload.secret_token });
+ * ```
+ */
+export function buildWebhookPayload<
+  E extends WebhookEvent,
+  T extends object = Metadata,
+>(
+  event: E,
+  options: BuildWebhookPayloadOptions<E, T> = {}
+): WebhookPayloadOf<E, T> {
+  // `created_at` is always serialized, `data` replaces the default of the event
+  const { created_at, data: customData, ...rest } = options;
+  const createdAt = created_at ? new Date(created_at) : new Date();
+
+  let data: unknown = customData;
+  if (data === undefined) {
+    switch (WebhookUtils.getEventCategory(event)) {
+      case "payment":
+        data = buildPayment<T>({
+          status: PAYMENT_STATUSES[event as PaymentWebhookEvent],
+          created_at: createdAt,
+        });
+        break;
+      case "payout":
+        data = buildPayout<T>(
+          PAYOUT_STATUSES[event as PayoutWebhookEvent],
+          createdAt
+        );
+        break;
+      default:
+        data = buildSettlement(createdAt);
+    }
+  }
+
+  // The event type and data are correlated by the union, which TS can't follow here
+  return {
+    id: crypto.randomUUID(),
+    secret_token: FakeApiClientDefaults.SECRET_TOKEN,
+    account_name: FakeApiClientDefaults.ACCOUNT_NAME,
+    live: false,
+    ...rest,
+    type: event,
+    created_at: createdAt.toISOString(),
+    data,
+  } as WebhookPayloadOf<E, T>;
+}
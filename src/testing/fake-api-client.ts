@@ -0,0 +1,832 @@
+import type {
+  ApiClient,
+  CurrencyType,
+  DefaultMoyasarClientTypes,
+  Metadata,
+  MetadataValidator,
+  MoyasarClientTypes,
+  PaginationMeta,
+  RequestConfig,
+} from "@types";
+import { DEFAULT_API_CONFIG } from "@constants";
+import { ApiErrorType, MoyasarApiError } from "@errors";
+import {
+  CardScheme,
+  CardUtils,
+  PaymentSource,
+  PaymentStatus,
+  PaymentUtils,
+  type CapturePaymentRequest,
+  type CreatePaymentRequest,
+  type CreditCardSource,
+  type Payment,
+  type RefundPaymentRequest,
+  type StcPaySource,
+  type UpdatePaymentRequest,
+  type WalletPaymentSource,
+} from "@payment";
+import {
+  InvoiceStatus,
+  InvoiceUtils,
+  type BulkCreateInvoiceRequest,
+  type CreateInvoiceRequest,
+  type DetailedInvoice,
+  type Invoice,
+  type UpdateInvoiceRequest,
+} from "@invoice";
+import {
+  WebhookEvent,
+  type WebhookPayload,
+  type WebhookService,
+} from "@webhook";
+import { Money } from "../shared/utils/money.utils";
+import { FAKE_TEST_CARDS, FakeApiClientDefaults } from "./constants";
+import type {
+  FakeApiClientOptions,
+  FakeCardBehavior,
+  FakeRequestRecord,
+  FakeWebhookDelivery,
+} from "./types";
+
+const PAGE_SIZE = 40;
+
+const UNKNOWN_CARD: FakeCardBehavior = {
+  threeDS: true,
+  status: PaymentStatus.PAID,
+  response_code: "00",
+  message: "APPROVED",
+};
+
+const FAILED_3DS: FakeCardBehavior = {
+  threeDS: false,
+  status: PaymentStatus.FAILED,
+  response_code: "1A",
+  message: "3-D Secure transaction attempt failed",
+};
+
+const WEBHOOK_EVENTS: Partial<Record<PaymentStatus, WebhookEvent>> = {
+  [PaymentStatus.PAID]: WebhookEvent.PAYMENT_PAID,
+  [PaymentStatus.FAILED]: WebhookEvent.PAYMENT_FAILED,
+  [PaymentStatus.AUTHORIZED]: WebhookEvent.PAYMENT_AUTHORIZED,
+  [PaymentStatus.CAPTURED]: WebhookEvent.PAYMENT_CAPTURED,
+  [PaymentStatus.REFUNDED]: WebhookEvent.PAYMENT_REFUNDED,
+  [PaymentStatus.VOIDED]: WebhookEvent.PAYMENT_VOIDED,
+};
+
+const INVOICE_STATUSES: Partial<Record<PaymentStatus, InvoiceStatus>> = {
+  [PaymentStatus.PAID]: InvoiceStatus.PAID,
+  [PaymentStatus.REFUNDED]: InvoiceStatus.REFUNDED,
+  [PaymentStatus.VOIDED]: InvoiceStatus.VOIDED,
+};
+
+type CardPaymentSource = CreditCardSource | WalletPaymentSource;
+
+/**
+ * Stateful in-memory fake of the Moyasar API, to run payment and invoice flows in tests without network.
+ *
+ * - Card payments follow `FAKE_TEST_CARDS`: paid, declined, or `initiated` until `authenticate` completes the 3DS challenge
+ * - STC Pay payments are paid with the OTP `FakeApiClientDefaults.STCPAY_OTP`
+ * - Capture, refund and void follow the rules of the API
+ * - Payment status changes are sent as webhooks to the services given to `connectWebhook`
+ *
+ * Only the payment and invoice endpoints are implemented, other requests fail with a 404 `InvalidRequestError`.
+ *
+ * @example
+ * ```ts
+ * const fake = new FakeApiClient();
+ * const webhook = new WebhookService({ apiClient: fake });
+ * const payments = new PaymentService({ apiClient: fake, webhook });
+ * fake.connectWebhook(webhook);
+ *
+ * webhook.on("payment_paid", payload => fulfil(payload.data));
+ * const payment = await payments.create({ ..., source: { type: "creditcard", number: "4111111111111111", ... } });
+ * await fake.authenticate(payment.id); // paid, `payment_paid` is emitted
+ * ```
+ */
+export class FakeApiClient<
+  T extends MoyasarClientTypes = DefaultMoyasarClientTypes,
+> implements ApiClient<T>
+{
+  public readonly metadataValidator: MetadataValidator<T["metadata"]>;
+  public readonly requestHistory: FakeRequestRecord[] = [];
+  public readonly webhookDeliveries: FakeWebhookDelivery<T["metadata"]>[] = [];
+
+  public readonly baseUrl: string;
+  private readonly cards: Record<string, FakeCardBehavior>;
+  private readonly stcPayOtp: string;
+  private readonly now: () => Date;
+  private readonly paymentUtils: PaymentUtils<T["metadata"]>;
+  private readonly invoiceUtils: InvoiceUtils<T["metadata"]>;
+  private readonly payments = new Map<string, Payment>();
+  private readonly invoices = new Map<string, Invoice>();
+  private readonly pending3DS = new Map<
+    string,
+    { card: FakeCardBehavior; manual: boolean }
+  >();
+  private readonly webhooks: {
+    service: WebhookService<T>;
+    secretToken: string;
+  }[] = [];
+
+  constructor(options: FakeApiClientOptions<T["metadata"]> = {}) {
+    this.metadataValidator = options.metadataValidator ?? {
+      parse: payload => payload as T["metadata"],
+    };
+    this.baseUrl = options.baseUrl ?? DEFAULT_API_CONFIG.BASE_URL;
+    this.cards = { ...FAKE_TEST_CARDS, ...options.cards };
+    this.stcPayOtp = options.stcPayOtp ?? FakeApiClientDefaults.STCPAY_OTP;
+    this.now = options.now ?? (() => new Date());
+    this.paymentUtils = new PaymentUtils({
+      metadataValidator: this.metadataValidator,
+    });
+    this.invoiceUtils = new InvoiceUtils({
+      metadataValidator: this.metadataValidator,
+    });
+  }
+
+  async request<R = any>(config: RequestConfig): Promise<R> {
+    const method = (config.method ?? "GET").toUpperCase();
+    const url = new URL(config.url ?? "/", this.baseUrl);
+    this.requestHistory.push({
+      method,
+      url: config.url ?? "/",
+      data: config.data,
+      params: config.params,
+    });
+
+    const data =
+      typeof config.data === "string"
+        ? JSON.parse(config.data)
+        : (config.data ?? {});
+    const params: Record<string, unknown> = {
+      ...Object.fromEntries(url.searchParams),
+      ...config.params,
+    };
+
+    const response = await this.route(method, url.pathname, data, params);
+    // Same shape as a JSON response, dates become strings
+    return this.serialize(response) as R;
+  }
+
+  /**
+   * Send the webhooks of payment status changes to `service`, as `processWebhook` would receive them from Moyasar
+   */
+  connectWebhook(
+    service: WebhookService<T>,
+    secretToken: string = FakeApiClientDefaults.SECRET_TOKEN
+  ): void {
+    this.webhooks.push({ service, secretToken });
+  }
+
+  /**
+   * Complete the 3DS challenge of an `initiated` card payment, as the payer would on `source.transaction_url`.
+   *
+   * The payment then gets the outcome of its test card, or fails when `passed` is `false`.
+   */
+  async authenticate(
+    paymentId: string,
+    passed: boolean = true
+  ): Promise<Payment<T["metadata"]>> {
+    const payment = this.findPayment(paymentId);
+    const pending = this.pending3DS.get(paymentId);
+    if (!pending || payment.status !== PaymentStatus.INITIATED) {
+      throw this.error(`Payment ${paymentId} has no pending 3DS challenge`);
+    }
+
+    this.pending3DS.delete(paymentId);
+    await this.settle(
+      payment,
+      passed ? pending.card : FAILED_3DS,
+      pending.manual
+    );
+    return this.paymentUtils.parsePayment(this.serialize(payment));
+  }
+
+  /**
+   * Pay an invoice through its checkout page with a test card, 3DS challenges are passed.
+   */
+  async payInvoice(
+    invoiceId: string,
+    cardNumber: string = "4111111111111111"
+  ): Promise<DetailedInvoice<T["metadata"]>> {
+    const invoice = this.findInvoice(invoiceId);
+    if (invoice.status !== InvoiceStatus.INITIATED) {
+      throw this.error(
+        `Invoice ${invoiceId} can't be paid, it is ${invoice.status}`
+      );
+    }
+
+    const payment = await this.createPayment(
+      {
+        amount: invoice.amount,
+        currency: invoice.currency,
+        description: invoice.description,
+        callback_url: invoice.callback_url ?? "",
+        metadata: invoice.metadata,
+        source: {
+          type: PaymentSource.CREDITCARD,
+          name: "Test Payer",
+          number: cardNumber,
+          month: 12,
+          year: this.now().getFullYear() + 1,
+          cvc: "1".repeat(
+            CardUtils.getCvcLength(CardUtils.detectScheme(cardNumber))
+          ),
+        },
+      },
+      invoice.id
+    );
+    if (this.pending3DS.has(payment.id)) await this.authenticate(payment.id);
+
+    return this.invoiceUtils.parseDetailedInvoice(
+      this.serialize(this.toDetailedInvoice(invoice))
+    );
+  }
+
+  /**
+   * Forget every payment, invoice, request and webhook delivery, connected webhook services are kept
+   */
+  reset(): void {
+    this.payments.clear();
+    this.invoices.clear();
+    this.pending3DS.clear();
+    this.requestHistory.length = 0;
+    this.webhookDeliveries.length = 0;
+  }
+
+  private async route(
+    method: string,
+    path: string,
+    data: any,
+    params: Record<string, unknown>
+  ): Promise<unknown> {
+    const [version, resource, id, action, ...rest] = path
+      .split("/")
+      .filter(Boolean);
+
+    if (version === "v1" && rest.length === 0) {
+      if (resource === "payments") {
+        if (!id && method === "GET") return this.listPayments(params);
+        if (!id && method === "POST") return this.createPayment(data);
+        if (id && !action && method === "GET") return this.findPayment(id);
+        if (id && !action && method === "PUT")
+          return this.updatePayment(id, data);
+        if (id && action === "capture" && method === "POST")
+          return this.capturePayment(id, data);
+        if (id && action === "refund" && method === "POST")
+          return this.refundPayment(id, data);
+        if (id && action === "void" && method === "POST")
+          return this.voidPayment(id);
+      }
+
+      if (resource === "stc_pays" && id && action === "proceed") {
+        if (method === "POST") return this.submitStcPayOtp(id, data);
+      }
+
+      if (resource === "invoices") {
+        if (id === "bulk" && !action && method === "POST")
+          return this.bulkCreateInvoices(data);
+        if (!id && method === "GET") return this.listInvoices(params);
+        if (!id && method === "POST") return this.createInvoice(data);
+        if (id && !action && method === "GET")
+          return this.toDetailedInvoice(this.findInvoice(id));
+        if (id && !action && method === "PUT")
+          return this.updateInvoice(id, data);
+        if (id && action === "cancel" && method === "PUT")
+          return this.cancelInvoice(id);
+      }
+    }
+
+    throw this.error(
+      `${method} ${path} is not supported by FakeApiClient`,
+      404
+    );
+  }
+
+  private async createPayment(
+    request: CreatePaymentRequest,
+    invoiceId: string | null = null
+  ): Promise<Payment> {
+    const existing = request.given_id && this.payments.get(request.given_id);
+    if (existing) return existing;
+
+    const id = request.given_id ?? crypto.randomUUID();
+    const now = this.now();
+    const payment: Payment = {
+      id,
+      status: PaymentStatus.INITIATED,
+      amount: request.amount,
+      fee: 0,
+      currency: request.currency,
+      refunded: 0,
+      refunded_at: null,
+      captured: 0,
+      captured_at: null,
+      voided_at: null,
+      description: request.description,
+      amount_format: this.format(request.amount, request.currency),
+      fee_format: this.format(0, request.currency),
+      refunded_format: this.format(0, request.currency),
+      captured_format: this.format(0, request.currency),
+      invoice_id: invoiceId,
+      ip: FakeApiClientDefaults.IP,
+      callback_url: request.callback_url || null,
+      created_at: now,
+      updated_at: now,
+      metadata: request.metadata ?? null,
+      source: this.createSource(id, request.source),
+    };
+    this.payments.set(id, payment);
+
+    const source = request.source;
+    switch (source.type) {
+      case PaymentSource.STCPAY:
+        // Waits for the OTP
+        break;
+      case PaymentSource.CREDITCARD: {
+        const card = this.cards[source.number] ?? UNKNOWN_CARD;
+        const manual = source.manual ?? false;
+        if (card.threeDS && source["3ds"] !== false) {
+          this.pending3DS.set(id, { card, manual });
+          (payment.source as CreditCardSource).transaction_url =
+            `${this.baseUrl}/v1/transaction_auths/${id}/form`;
+          break;
+        }
+        await this.settle(payment, card, manual);
+        break;
+      }
+      default:
+        await this.settle(
+          payment,
+          { ...UNKNOWN_CARD, threeDS: false },
+          "manual" in source ? (source.manual ?? false) : false
+        );
+    }
+
+    return payment;
+  }
+
+  private createSource(
+    paymentId: string,
+    source: CreatePaymentRequest["source"]
+  ): Payment["source"] {
+    const gateway_id = `moyasar_ap_${this.randomDigits(16)}`;
+
+    switch (source.type) {
+      case PaymentSource.STCPAY: {
+        const stcPay: StcPaySource = {
+          type: PaymentSource.STCPAY,
+          mobile: source.mobile,
+          transaction_url: `${this.baseUrl}/v1/stc_pays/${paymentId}/proceed?otp_token=${this.randomDigits(12)}`,
+          message: "OTP sent",
+        };
+        if (source.cashier_id) stcPay.cashier_id = source.cashier_id;
+        if (source.branch) stcPay.branch = source.branch;
+        return stcPay;
+      }
+      case PaymentSource.CREDITCARD:
+        return {
+          type: PaymentSource.CREDITCARD,
+          company: CardUtils.detectScheme(source.number) ?? null,
+          name: source.name,
+          number: this.maskCardNumber(source.number),
+          gateway_id,
+          message: null,
+          reference_number: null,
+          token: source.save_card ? `token_${this.randomId()}` : null,
+          transaction_url: null,
+        };
+      case PaymentSource.TOKEN:
+        return {
+          type: PaymentSource.CREDITCARD,
+          company: null,
+          name: null,
+          number: "XXXX-XXXX-XXXX-XXXX",
+          gateway_id,
+          message: null,
+          reference_number: null,
+          token: source.token,
+          transaction_url: null,
+        };
+      default:
+        return {
+          type: source.type,
+          company: CardScheme.VISA,
+          name: null,
+          number: "4111-11XX-XXXX-1111",
+          gateway_id,
+          message: null,
+          reference_number: null,
+        };
+    }
+  }
+
+  /**
+   * Apply the outcome of the card to a card or wallet payment
+   */
+  private async settle(
+    payment: Payment,
+    card: FakeCardBehavior,
+    manual: boolean
+  ): Promise<void> {
+    const source = payment.source as CardPaymentSource;
+    source.message = card.message;
+    source.response_code = card.response_code;
+
+    if (card.status === PaymentStatus.FAILED) {
+      return this.transition(payment, PaymentStatus.FAILED);
+    }
+
+    source.reference_number = this.randomDigits(12);
+    source.authorization_code = this.randomDigits(6);
+    if (!manual) {
+      payment.captured = payment.amount;
+      payment.captured_at = this.now();
+    }
+    await this.transition(
+      payment,
+      manual ? PaymentStatus.AUTHORIZED : PaymentStatus.PAID
+    );
+  }
+
+  /**
+   * Update the payment status, the status of its invoice, and send the webhook of the new status
+   */
+  private async transition(
+    payment: Payment,
+    status: PaymentStatus
+  ): Promise<void> {
+    const now = this.now();
+    payment.status = status;
+    payment.updated_at = now;
+    payment.captured_format = this.format(payment.captured, payment.currency);
+    payment.refunded_format = this.format(payment.refunded, payment.currency);
+
+    const invoice = payment.invoice_id
+      ? this.invoices.get(payment.invoice_id)
+      : undefined;
+    const invoiceStatus = INVOICE_STATUSES[status];
+    if (invoice && invoiceStatus) {
+      invoice.status = invoiceStatus;
+      invoice.updated_at = now;
+    }
+
+    const event = WEBHOOK_EVENTS[status];
+    if (event) await this.sendWebhook(event, payment);
+  }
+
+  private async sendWebhook(
+    type: WebhookEvent,
+    payment: Payment
+  ): Promise<void> {
+    for (const { service, secretToken } of this.webhooks) {
+      // The event type and data are correlated by the union, which TS can't follow here
+      const payload = {
+        id: crypto.randomUUID(),
+        type,
+        created_at: this.now().toISOString(),
+        secret_token: secretToken,
+        account_name: FakeApiClientDefaults.ACCOUNT_NAME,
+        live: false,
+        data: this.serialize(payment),
+      } as WebhookPayload<T["metadata"]>;
+
+      try {
+        await service.processWebhook(payload, { secret_token: secretToken });
+        this.webhookDeliveries.push({ payload });
+      } catch (error) {
+        this.webhookDeliveries.push({ payload, error });
+      }
+    }
+  }
+
+  private async submitStcPayOtp(
+    paymentId: string,
+    data: { otp_value?: string }
+  ): Promise<Payment> {
+    const payment = this.findPayment(paymentId);
+    if (payment.source.type !== PaymentSource.STCPAY) {
+      throw this.error(`Payment ${paymentId} is not an STC Pay payment`, 404);
+    }
+    if (payment.status !== PaymentStatus.INITIATED) {
+      throw this.error("OTP was already used", 409);
+    }
+    if (data.otp_value !== this.stcPayOtp) {
+      throw this.error("Invalid OTP", 400, { otp_value: ["is invalid"] });
+    }
+
+    payment.source.message = "Paid";
+    payment.source.reference_number = this.randomDigits(12);
+    payment.captured = payment.amount;
+    payment.captured_at = this.now();
+    await this.transition(payment, PaymentStatus.PAID);
+    return payment;
+  }
+
+  private updatePayment(
+    paymentId: string,
+    request: UpdatePaymentRequest
+  ): Payment {
+    const payment = this.findPayment(paymentId);
+    if (request.description !== undefined) {
+      payment.description = request.description;
+    }
+    if (request.metadata !== undefined) {
+      payment.metadata = request.metadata
+        ? this.mergeMetadata(payment.metadata, request.metadata)
+        : null;
+    }
+    payment.updated_at = this.now();
+    return payment;
+  }
+
+  private async capturePayment(
+    paymentId: string,
+    request: CapturePaymentRequest
+  ): Promise<Payment> {
+    const payment = this.findPayment(paymentId);
+    if (payment.status !== PaymentStatus.AUTHORIZED) {
+      throw this.error("Only authorized payments can be captured.");
+    }
+
+    const amount = request.amount ?? payment.amount;
+    if (amount <= 0 || amount > payment.amount) {
+      throw this.error("Validation Failed", 400, {
+        amount: [`must be between 1 and ${payment.amount}`],
+      });
+    }
+
+    payment.captured = amount;
+    payment.captured_at = this.now();
+    await this.transition(payment, PaymentStatus.CAPTURED);
+    return payment;
+  }
+
+  private async refundPayment(
+    paymentId: string,
+    request: RefundPaymentRequest
+  ): Promise<Payment> {
+    const payment = this.findPayment(paymentId);
+    if (
+      payment.status !== PaymentStatus.PAID &&
+      payment.status !== PaymentStatus.CAPTURED
+    ) {
+      throw this.error("Only paid or captured payments can be refunded.");
+    }
+
+    const refundable = payment.captured - payment.refunded;
+    const amount = request.amount ?? refundable;
+    if (amount <= 0 || amount > refundable) {
+      throw this.error("Validation Failed", 400, {
+        amount: [`must be between 1 and ${refundable}`],
+      });
+    }
+
+    payment.refunded += amount;
+    payment.refunded_at = this.now();
+    if (payment.refunded === payment.captured) {
+      await this.transition(payment, PaymentStatus.REFUNDED);
+      return payment;
+    }
+
+    // Partially refunded payments keep their status and can be refunded again
+    payment.updated_at = payment.refunded_at;
+    payment.refunded_format = this.format(payment.refunded, payment.currency);
+    await this.sendWebhook(WebhookEvent.PAYMENT_REFUNDED, payment);
+    return payment;
+  }
+
+  private async voidPayment(paymentId: string): Promise<Payment> {
+    const payment = this.findPayment(paymentId);
+    const voidable: PaymentStatus[] = [
+      PaymentStatus.PAID,
+      PaymentStatus.AUTHORIZED,
+      PaymentStatus.CAPTURED,
+    ];
+    if (!voidable.includes(payment.status)) {
+      throw this.error(
+        "Only paid, authorized or captured payments can be voided."
+      );
+    }
+
+    payment.voided_at = this.now();
+    await this.transition(payment, PaymentStatus.VOIDED);
+    return payment;
+  }
+
+  private listPayments(params: Record<string, unknown>) {
+    const payments = this.filter([...this.payments.values()], params).filter(
+      payment =>
+        params["last_4"] === undefined ||
+        ("number" in payment.source &&
+          payment.source.number.endsWith(String(params["last_4"])))
+    );
+    const { items, meta } = this.paginate(payments, params);
+    return { payments: items, meta };
+  }
+
+  private createInvoice(request: CreateInvoiceRequest): Invoice {
+    const id = crypto.randomUUID();
+    const now = this.now();
+    const invoice: Invoice = {
+      id,
+      status: InvoiceStatus.INITIATED,
+      amount: request.amount,
+      currency: request.currency,
+      description: request.description,
+      amount_format: this.format(request.amount, request.currency),
+      url: new URL(`/invoices/${id}`, this.baseUrl).toString(),
+      callback_url: request.callback_url,
+      success_url: request.success_url,
+      back_url: request.back_url,
+      expired_at: request.expired_at ? new Date(request.expired_at) : undefined,
+      created_at: now,
+      updated_at: now,
+      metadata: request.metadata ?? null,
+    };
+    this.invoices.set(id, invoice);
+    return invoice;
+  }
+
+  private bulkCreateInvoices(request: BulkCreateInvoiceRequest) {
+    return {
+      invoices: request.invoices.map(invoice => this.createInvoice(invoice)),
+    };
+  }
+
+  private listInvoices(params: Record<string, unknown>) {
+    const invoices = [...this.invoices.values()].map(invoice =>
+      this.expireInvoice(invoice)
+    );
+    const { items, meta } = this.paginate(
+      this.filter(invoices, params),
+      params
+    );
+    return { invoices: items, meta };
+  }
+
+  private updateInvoice(
+    invoiceId: string,
+    request: UpdateInvoiceRequest
+  ): DetailedInvoice {
+    const invoice = this.findInvoice(invoiceId);
+    if (request.metadata !== undefined) {
+      invoice.metadata = request.metadata
+        ? this.mergeMetadata(invoice.metadata, request.metadata)
+        : null;
+    }
+    invoice.updated_at = this.now();
+    return this.toDetailedInvoice(invoice);
+  }
+
+  private cancelInvoice(invoiceId: string): DetailedInvoice {
+    const invoice = this.findInvoice(invoiceId);
+    if (invoice.status !== InvoiceStatus.INITIATED) {
+      throw this.error("Only initiated invoices can be canceled.");
+    }
+
+    invoice.status = InvoiceStatus.CANCELED;
+    invoice.updated_at = this.now();
+    return this.toDetailedInvoice(invoice);
+  }
+
+  private toDetailedInvoice(invoice: Invoice): DetailedInvoice {
+    return {
+      ...invoice,
+      payments: [...this.payments.values()].filter(
+        payment => payment.invoice_id === invoice.id
+      ),
+    };
+  }
+
+  private findPayment(paymentId: string): Payment {
+    const payment = this.payments.get(paymentId);
+    if (!payment) throw this.error("Object not found", 404);
+    return payment;
+  }
+
+  private findInvoice(invoiceId: string): Invoice {
+    const invoice = this.invoices.get(invoiceId);
+    if (!invoice) throw this.error("Object not found", 404);
+    return this.expireInvoice(invoice);
+  }
+
+  private expireInvoice(invoice: Invoice): Invoice {
+    if (
+      invoice.status === InvoiceStatus.INITIATED &&
+      invoice.expired_at &&
+      invoice.expired_at <= this.now()
+    ) {
+      invoice.status = InvoiceStatus.EXPIRED;
+      invoice.updated_at = this.now();
+    }
+    return invoice;
+  }
+
+  /**
+   * Filters shared by payments and invoices: `id`, `status`, `created[gt]`, `created[lt]` and `metadata[key]`
+   */
+  private filter<I extends Payment | Invoice>(
+    items: I[],
+    params: Record<string, unknown>
+  ): I[] {
+    const createdAfter = params["created[gt]"];
+    const createdBefore = params["created[lt]"];
+    const metadata = Object.entries(params).flatMap(([key, value]) => {
+      const match = /^metadata\[(.+)\]$/.exec(key);
+      return match ? [[match[1], String(value)] as const] : [];
+    });
+
+    return items.filter(
+      item =>
+        (params["id"] === undefined || item.id === params["id"]) &&
+        (params["status"] === undefined || item.status === params["status"]) &&
+        (createdAfter === undefined ||
+          item.created_at > new Date(String(createdAfter))) &&
+        (createdBefore === undefined ||
+          item.created_at < new Date(String(createdBefore))) &&
+        metadata.every(([key, value]) => item.metadata?.[key!] === value)
+    );
+  }
+
+  /**
+   * Newest first, `PAGE_SIZE` items per page
+   */
+  private paginate<I>(
+    items: I[],
+    params: Record<string, unknown>
+  ): { items: I[]; meta: PaginationMeta } {
+    const page = Math.max(1, Number(params["page"] ?? 1) || 1);
+    const totalPages = Math.ceil(items.length / PAGE_SIZE);
+
+    return {
+      items: [...items]
+        .reverse()
+        .slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+      meta: {
+        current_page: page,
+        next_page: page < totalPages ? page + 1 : null,
+        prev_page: page > 1 ? page - 1 : null,
+        total_pages: totalPages,
+        total_count: items.length,
+      },
+    };
+  }
+
+  /**
+   * Keys sent with an empty value are removed, an empty `metadata` removes every key
+   */
+  private mergeMetadata(
+    current: Metadata | null | undefined,
+    update: Partial<Metadata>
+  ): Metadata {
+    const merged: Metadata = { ...current };
+    for (const [key, value] of Object.entries(update)) {
+      if (value === undefined || value === "") delete merged[key];
+      else merged[key] = value;
+    }
+    return merged;
+  }
+
+  private error(
+    message: string,
+    statusCode: number = 400,
+    errors?: Record<string, string[]>
+  ): MoyasarApiError {
+    return MoyasarApiError.create(
+      message,
+      ApiErrorType.INVALID_REQUEST,
+      statusCode,
+      errors ? { errors } : {}
+    );
+  }
+
+  private format(
+    amount: number,
+    currency: CurrencyType
+  ): `${number} ${CurrencyType}` {
+    return Money.of(amount, currency).format();
+  }
+
+  /**
+   * Masked like the API: `4111-11XX-XXXX-1111`
+   */
+  private maskCardNumber(number: string): string {
+    const masked = `${number.slice(0, 6)}${"X".repeat(number.length - 10)}${number.slice(-4)}`;
+    return masked.match(/.{1,4}/g)!.join("-");
+  }
+
+  private randomDigits(length: number): string {
+    return Array.from({ length }, () => Math.floor(Math.random() * 10)).join(
+      ""
+    );
+  }
+
+  private randomId(): string {
+    return crypto.randomUUID().replaceAll("-", "");
+  }
+
+  private serialize(value: unknown): unknown {
+    return JSON.parse(JSON.stringify(value));
+  }
+}
@@ -0,0 +1,19 @@
+export { FakeApiClient } from "./fake-api-client";
+export { buildPayment, buildInvoice, buildWebhookPayload } from "./factories";
+export { WebhookSimulator } from "./webhook-simulator";
+export {
+  FAKE_TEST_CARDS,
+  FakeApiClientDefaults,
+  WebhookSimulatorDefaults,
+} from "./constants";
+export type {
+  BuildInvoiceOptions,
+  BuildPaymentOptions,
+  BuildWebhookPayloadOptions,
+  FakeApiClientOptions,
+  FakeCardBehavior,
+  FakeRequestRecord,
+  FakeWebhookDelivery,
+  WebhookSimulatorDelivery,
+  WebhookSimulatorOptions,
+} from "./types";
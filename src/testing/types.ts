@@ -0,0 +1,158 @@
+import type { MetadataValidator, Metadata } from "@types";
+import type {
+  CreditCardSource,
+  Payment,
+  PaymentStatus,
+  StcPaySource,
+  WalletPaymentSource,
+} from "@payment";
+import type { DetailedInvoice } from "@invoice";
+import type {
+  Webhook,
+  WebhookEvent,
+  WebhookHttpMethod,
+  WebhookPayload,
+  WebhookPayloadOf,
+} from "@webhook";
+
+/**
+ * How the fake processes a card number, see `FAKE_TEST_CARDS`
+ */
+export interface FakeCardBehavior {
+  /**
+   * @description The payment stays `initiated` until `FakeApiClient.authenticate` completes the 3DS challenge.
+   * Ignored when the request sets `"3ds": false`.
+   */
+  threeDS: boolean;
+  /**
+   * @description Final status of the payment, `paid` turns into `authorized` for `manual` payments.
+   */
+  status: typeof PaymentStatus.PAID | typeof PaymentStatus.FAILED;
+  response_code: string;
+  message: string;
+}
+
+export interface FakeApiClientOptions<T extends object = Metadata> {
+  metadataValidator?: MetadataValidator<T> | undefined;
+  /**
+   * @description Base URL of the `transaction_url` and invoice `url` fields.
+   * @default DEFAULT_API_CONFIG.BASE_URL
+   */
+  baseUrl?: string | undefined;
+  /**
+   * @description Extra test cards, merged over `FAKE_TEST_CARDS`.
+   */
+  cards?: Record<string, FakeCardBehavior> | undefined;
+  /**
+   * @description OTP completing STC Pay payments, other OTPs are rejected as invalid.
+   * @default FakeApiClientDefaults.STCPAY_OTP
+   */
+  stcPayOtp?: string | undefined;
+  /**
+   * @description Clock of the fake, used for timestamps and invoice expiry.
+   * @default () => new Date()
+   */
+  now?: (() => Date) | undefined;
+}
+
+/**
+ * A webhook sent by the fake to a connected `WebhookService`
+ */
+export interface FakeWebhookDelivery<T extends object = Metadata> {
+  payload: WebhookPayload<T>;
+  /**
+   * @description Error thrown by `WebhookService.processWebhook`, e.g. by a listener.
+   */
+  error?: unknown;
+}
+
+export interface FakeRequestRecord {
+  method: string;
+  url: string;
+  data?: unknown;
+  params?: unknown;
+}
+
+/**
+ * Fields of `buildPayment`, the source defaults to a credit card matching the status
+ */
+export type BuildPaymentOptions<T extends object = Metadata> = Partial<
+  Omit<Payment<T>, "source">
+> & {
+  source?:
+    | Partial<CreditCardSource>
+    | Partial<WalletPaymentSource>
+    | Partial<StcPaySource>
+    | undefined;
+};
+
+export type BuildInvoiceOptions<T extends object = Metadata> = Partial<
+  DetailedInvoice<T>
+>;
+
+export type BuildWebhookPayloadOptions<
+  E extends WebhookEvent,
+  T extends object = Metadata,
+> = Partial<Omit<WebhookPayloadOf<E, T>, "type" | "created_at">> & {
+  created_at?: string | Date | undefined;
+};
+
+export interface WebhookSimulatorOptions {
+  /**
+   * @description The configured webhook, its `url` and `http_method` are used unless `url` or `httpMethod` are given.
+   */
+  webhook?: Pick<Webhook, "url" | "http_method"> | undefined;
+  /**
+   * @description Local endpoint receiving the webhooks, e.g. `http://localhost:3000/webhooks/moyasar`.
+   */
+  url?: string | undefined;
+  /**
+   * @default "post"
+   */
+  httpMethod?: WebhookHttpMethod | undefined;
+  /**
+   * @description `secret_token` of the payloads, the shared secret of the webhook.
+   */
+  secretToken: string;
+  /**
+   * @description Extra headers sent with every delivery.
+   */
+  headers?: Record<string, string> | undefined;
+  /**
+   * @description Waits before each redelivery of a failed webhook, in milliseconds.
+   * @default WebhookSimulatorDefaults.RETRY_SCHEDULE
+   */
+  retrySchedule?: readonly number[] | undefined;
+  /**
+   * @description Wait between redeliveries, replace it to run the retry schedule without waiting.
+   * @default setTimeout
+   */
+  sleep?: ((ms: number) => Promise<void>) | undefined;
+  /**
+   * @default WebhookSimulatorDefaults.TIMEOUT
+   */
+  timeout?: number | undefined;
+}
+
+/**
+ * A webhook sent by `WebhookSimulator` and the response of the endpoint
+ */
+export interface WebhookSimulatorDelivery<T extends object = Metadata> {
+  payload: WebhookPayload<T>;
+  /**
+   * @description 1 for the first delivery, incremented on each retry.
+   */
+  attempt: number;
+  /**
+   * @description HTTP status of the response, `0` when the request failed.
+   */
+  status: number;
+  /**
+   * @description The endpoint answered with a 2xx status.
+   */
+  ok: boolean;
+  /**
+   * @description Network error of the request, e.g. `ECONNREFUSED`.
+   */
+  error?: unknown;
+}
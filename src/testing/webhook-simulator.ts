@@ -0,0 +1,168 @@
+import axios from "axios";
+import type { Metadata } from "@types";
+import {
+  WebhookHttpMethod,
+  WebhookUtils,
+  type WebhookEvent,
+  type WebhookPayload,
+  type WebhookPayloadOf,
+} from "@webhook";
+import { WebhookSimulatorDefaults } from "./constants";
+import { buildWebhookPayload } from "./factories";
+import type {
+  BuildWebhookPayloadOptions,
+  WebhookSimulatorDelivery,
+  WebhookSimulatorOptions,
+} from "./types";
+
+/**
+ * Sends Moyasar-like webhooks to a local endpoint, to test webhook handlers without Moyasar.
+ *
+ * - Payloads are built with `buildWebhookPayload`, with the `secret_token` of the simulator
+ * - Failed deliveries are retried following `retrySchedule` and `WebhookUtils.shouldRetryWebhook`
+ * - Duplicated and out-of-order deliveries can be sent on purpose
+ *
+ * @example
+ * ```ts
+ * const simulator = new WebhookSimulator({
+ *   url: "http://localhost:3000/webhooks/moyasar",
+ *   secretToken: process.env.MOYASAR_WEBHOOK_SECRET!,
+ * });
+ *
+ * const payload = simulator.build(WebhookEvent.PAYMENT_PAID);
+ * await simulator.deliver(payload); // redelivered while the endpoint fails
+ * await simulator.sendDuplicates(payload); // the handler should skip it
+ * ```
+ */
+export class WebhookSimulator<T extends object = Metadata> {
+  /**
+   * Every delivery sent by the simulator, in order
+   */
+  public readonly deliveries: WebhookSimulatorDelivery<T>[] = [];
+
+  private readonly url: string;
+  private readonly httpMethod: WebhookHttpMethod;
+  private readonly retrySchedule: readonly number[];
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(private readonly options: WebhookSimulatorOptions) {
+    const url = options.url ?? options.webhook?.url;
+    if (!url) {
+      throw new Error("WebhookSimulator requires a url or a webhook");
+    }
+
+    this.url = url;
+    this.httpMethod =
+      options.httpMethod ??
+      options.webhook?.http_method ??
+      WebhookHttpMethod.POST;
+    this.retrySchedule =
+      options.retrySchedule ?? WebhookSimulatorDefaults.RETRY_SCHEDULE;
+    this.sleep =
+      options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * Build the payload of an event signed with the simulator `secret_token`, see `buildWebhookPayload`
+   */
+  build<E extends WebhookEvent>(
+    event: E,
+    options: BuildWebhookPayloadOptions<E, T> = {}
+  ): WebhookPayloadOf<E, T> {
+    return buildWebhookPayload<E, T>(event, {
+      secret_token: this.options.secretToken,
+      ...options,
+    } as BuildWebhookPayloadOptions<E, T>);
+  }
+
+  /**
+   * Send a payload once, without retrying
+   */
+  async send(
+    payload: WebhookPayload<T>,
+    attempt: number = 1
+  ): Promise<WebhookSimulatorDelivery<T>> {
+    let delivery: WebhookSimulatorDelivery<T>;
+    try {
+      const response = await axios.request({
+        method: this.httpMethod,
+        url: this.url,
+        data: JSON.stringify(payload),
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "Moyasar-Webhook-Simulator",
+          ...this.options.headers,
+        },
+        timeout: this.options.timeout ?? WebhookSimulatorDefaults.TIMEOUT,
+        // Every status is a delivery result, not an error
+        validateStatus: () => true,
+      });
+      delivery = {
+        payload,
+        attempt,
+        status: response.status,
+        ok: response.status >= 200 && response.status < 300,
+      };
+    } catch (error) {
+      delivery = { payload, attempt, status: 0, ok: false, error };
+    }
+
+    this.deliveries.push(delivery);
+    return delivery;
+  }
+
+  /**
+   * Send a payload and redeliver it following the retry schedule while the endpoint fails with a retryable status
+   *
+   * @returns every attempt, the last one is the final result
+   */
+  async deliver(
+    payload: WebhookPayload<T>
+  ): Promise<WebhookSimulatorDelivery<T>[]> {
+    const attempts = [await this.send(payload)];
+
+    for (const delay of this.retrySchedule) {
+      const last = attempts[attempts.length - 1]!;
+      const retry =
+        !last.ok &&
+        WebhookUtils.shouldRetryWebhook(
+          last.status,
+          attempts.length - 1,
+          this.retrySchedule.length
+        );
+      if (!retry) break;
+
+      await this.sleep(delay);
+      attempts.push(await this.send(payload, attempts.length + 1));
+    }
+
+    return attempts;
+  }
+
+  /**
+   * Send the same payload several times, like Moyasar does when a delivery is retried after a timeout
+   */
+  async sendDuplicates(
+    payload: WebhookPayload<T>,
+    times: number = 2
+  ): Promise<WebhookSimulatorDelivery<T>[]> {
+    const deliveries: WebhookSimulatorDelivery<T>[] = [];
+    for (let attempt = 1; attempt <= times; attempt++) {
+      deliveries.push(await this.send(payload, attempt));
+    }
+    return deliveries;
+  }
+
+  /**
+   * Send the payloads in reverse order, e.g. `payment_refunded` before `payment_paid`
+   */
+  async sendOutOfOrder(
+    payloads: WebhookPayload<T>[]
+  ): Promise<WebhookSimulatorDelivery<T>[]> {
+    const deliveries: WebhookSimulatorDelivery<T>[] = [];
+    for (const payload of [...payloads].reverse()) {
+      deliveries.push(await this.send(payload));
+    }
+    return deliveries;
+  }
+}
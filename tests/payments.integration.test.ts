@@ -2,14 +2,29 @@ import { MoyasarClient } from "@/index";
 import { PaymentSource, PaymentError } from "@payment";
 import { MoyasarError } from "@errors";
 import dotenv from "dotenv";
-import { v4 as uuidv4 } from "uuid";
+import { existsSync } from "node:fs";
 import z from "zod";
 
 dotenv.config({ path: ".env" });
 
+const CASSETTE_PATH = "tests/cassettes/payments.json";
+
+// Replays the cassette, or records it when an API key is set
+const canRun = existsSync(CASSETTE_PATH) || !!process.env.MOYASAR_API_KEY;
+
 describe("Payment Testing", async () => {
+  if (!canRun) {
+    it.skip(`needs ${CASSETTE_PATH} or MOYASAR_API_KEY`, () => {});
+    return;
+  }
+
   const client = new MoyasarClient({
-    apiKey: process.env.MOYASAR_API_KEY!,
+    apiKey: process.env.MOYASAR_API_KEY ?? "sk_test_replay",
+    // Set MOYASAR_RECORD=1 to refresh the cassette against the API
+    cassette: {
+      path: CASSETTE_PATH,
+      mode: process.env.MOYASAR_RECORD ? "record" : "auto",
+    },
     metadataValidator: z.object({
       app: z.enum(["ios", "android"]),
       user_id: z.string(),
@@ -44,8 +59,8 @@ describe("Payment Testing", async () => {
 
     const createdPayment = client.payment.create(createPaymentReq);
 
-    it("Should create a payment", () => {
-      expect(createdPayment).resolves.toBeDefined();
+    it("Should create a payment", async () => {
+      await expect(createdPayment).resolves.toBeDefined();
     });
 
     const payment = await createdPayment;
@@ -102,8 +117,8 @@ describe("Payment Testing", async () => {
         },
       });
 
-      expect(refundedPaymentPromise).rejects.toThrow(MoyasarError);
-      expect(refundedPaymentPromise).rejects.toThrow(PaymentError);
+      await expect(refundedPaymentPromise).rejects.toThrow(MoyasarError);
+      await expect(refundedPaymentPromise).rejects.toThrow(PaymentError);
       try {
         await refundedPaymentPromise;
       } catch (error) {
@@ -191,8 +206,8 @@ describe("Payment Testing", async () => {
       createCapabilitiesPaymentReq
     );
 
-    it("Should create a payment for capabilities testing", () => {
-      expect(createdCapabilitiesPayment).resolves.toBeDefined();
+    it("Should create a payment for capabilities testing", async () => {
+      await expect(createdCapabilitiesPayment).resolves.toBeDefined();
     });
 
     const capabilitiesPayment = await createdCapabilitiesPayment;
@@ -217,16 +232,16 @@ describe("Payment Testing", async () => {
 
   describe("Error handling", async () => {
     it("Should fail to retrieve non-existent payment", async () => {
-      const nonExistentId = "pay_" + uuidv4();
+      const nonExistentId = "pay_nonexistent_0001";
       const retrieveReq = client.payment.retrieve(nonExistentId);
 
-      expect(retrieveReq).rejects.toThrow();
-      expect(retrieveReq).rejects.toThrow(MoyasarError);
-      expect(retrieveReq).rejects.toThrow(PaymentError);
+      await expect(retrieveReq).rejects.toThrow(MoyasarError);
+      await expect(retrieveReq).rejects.toThrow(PaymentError);
+      await expect(retrieveReq).rejects.toMatchObject({ statusCode: 404 });
     });
 
     it("Should fail to update non-existent payment", async () => {
-      const nonExistentId = "pay_" + uuidv4();
+      const nonExistentId = "pay_nonexistent_0002";
       const updateReq = client.payment.update({
         paymentId: nonExistentId,
         update: {
@@ -234,13 +249,13 @@ describe("Payment Testing", async () => {
         },
       });
 
-      expect(updateReq).rejects.toThrow();
-      expect(updateReq).rejects.toThrow(MoyasarError);
-      expect(updateReq).rejects.toThrow(PaymentError);
+      await expect(updateReq).rejects.toThrow(MoyasarError);
+      await expect(updateReq).rejects.toThrow(PaymentError);
+      await expect(updateReq).rejects.toMatchObject({ statusCode: 404 });
     });
 
     it("Should fail to refund non-existent payment", async () => {
-      const nonExistentId = "pay_" + uuidv4();
+      const nonExistentId = "pay_nonexistent_0003";
       const refundReq = client.payment.refund({
         paymentId: nonExistentId,
         refund: {
@@ -248,9 +263,9 @@ describe("Payment Testing", async () => {
         },
       });
 
-      expect(refundReq).rejects.toThrow();
-      expect(refundReq).rejects.toThrow(MoyasarError);
-      expect(refundReq).rejects.toThrow(PaymentError);
+      await expect(refundReq).rejects.toThrow(MoyasarError);
+      await expect(refundReq).rejects.toThrow(PaymentError);
+      await expect(refundReq).rejects.toMatchObject({ statusCode: 404 });
     });
   });
 });
@@ -2,6 +2,7 @@
 
 import { Hono } from "hono";
 import { MoyasarClient } from "@client";
+import { PaymentSource } from "@payment";
 import { logger } from "hono/logger";
 
 const moyasar = new MoyasarClient({
@@ -22,18 +23,32 @@ const html = await Bun.file("./assets/test_html.html").text();
 app.get("/", c => {
   return c.html(html);
 });
-app.post("/webhook", async c => {
-  try {
-    const payload = await moyasar.webhook.processWebhook(await c.req.json(), {
-      secret_token: "your-secret-token",
-    });
-    return c.status(200);
-  } catch (error) {
-    c.status(400);
-    return c.json({
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
-  }
+app.post(
+  "/webhook",
+  moyasar.webhook.handlers.hono({
+    verification: { secret_token: "your-secret-token" },
+  })
+);
+
+app.post("/apple-pay/session", async c => {
+  const { validationUrl } = await c.req.json();
+  const session = await moyasar.payment.applePay.initiateSession({
+    validationUrl,
+    displayName: "Coffee Shop",
+    domain: new URL(c.req.url).hostname,
+  });
+  return c.json(session);
+});
+app.post("/apple-pay/pay", async c => {
+  const { token } = await c.req.json();
+  const payment = await moyasar.payment.create({
+    amount: 1000,
+    currency: "SAR",
+    description: "Coffee Order #1",
+    callback_url: "https://moyasar.com/thanks",
+    source: { type: PaymentSource.APPLEPAY, token: JSON.stringify(token) },
+  });
+  return c.json(payment);
 });
 
 export default {